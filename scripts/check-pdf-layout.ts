@@ -0,0 +1,45 @@
+/**
+ * Checks PDF reading order against the fixture corpus in fixtures/layout.
+ * Each PDF must extract to exactly the lines listed in expected.json, so a
+ * two-column page that comes out interleaved fails. Run with
+ * `npm run check:layout`.
+ */
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { extractPdfLayout } from "@/lib/extractors/pdf";
+
+const FIXTURE_DIR = path.join(process.cwd(), "fixtures", "layout");
+
+async function main() {
+  const expected = JSON.parse(
+    await readFile(path.join(FIXTURE_DIR, "expected.json"), "utf8"),
+  ) as Record<string, string[]>;
+
+  let failures = 0;
+  for (const [file, lines] of Object.entries(expected)) {
+    const { text } = await extractPdfLayout(
+      await readFile(path.join(FIXTURE_DIR, file)),
+    );
+    const actual = text.split("\n").filter((line) => line.trim());
+    const mismatch = lines.findIndex((line, index) => actual[index] !== line);
+
+    if (mismatch === -1 && actual.length === lines.length) {
+      console.log(`ok   ${file}`);
+      continue;
+    }
+
+    failures += 1;
+    const index = mismatch === -1 ? lines.length : mismatch;
+    console.log(`FAIL ${file} at line ${index + 1}`);
+    console.log(`  expected: ${JSON.stringify(lines[index] ?? null)}`);
+    console.log(`  actual:   ${JSON.stringify(actual[index] ?? null)}`);
+  }
+
+  if (failures) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
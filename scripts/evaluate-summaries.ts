@@ -0,0 +1,57 @@
+/**
+ * Measures summary quality against the fixture corpus in fixtures/summaries.
+ * Run with `npm run evaluate:summaries`; set SUMMARIZER_PROVIDER and the
+ * other summarizer variables to evaluate a model instead of the built-in
+ * extractive summarizer.
+ */
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { parseResumeText } from "@/lib/parser";
+import { summarizeResume } from "@/lib/summarizer";
+import {
+  evaluateSummary,
+  type SummaryEvaluation,
+} from "@/lib/summarizer/evaluate";
+
+const FIXTURE_DIR = path.join(process.cwd(), "fixtures", "summaries");
+
+async function main() {
+  const expected = JSON.parse(
+    await readFile(path.join(FIXTURE_DIR, "expected.json"), "utf8"),
+  ) as Record<string, string[]>;
+
+  const rows: Array<SummaryEvaluation & { file: string; provider: string }> =
+    [];
+  for (const [file, highlights] of Object.entries(expected)) {
+    const text = await readFile(path.join(FIXTURE_DIR, file), "utf8");
+    const { summary, summaryProvider } = await summarizeResume(
+      parseResumeText(text),
+    );
+    rows.push({
+      file,
+      provider: summaryProvider.name,
+      ...evaluateSummary(summary, highlights),
+    });
+  }
+
+  const mean = (key: keyof SummaryEvaluation) =>
+    rows.reduce((sum, row) => sum + row[key], 0) / rows.length;
+
+  console.table(
+    rows.map((row) => ({
+      ...row,
+      rouge1: row.rouge1.toFixed(3),
+      exactRecall: row.exactRecall.toFixed(2),
+      redundancy: row.redundancy.toFixed(3),
+    })),
+  );
+  console.log(
+    `mean ROUGE-1 ${mean("rouge1").toFixed(3)} · exact recall ${mean("exactRecall").toFixed(2)} · redundancy ${mean("redundancy").toFixed(3)}`,
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+
+import { isBlindReview, redactAnalysis } from "@/lib/redaction";
+import { getAnalysisRepository } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json(
+    { error: "No saved analysis exists with that id." },
+    { status: 404 },
+  );
+}
+
+function storageError(error: unknown, fallback: string) {
+  console.error(error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : fallback },
+    { status: 500 },
+  );
+}
+
+/**
+ * Returns the saved resume and GitHub snapshot. Analyses saved under blind
+ * review, or any analysis with `?blind=true`, return the redacted resume
+ * without the snapshot; the unmask route reveals the original.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const analysis = await getAnalysisRepository().get(id);
+    if (!analysis) return notFound();
+    return NextResponse.json({
+      data:
+        analysis.blind || isBlindReview(request)
+          ? redactAnalysis(analysis)
+          : analysis,
+    });
+  } catch (error) {
+    return storageError(error, "Unable to load the analysis right now.");
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const deleted = await getAnalysisRepository().delete(id);
+    return deleted ? NextResponse.json({ data: { id } }) : notFound();
+  } catch (error) {
+    return storageError(error, "Unable to delete the analysis right now.");
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+
+import { getAnalysisRepository } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * Reveals the original resume and GitHub snapshot behind a blind-review
+ * analysis. This is the only way to get the unredacted values back, so each
+ * call is recorded as the analysis' `unmaskedAt`.
+ */
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const analysis = await getAnalysisRepository().markUnmasked(id);
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: "No saved analysis exists with that id." },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ data: analysis });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to unmask the analysis right now.",
+      },
+      { status: 500 },
+    );
+  }
+}
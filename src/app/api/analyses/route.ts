@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+
+import { isBlindReview, redactAnalysisSummary } from "@/lib/redaction";
+import { getAnalysisRepository } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+/**
+ * Lists saved analyses, most recently updated first. Analyses saved under
+ * blind review, or every analysis with `?blind=true`, show the candidate's
+ * alias instead of names and file names.
+ */
+export async function GET(request: Request) {
+  try {
+    const blind = isBlindReview(request);
+    const analyses = await getAnalysisRepository().list();
+    return NextResponse.json({
+      data: analyses.map((analysis) =>
+        blind || analysis.blind ? redactAnalysisSummary(analysis) : analysis,
+      ),
+    });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to load saved analyses right now.",
+      },
+      { status: 500 },
+    );
+  }
+}
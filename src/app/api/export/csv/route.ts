@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+
+import { toExportGithub } from "@/lib/export/candidate";
+import {
+  getCsvColumns,
+  parseCsvColumns,
+  toCsv,
+  type CsvColumn,
+  type CsvRecord,
+} from "@/lib/export/csv";
+import { isParsedResume } from "@/lib/parser";
+
+export const runtime = "nodejs";
+
+type CandidateInput = {
+  resume?: unknown;
+  github?: unknown;
+  fileName?: unknown;
+};
+
+// Excel only detects UTF-8 in CSV files that start with a byte order mark.
+const UTF8_BOM = "\uFEFF";
+
+function toRecord(candidate: CandidateInput): CsvRecord | null {
+  if (!isParsedResume(candidate?.resume)) return null;
+  return {
+    resume: candidate.resume,
+    github: toExportGithub(candidate.github),
+    fileName: typeof candidate.fileName === "string" ? candidate.fileName : null,
+  };
+}
+
+/**
+ * Flattens candidates into CSV rows for spreadsheet and ATS imports. Send
+ * one candidate as `{ resume, github }` or many as `candidates: [...]` (the
+ * batch response's candidates work as they are; failed parses are skipped).
+ * `columns` overrides the column mapping, otherwise EXPORT_CSV_COLUMNS or
+ * the default mapping is used.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as
+      | (CandidateInput & { candidates?: unknown; columns?: unknown })
+      | null;
+
+    const inputs: CandidateInput[] = Array.isArray(body?.candidates)
+      ? body.candidates
+      : body
+        ? [body]
+        : [];
+    const records = inputs
+      .map(toRecord)
+      .filter((record): record is CsvRecord => record !== null);
+
+    if (!records.length) {
+      return NextResponse.json(
+        {
+          error:
+            "Send a parsed resume under `resume`, or a list of them under `candidates`.",
+        },
+        { status: 400 },
+      );
+    }
+
+    let columns: CsvColumn[];
+    try {
+      columns = body?.columns === undefined ? getCsvColumns() : parseCsvColumns(body.columns);
+    } catch (columnsError) {
+      return NextResponse.json(
+        { error: (columnsError as Error).message },
+        { status: 400 },
+      );
+    }
+
+    return new NextResponse(UTF8_BOM + toCsv(records, columns), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="candidates.csv"',
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to export candidates right now.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+
+import { candidateSlug, toExportGithub } from "@/lib/export/candidate";
+import { toJsonResume } from "@/lib/export/json-resume";
+import { isParsedResume } from "@/lib/parser";
+
+export const runtime = "nodejs";
+
+/**
+ * Converts a parsed resume (and optional GitHub analytics) to a JSON Resume
+ * document. The body is JSON with the parse response under `resume` and the
+ * GitHub response under `github`.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as {
+      resume?: unknown;
+      github?: unknown;
+    } | null;
+
+    if (!isParsedResume(body?.resume)) {
+      return NextResponse.json(
+        { error: "A parsed resume is required under the `resume` field." },
+        { status: 400 },
+      );
+    }
+
+    const github = toExportGithub(body.github);
+    const document = toJsonResume({ resume: body.resume, github });
+
+    return new NextResponse(JSON.stringify(document, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="${candidateSlug(body.resume.name, github?.login)}.resume.json"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to export the resume right now.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+
+import { fetchExternalContributions } from "@/lib/external-contributions";
+import { getLatestRateLimit, GithubRateLimitError } from "@/lib/github-client";
+
+import { rateLimitResponse } from "../responses";
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const username =
+      body && typeof body.username === "string" ? body.username.trim() : "";
+
+    if (!username) {
+      return NextResponse.json(
+        { error: "A GitHub username is required." },
+        { status: 400 },
+      );
+    }
+
+    const data = await fetchExternalContributions(username, {
+      refresh: body.refresh === true,
+    });
+
+    return NextResponse.json({ data, rateLimit: getLatestRateLimit("search") });
+  } catch (error) {
+    if (error instanceof GithubRateLimitError) {
+      return rateLimitResponse(error);
+    }
+    console.error(error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to load open-source contributions right now.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+
+import { fetchRepositoryQualitySources } from "@/lib/github";
+import { getLatestRateLimit, GithubRateLimitError } from "@/lib/github-client";
+import { buildRepositoryQualityReport } from "@/lib/repo-quality";
+
+import { rateLimitResponse } from "../responses";
+
+const DEFAULT_REPO_LIMIT = 6;
+const MAX_REPO_LIMIT = 10;
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const username =
+      body && typeof body.username === "string" ? body.username.trim() : "";
+
+    if (!username) {
+      return NextResponse.json(
+        { error: "A GitHub username is required." },
+        { status: 400 },
+      );
+    }
+
+    const repoLimit =
+      typeof body.repoLimit === "number" && body.repoLimit > 0
+        ? Math.min(Math.floor(body.repoLimit), MAX_REPO_LIMIT)
+        : DEFAULT_REPO_LIMIT;
+
+    const sources = await fetchRepositoryQualitySources(username, repoLimit, {
+      refresh: body.refresh === true,
+    });
+
+    return NextResponse.json({
+      data: buildRepositoryQualityReport(username, sources),
+      rateLimit: getLatestRateLimit(),
+    });
+  } catch (error) {
+    if (error instanceof GithubRateLimitError) {
+      return rateLimitResponse(error);
+    }
+    console.error(error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to analyse repository quality right now.",
+      },
+      { status: 500 },
+    );
+  }
+}
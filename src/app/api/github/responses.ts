@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+
+import type { GithubRateLimitError } from "@/lib/github-client";
+
+export function rateLimitResponse(error: GithubRateLimitError) {
+  return NextResponse.json(
+    {
+      error: error.message,
+      code: "rate_limited",
+      rateLimit: error.rateLimit,
+    },
+    {
+      status: 429,
+      headers: { "Retry-After": String(error.retryAfterSeconds) },
+    },
+  );
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+
+import { fetchRepositoryEvidence } from "@/lib/github";
+import { getLatestRateLimit, GithubRateLimitError } from "@/lib/github-client";
+import { buildSkillEvidenceReport } from "@/lib/skill-evidence";
+
+import { rateLimitResponse } from "../responses";
+
+const MAX_SKILLS = 50;
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const username =
+      body && typeof body.username === "string" ? body.username.trim() : "";
+
+    if (!username) {
+      return NextResponse.json(
+        { error: "A GitHub username is required." },
+        { status: 400 },
+      );
+    }
+
+    const skills: string[] = Array.isArray(body.skills)
+      ? Array.from(
+          new Set(
+            body.skills
+              .filter((skill: unknown): skill is string => typeof skill === "string")
+              .map((skill: string) => skill.trim())
+              .filter(Boolean),
+          ),
+        )
+      : [];
+
+    if (!skills.length) {
+      return NextResponse.json(
+        { error: "At least one skill is required." },
+        { status: 400 },
+      );
+    }
+
+    const repositories = await fetchRepositoryEvidence(username, {
+      refresh: body.refresh === true,
+      includeForks: body.includeForks === true,
+      includeArchived: body.includeArchived === true,
+    });
+
+    return NextResponse.json({
+      data: buildSkillEvidenceReport(skills.slice(0, MAX_SKILLS), repositories),
+      rateLimit: getLatestRateLimit(),
+    });
+  } catch (error) {
+    if (error instanceof GithubRateLimitError) {
+      return rateLimitResponse(error);
+    }
+    console.error(error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to check skill evidence right now.",
+      },
+      { status: 500 },
+    );
+  }
+}
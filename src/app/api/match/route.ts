@@ -0,0 +1,110 @@
+import { Buffer } from "node:buffer";
+
+import { NextResponse } from "next/server";
+
+import { CorruptArchiveError } from "@/lib/extractors/zip";
+import { parseJobDescription } from "@/lib/job-description";
+import { matchJob, type MatchCandidate, type MatchGithub } from "@/lib/job-match";
+import { extractResume, MAX_RESUME_SIZE } from "@/lib/resume";
+
+export const runtime = "nodejs";
+
+function parseJsonField<T>(value: FormDataEntryValue | null): T | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/** Checks the parts of a parsed resume that matching reads, element by element. */
+function isMatchCandidate(value: unknown): value is MatchCandidate {
+  if (!isRecord(value)) return false;
+  const { canonicalSkills, experience, totalYearsExperience } = value;
+  return (
+    Array.isArray(canonicalSkills) &&
+    canonicalSkills.every(
+      (skill) => isRecord(skill) && typeof skill.name === "string",
+    ) &&
+    Array.isArray(experience) &&
+    experience.every(
+      (role) =>
+        isRecord(role) && (role.title == null || typeof role.title === "string"),
+    ) &&
+    (totalYearsExperience === null || typeof totalYearsExperience === "number")
+  );
+}
+
+function isMatchGithub(value: unknown): value is MatchGithub {
+  return (
+    isRecord(value) &&
+    Array.isArray(value.topLanguages) &&
+    value.topLanguages.every(
+      (entry) => isRecord(entry) && typeof entry.language === "string",
+    )
+  );
+}
+
+async function readJobDescription(value: FormDataEntryValue | null) {
+  if (typeof value === "string") return value;
+  if (!(value instanceof File)) return "";
+  if (value.size > MAX_RESUME_SIZE) {
+    throw new Error("Job description files must be 5 MB or smaller.");
+  }
+  const { text } = await extractResume(Buffer.from(await value.arrayBuffer()));
+  return text;
+}
+
+/**
+ * Scores a parsed resume against a job description sent as text or as a
+ * file under `jobDescription`. The resume and optional GitHub analytics are
+ * the JSON the parse and GitHub endpoints returned.
+ */
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData();
+    const resume = parseJsonField<unknown>(formData.get("resume"));
+
+    if (!isMatchCandidate(resume)) {
+      return NextResponse.json(
+        { error: "A parsed resume is required under the `resume` field." },
+        { status: 400 },
+      );
+    }
+
+    const jobDescription = await readJobDescription(formData.get("jobDescription"));
+
+    if (!jobDescription.trim()) {
+      return NextResponse.json(
+        { error: "Paste a job description or upload it as a file." },
+        { status: 400 },
+      );
+    }
+
+    const github = parseJsonField<unknown>(formData.get("github"));
+    const requirements = parseJobDescription(jobDescription);
+
+    return NextResponse.json({
+      data: matchJob(requirements, resume, isMatchGithub(github) ? github : null),
+    });
+  } catch (error) {
+    if (error instanceof CorruptArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to match the job description right now.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { Buffer } from "node:buffer";
+
+import { NextResponse } from "next/server";
+
+import {
+  MAX_BATCH_RESUMES,
+  parseResumeBatch,
+  type BatchCandidate,
+} from "@/lib/batch";
+import { getLatestRateLimit } from "@/lib/github-client";
+import { isBlindReview, redactResume } from "@/lib/redaction";
+import { getAnalysisRepository, type AnalysisRepository } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+const MAX_ARCHIVE_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Saves a parsed candidate like a single upload and, under blind review,
+ * swaps in the redacted resume. Storage failures never block the batch.
+ */
+async function saveCandidate(
+  repository: AnalysisRepository,
+  candidate: BatchCandidate,
+  blind: boolean,
+) {
+  const { resume, fileHash } = candidate;
+  const saved =
+    resume && fileHash
+      ? await repository
+          .save({ fileName: candidate.fileName, fileHash, resume, blind })
+          .catch((storageError) => {
+            console.error("Unable to save the analysis", storageError);
+            return null;
+          })
+      : null;
+  const masked = saved?.blind ?? blind;
+  const redacted =
+    masked && resume && fileHash ? redactResume(resume, fileHash) : null;
+
+  return {
+    ...candidate,
+    fileName: redacted ? `${redacted.alias} resume` : candidate.fileName,
+    resume: redacted ? redacted.resume : resume,
+    github: masked ? null : candidate.github,
+    githubError: masked ? null : candidate.githubError,
+    blind: masked,
+    analysis: saved
+      ? { id: saved.id, updatedAt: saved.updatedAt, restored: false }
+      : null,
+  };
+}
+
+/**
+ * Parses a batch of uploads and saves each readable resume. With
+ * `?blind=true` every candidate is saved as blind and returned redacted,
+ * without GitHub summaries; the unmask route reveals the originals.
+ */
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData();
+    const files = formData
+      .getAll("resumes")
+      .filter((entry): entry is File => entry instanceof File);
+
+    if (!files.length) {
+      return NextResponse.json(
+        { error: "Upload at least one resume under the `resumes` field." },
+        { status: 400 },
+      );
+    }
+
+    if (files.length > MAX_BATCH_RESUMES) {
+      return NextResponse.json(
+        { error: `A batch can contain at most ${MAX_BATCH_RESUMES} resumes.` },
+        { status: 400 },
+      );
+    }
+
+    if (files.some((file) => file.size > MAX_ARCHIVE_SIZE)) {
+      return NextResponse.json(
+        { error: "Each uploaded file or archive must be under 50 MB." },
+        { status: 400 },
+      );
+    }
+
+    const uploads = await Promise.all(
+      files.map(async (file) => ({
+        name: file.name,
+        buffer: Buffer.from(await file.arrayBuffer()),
+      })),
+    );
+
+    const blind = isBlindReview(request);
+    const parsed = await parseResumeBatch(uploads, {
+      includeGithub: !blind && formData.get("includeGithub") !== "false",
+    });
+    const repository = getAnalysisRepository();
+    const candidates = await Promise.all(
+      parsed.map((candidate) => saveCandidate(repository, candidate, blind)),
+    );
+
+    return NextResponse.json({
+      data: { candidates, rateLimit: getLatestRateLimit() },
+    });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unexpected error while parsing resumes.",
+      },
+      { status: 500 },
+    );
+  }
+}
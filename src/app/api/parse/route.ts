@@ -2,41 +2,47 @@
 
 import { NextResponse } from "next/server";
 
-import { parseResumeText } from "@/lib/parser";
+import { CorruptArchiveError } from "@/lib/extractors/zip";
+import { isBlindReview, redactAnalysis, redactResume } from "@/lib/redaction";
+import { EmptyResumeError, parseResumeBuffer } from "@/lib/resume";
+import {
+  getAnalysisRepository,
+  hashResumeFile,
+  type SavedAnalysis,
+} from "@/lib/storage";
 
 export const runtime = "nodejs";
 
-async function extractPdfText(buffer: Buffer): Promise<string> {
-  const pdfParse = (await import("pdf-parse/lib/pdf-parse.js")).default;
-  const parsed = await pdfParse(buffer);
-  return parsed.text;
-}
-
-async function extractTextFromFile(file: File): Promise<string> {
-  const arrayBuffer = await file.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
-
-  if (file.type === "application/pdf" || file.name.endsWith(".pdf")) {
-    return extractPdfText(buffer);
-  }
-
-  if (file.type.startsWith("text/") || file.name.endsWith(".txt")) {
-    return buffer.toString("utf-8");
-  }
-
-  const extension = file.name.split(".").pop()?.toLowerCase();
-
-  if (extension === "doc" || extension === "docx") {
-    throw new Error(
-      "DOC and DOCX formats are not supported yet. Please export your resume as PDF or plain text and try again.",
-    );
-  }
-
-  throw new Error(
-    "Unsupported file type. Please upload a PDF or plain text resume.",
-  );
+function analysisResponse(
+  saved: SavedAnalysis,
+  restored: boolean,
+  blind: boolean,
+) {
+  const analysis = blind ? redactAnalysis(saved) : saved;
+  return {
+    data: analysis.resume,
+    blind,
+    analysis: {
+      id: analysis.id,
+      fileName: analysis.fileName,
+      fileHash: analysis.fileHash,
+      createdAt: analysis.createdAt,
+      updatedAt: analysis.updatedAt,
+      githubFetchedAt: analysis.githubFetchedAt,
+      restored,
+    },
+    github: analysis.github,
+  };
 }
 
+/**
+ * Parses an uploaded resume and saves the analysis. A file that was
+ * analysed before is answered from storage (with its GitHub snapshot)
+ * unless `reparse` is "true". Storage failures never block parsing.
+ * With `?blind=true` the response is redacted and the analysis is saved as
+ * blind, so later reads stay redacted; the original can only be revealed
+ * through the analysis' unmask route.
+ */
 export async function POST(request: Request) {
   try {
     const formData = await request.formData();
@@ -49,19 +55,49 @@ export async function POST(request: Request) {
       );
     }
 
-    const text = await extractTextFromFile(resumeFile);
-
-    if (!text.trim()) {
-      return NextResponse.json(
-        { error: "We could not read any text from the provided resume." },
-        { status: 400 },
-      );
+    const blind = isBlindReview(request);
+    const buffer = Buffer.from(await resumeFile.arrayBuffer());
+    const fileHash = hashResumeFile(buffer);
+    const repository = getAnalysisRepository();
+
+    if (formData.get("reparse") !== "true") {
+      const saved = await repository.findByHash(fileHash).catch((storageError) => {
+        console.error("Unable to read saved analyses", storageError);
+        return null;
+      });
+      if (saved) {
+        return NextResponse.json(
+          analysisResponse(saved, true, blind || saved.blind),
+        );
+      }
     }
 
-    const parsedResume = parseResumeText(text);
+    const parsedResume = await parseResumeBuffer(buffer);
 
-    return NextResponse.json({ data: parsedResume });
+    const saved = await repository
+      .save({ fileName: resumeFile.name, fileHash, resume: parsedResume, blind })
+      .catch((storageError) => {
+        console.error("Unable to save the analysis", storageError);
+        return null;
+      });
+
+    return NextResponse.json(
+      saved
+        ? analysisResponse(saved, false, saved.blind)
+        : {
+            data: blind ? redactResume(parsedResume, fileHash).resume : parsedResume,
+            blind,
+            analysis: null,
+            github: null,
+          },
+    );
   } catch (error) {
+    if (
+      error instanceof CorruptArchiveError ||
+      error instanceof EmptyResumeError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error(error);
     return NextResponse.json(
       {
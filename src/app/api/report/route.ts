@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+
+import { candidateSlug } from "@/lib/export/candidate";
+import { isParsedResume } from "@/lib/parser";
+import { renderInsightReport, type ReportGithub } from "@/lib/report";
+
+export const runtime = "nodejs";
+
+function isReportGithub(value: unknown): value is ReportGithub {
+  const github = value as ReportGithub | null;
+  return (
+    !!github &&
+    typeof github === "object" &&
+    typeof github.login === "string" &&
+    Array.isArray(github.topLanguages) &&
+    Array.isArray(github.recentActivity) &&
+    !!github.aggregates
+  );
+}
+
+/**
+ * Renders the candidate insight report as a PDF. The body is JSON with the
+ * parsed resume under `resume`, the GitHub analytics under `github` (optional)
+ * and an optional ISO `generatedAt` timestamp for reproducible output.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as {
+      resume?: unknown;
+      github?: unknown;
+      generatedAt?: unknown;
+    } | null;
+
+    if (!isParsedResume(body?.resume)) {
+      return NextResponse.json(
+        { error: "A parsed resume is required under the `resume` field." },
+        { status: 400 },
+      );
+    }
+
+    const generatedAt =
+      typeof body.generatedAt === "string" ? new Date(body.generatedAt) : new Date();
+
+    if (Number.isNaN(generatedAt.getTime())) {
+      return NextResponse.json(
+        { error: "`generatedAt` must be an ISO 8601 date." },
+        { status: 400 },
+      );
+    }
+
+    const github = isReportGithub(body.github) ? body.github : null;
+    const pdf = await renderInsightReport({
+      resume: body.resume,
+      github,
+      generatedAt,
+    });
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${candidateSlug(body.resume.name, github?.login)}-insight-report.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to generate the report right now.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -3,15 +3,98 @@
 import type { ChangeEvent } from "react";
 import { useEffect, useMemo, useState } from "react";
 
+import AnalysisHistory, {
+  type AnalysisHistoryEntry,
+} from "@/components/AnalysisHistory";
+import CandidateComparison from "@/components/CandidateComparison";
+import ContributionHeatmap, {
+  type ContributionCalendarData,
+  type ContributionTrendsData,
+} from "@/components/ContributionHeatmap";
+import JobFitPanel from "@/components/JobFitPanel";
+import OpenSourceContributions, {
+  type ExternalContributionsData,
+} from "@/components/OpenSourceContributions";
+import RepositoryQuality, {
+  type RepositoryQualityEntry,
+} from "@/components/RepositoryQuality";
+
+type ResumeExperience = {
+  company: string | null;
+  title: string | null;
+  location: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  isCurrent: boolean;
+  durationMonths: number | null;
+  bullets: string[];
+};
+
+type ResumeEducation = {
+  institution: string | null;
+  degree: string | null;
+  field: string | null;
+  graduationYear: number | null;
+  gpa: number | null;
+  gpaScale: number | null;
+};
+
+type ResumeCertification = {
+  name: string;
+  issuer: string | null;
+  date: string | null;
+  credentialId: string | null;
+  credentialUrl: string | null;
+};
+
+type SkillCategory =
+  | "language"
+  | "framework"
+  | "database"
+  | "cloud"
+  | "tool"
+  | "soft"
+  | "other";
+
+type ResumeSkill = {
+  name: string;
+  category: SkillCategory;
+  source: "skills" | "mentioned";
+};
+
+type CodeHostProvider = "github" | "gitlab" | "gitea" | "bitbucket";
+
+type CodeProfile = {
+  provider: CodeHostProvider;
+  host: string;
+  username: string;
+  url: string;
+};
+
 type ParsedResumeResponse = {
   name: string | null;
   headline: string | null;
   githubUrl: string | null;
   githubUsername: string | null;
+  /** Missing from resumes saved before other code hosts were recognised. */
+  codeProfiles?: CodeProfile[];
+  linkedinUrl: string | null;
+  portfolioUrl: string | null;
+  links: string[];
   emails: string[];
   phones: string[];
   skills: string[];
+  canonicalSkills: ResumeSkill[];
   summary: string[];
+  summaryProvider: {
+    name: "heuristic" | "openai-compatible" | "mock";
+    model: string | null;
+    fallbackReason?: string;
+  };
+  experience: ResumeExperience[];
+  totalYearsExperience: number | null;
+  education: ResumeEducation[];
+  certifications: ResumeCertification[];
   rawText: string;
 };
 
@@ -28,6 +111,19 @@ type GithubRepo = {
   updated_at: string;
 };
 
+type ExcludedRepo = {
+  name: string;
+  html_url: string;
+  reason: "fork" | "template" | "tutorial";
+  detail: string;
+};
+
+const EXCLUSION_REASON_LABELS: Record<ExcludedRepo["reason"], string> = {
+  fork: "Fork",
+  template: "Template",
+  tutorial: "Tutorial",
+};
+
 type GithubAggregates = {
   repositoryCount: number;
   totalStars: number;
@@ -57,13 +153,179 @@ type GithubProfile = {
   public_repos: number;
   public_gists: number;
   created_at: string;
-  topLanguages: Array<{ language: string; count: number }>;
+  topLanguages: Array<{
+    language: string;
+    percentage: number;
+    bytes: number;
+    repoCount: number;
+  }>;
   repos: GithubRepo[];
   aggregates: GithubAggregates;
   spotlight: GithubRepo | null;
   recentActivity: GithubActivity[];
+  source: "rest" | "graphql";
+  /** Missing from snapshots saved before other code hosts were supported. */
+  provider?: Exclude<CodeHostProvider, "bitbucket">;
+  host?: string;
+  pinnedRepos: GithubRepo[] | null;
+  contributionCalendar: ContributionCalendarData | null;
+  /** Missing from snapshots saved before contribution trends were added. */
+  contributionTrends?: ContributionTrendsData | null;
+  languageBytes: Array<{ language: string; bytes: number }> | null;
+  /** Missing from snapshots saved before repositories were screened. */
+  excludedRepos?: ExcludedRepo[];
+};
+
+type GithubRateLimit = {
+  limit: number;
+  remaining: number;
+  resetAt: string;
+  authMode: "app" | "token" | "anonymous";
+};
+
+type GithubSummary = {
+  login: string;
+  name: string | null;
+  profileUrl: string;
+  followers: number;
+  repositoryCount: number;
+  totalStars: number;
+  topLanguages: Array<{ language: string; count: number }>;
+};
+
+type BatchCandidate = {
+  id: string;
+  fileName: string;
+  resume: ParsedResumeResponse | null;
+  error: string | null;
+  github: GithubSummary | null;
+  githubError: string | null;
+  /** True when the resume is the redacted blind-review copy. */
+  blind: boolean;
+  analysis: SavedAnalysisMeta | null;
+};
+
+type SkillEvidenceStatus = "verified" | "weak" | "none";
+
+type SkillEvidenceReport = {
+  checkedRepositories: number;
+  skills: Array<{
+    skill: string;
+    status: SkillEvidenceStatus;
+    score: number;
+    repositories: Array<{
+      repo: string;
+      url: string;
+      kinds: string[];
+      details: string[];
+    }>;
+  }>;
+  counts: Record<SkillEvidenceStatus, number>;
+};
+
+const SKILL_EVIDENCE_STYLES: Record<
+  SkillEvidenceStatus,
+  { label: string; className: string }
+> = {
+  verified: {
+    label: "Verified",
+    className: "border-emerald-400/40 bg-emerald-500/15 text-emerald-200",
+  },
+  weak: {
+    label: "Weak evidence",
+    className: "border-amber-400/40 bg-amber-500/15 text-amber-200",
+  },
+  none: {
+    label: "No evidence",
+    className: "border-white/15 bg-white/5 text-white/50",
+  },
+};
+
+const SUMMARY_PROVIDER_LABELS: Record<
+  ParsedResumeResponse["summaryProvider"]["name"],
+  string
+> = {
+  heuristic: "Keyword ranking",
+  "openai-compatible": "Language model",
+  mock: "Mock summarizer",
+};
+
+const SKILL_CATEGORY_LABELS: Record<SkillCategory, string> = {
+  language: "Languages",
+  framework: "Frameworks & Libraries",
+  database: "Databases",
+  cloud: "Cloud",
+  tool: "Tools & Practices",
+  soft: "Soft Skills",
+  other: "Other",
+};
+
+function groupSkills(skills: ResumeSkill[]) {
+  return (Object.keys(SKILL_CATEGORY_LABELS) as SkillCategory[])
+    .map((category) => ({
+      category,
+      skills: skills.filter((skill) => skill.category === category),
+    }))
+    .filter((group) => group.skills.length);
+}
+
+type SavedAnalysisMeta = {
+  id: string;
+  updatedAt: string;
+  /** True when the analysis was loaded from storage rather than parsed now. */
+  restored: boolean;
+};
+
+type ExportFormat = "report" | "json-resume" | "csv";
+
+const EXPORT_ENDPOINTS: Record<ExportFormat, { url: string; fallbackName: string }> = {
+  report: { url: "/api/report", fallbackName: "insight-report.pdf" },
+  "json-resume": { url: "/api/export/json-resume", fallbackName: "resume.json" },
+  csv: { url: "/api/export/csv", fallbackName: "candidates.csv" },
+};
+
+const MAX_RESUME_SIZE = 5 * 1024 * 1024;
+const MAX_ARCHIVE_SIZE = 50 * 1024 * 1024;
+
+function isZipFile(file: File) {
+  return /\.zip$/i.test(file.name) || file.type.includes("zip");
+}
+
+const CODE_HOST_LABELS: Record<CodeHostProvider, string> = {
+  github: "GitHub",
+  gitlab: "GitLab",
+  gitea: "Gitea",
+  bitbucket: "Bitbucket",
 };
 
+function codeHostLabel(provider: CodeHostProvider, host: string) {
+  return host === "codeberg.org" ? "Codeberg" : CODE_HOST_LABELS[provider];
+}
+
+const AUTH_MODE_LABELS: Record<GithubRateLimit["authMode"], string> = {
+  app: "GitHub App",
+  token: "Token",
+  anonymous: "Unauthenticated",
+};
+
+function formatResetTime(resetAt: string) {
+  return new Date(resetAt).toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatTenure(months: number | null) {
+  if (months === null) return null;
+  const years = Math.floor(months / 12);
+  const remainder = months % 12;
+  const parts = [
+    years ? `${years} yr${years > 1 ? "s" : ""}` : "",
+    remainder ? `${remainder} mo${remainder > 1 ? "s" : ""}` : "",
+  ].filter(Boolean);
+  return parts.length ? parts.join(" ") : "Under a month";
+}
+
 export default function Home() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -72,19 +334,153 @@ export default function Home() {
   const [githubProfile, setGithubProfile] = useState<GithubProfile | null>(null);
   const [githubError, setGithubError] = useState<string | null>(null);
   const [githubLoading, setGithubLoading] = useState(false);
+  const [githubRateLimit, setGithubRateLimit] =
+    useState<GithubRateLimit | null>(null);
+  const [batchCandidates, setBatchCandidates] = useState<
+    BatchCandidate[] | null
+  >(null);
+  const [selectedCandidateId, setSelectedCandidateId] = useState<
+    string | null
+  >(null);
+
+  const [skillEvidence, setSkillEvidence] =
+    useState<SkillEvidenceReport | null>(null);
+  const [skillEvidenceError, setSkillEvidenceError] = useState<string | null>(
+    null,
+  );
+  const [skillEvidenceLoading, setSkillEvidenceLoading] = useState(false);
+  const [repoQuality, setRepoQuality] = useState<
+    RepositoryQualityEntry[] | null
+  >(null);
+  const [repoQualityError, setRepoQualityError] = useState<string | null>(
+    null,
+  );
+  const [repoQualityLoading, setRepoQualityLoading] = useState(false);
+  const [externalContributions, setExternalContributions] =
+    useState<ExternalContributionsData | null>(null);
+  const [externalContributionsError, setExternalContributionsError] =
+    useState<string | null>(null);
+  const [externalContributionsLoading, setExternalContributionsLoading] =
+    useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(
+    null,
+  );
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [analysis, setAnalysis] = useState<SavedAnalysisMeta | null>(null);
+  // GitHub analytics stored with the analysis, used instead of a fresh fetch.
+  const [savedGithub, setSavedGithub] = useState<{
+    analysisId: string;
+    profile: GithubProfile;
+  } | null>(null);
+  const [history, setHistory] = useState<AnalysisHistoryEntry[] | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [blindReview, setBlindReview] = useState(false);
+  // True while the resume on screen is the redacted blind-review copy.
+  const [isMasked, setIsMasked] = useState(false);
+  const [unmaskError, setUnmaskError] = useState<string | null>(null);
 
   const hasResults = useMemo(() => Boolean(parsedResume), [parsedResume]);
   const githubUsername = parsedResume?.githubUsername ?? null;
-  const totalLanguageCount = useMemo(() => {
-    if (!githubProfile) return 0;
-    return githubProfile.topLanguages.reduce((sum, lang) => sum + lang.count, 0);
-  }, [githubProfile]);
+  // GitHub takes precedence; otherwise the first profile on a host the
+  // insights route can analyse. Bitbucket links are only listed.
+  const codeProfile = githubUsername
+    ? { provider: "github" as const, host: "github.com", username: githubUsername }
+    : (parsedResume?.codeProfiles?.find((profile) => profile.provider !== "bitbucket") ??
+      null);
+  const profileUsername = codeProfile?.username ?? null;
+  const profileProvider = codeProfile?.provider ?? null;
+  const profileHost = codeProfile?.host ?? null;
+  const insightsLabel = githubProfile
+    ? codeHostLabel(githubProfile.provider ?? "github", githubProfile.host ?? "github.com")
+    : codeProfile
+      ? codeHostLabel(codeProfile.provider, codeProfile.host)
+      : "GitHub";
+  const otherCodeProfiles =
+    parsedResume?.codeProfiles?.filter((profile) => profile.provider !== "github") ?? [];
+  const analysisId = analysis?.id ?? null;
+  const repoQualityByName = useMemo(
+    () => new Map(repoQuality?.map((entry) => [entry.name, entry])),
+    [repoQuality],
+  );
+  // Joined so the evidence request only reruns when the skill list changes.
+  const skillsKey = parsedResume?.skills.join("\n") ?? "";
+  const blindQuery = blindReview ? "?blind=true" : "";
+
+  const handleBatchUpload = async (files: File[]) => {
+    const oversized = files.find((file) =>
+      file.size > (isZipFile(file) ? MAX_ARCHIVE_SIZE : MAX_RESUME_SIZE),
+    );
+    if (oversized) {
+      setError(
+        `${oversized.name} is too large. Resumes must be under 5 MB and archives under 50 MB.`,
+      );
+      return;
+    }
+
+    setError(null);
+    setIsLoading(true);
+    setParsedResume(null);
+    setAnalysis(null);
+    setSavedGithub(null);
+    setIsMasked(false);
+    setBatchCandidates(null);
+    setSelectedCandidateId(null);
+
+    try {
+      const formData = new FormData();
+      files.forEach((file) => formData.append("resumes", file));
+
+      const response = await fetch(`/api/parse/batch${blindQuery}`, {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const { error: message } = await response.json();
+        throw new Error(message ?? "Unable to parse resumes.");
+      }
+
+      const { data } = await response.json();
+      setBatchCandidates(data.candidates);
+      if (data.rateLimit) setGithubRateLimit(data.rateLimit);
+      setHistoryVersion((version) => version + 1);
+    } catch (uploadError) {
+      setError(
+        uploadError instanceof Error
+          ? uploadError.message
+          : "Something went wrong while uploading the resumes.",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSelectCandidate = (candidateId: string) => {
+    const candidate = batchCandidates?.find((item) => item.id === candidateId);
+    if (!candidate?.resume) return;
+    setSelectedCandidateId(candidate.id);
+    setParsedResume(candidate.resume);
+    setAnalysis(candidate.analysis);
+    setSavedGithub(null);
+    setIsMasked(candidate.blind);
+    setUnmaskError(null);
+    setGithubProfile(null);
+    setGithubError(null);
+  };
 
   const handleFileUpload = async (event: ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (!files.length) return;
+
+    if (files.length > 1 || isZipFile(files[0])) {
+      await handleBatchUpload(files);
+      return;
+    }
 
-    if (file.size > 5 * 1024 * 1024) {
+    const [file] = files;
+    if (file.size > MAX_RESUME_SIZE) {
       setError("File is too large. Please upload a file under 5 MB.");
       return;
     }
@@ -92,12 +488,14 @@ export default function Home() {
     setError(null);
     setIsLoading(true);
     setParsedResume(null);
+    setBatchCandidates(null);
+    setSelectedCandidateId(null);
 
     try {
       const formData = new FormData();
       formData.append("resume", file);
 
-      const response = await fetch("/api/parse", {
+      const response = await fetch(`/api/parse${blindQuery}`, {
         method: "POST",
         body: formData,
       });
@@ -107,10 +505,15 @@ export default function Home() {
         throw new Error(message ?? "Unable to parse resume.");
       }
 
-      const { data } = await response.json();
+      const { data, analysis: saved, github, blind } = await response.json();
       setParsedResume(data);
+      setIsMasked(Boolean(blind));
+      setUnmaskError(null);
+      setAnalysis(saved);
+      setSavedGithub(saved && github ? { analysisId: saved.id, profile: github } : null);
       setGithubProfile(null);
       setGithubError(null);
+      if (saved) setHistoryVersion((version) => version + 1);
     } catch (uploadError) {
       setError(
         uploadError instanceof Error
@@ -122,14 +525,206 @@ export default function Home() {
     }
   };
 
+  const handleOpenAnalysis = async (id: string) => {
+    setHistoryError(null);
+
+    try {
+      const response = await fetch(`/api/analyses/${id}${blindQuery}`);
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Unable to open the saved analysis.");
+      }
+
+      const saved = payload.data;
+      setError(null);
+      setSelectedCandidateId(null);
+      setParsedResume(saved.resume);
+      setIsMasked(blindReview || saved.blind);
+      setUnmaskError(null);
+      setAnalysis({ id: saved.id, updatedAt: saved.updatedAt, restored: true });
+      setSavedGithub(
+        saved.github ? { analysisId: saved.id, profile: saved.github } : null,
+      );
+      setGithubProfile(null);
+      setGithubError(null);
+    } catch (openError) {
+      setHistoryError(
+        openError instanceof Error
+          ? openError.message
+          : "Unable to open the saved analysis right now.",
+      );
+    }
+  };
+
+  const handleDeleteAnalysis = async (id: string) => {
+    setHistoryError(null);
+
+    try {
+      const response = await fetch(`/api/analyses/${id}`, { method: "DELETE" });
+      if (!response.ok && response.status !== 404) {
+        const { error: message } = await response.json();
+        throw new Error(message ?? "Unable to delete the saved analysis.");
+      }
+      if (id === analysisId) {
+        setAnalysis(null);
+        setSavedGithub(null);
+      }
+      setHistoryVersion((version) => version + 1);
+    } catch (deleteError) {
+      setHistoryError(
+        deleteError instanceof Error
+          ? deleteError.message
+          : "Unable to delete the saved analysis right now.",
+      );
+    }
+  };
+
+  const handleUnmask = async () => {
+    if (!analysisId) return;
+    setUnmaskError(null);
+
+    try {
+      const response = await fetch(`/api/analyses/${analysisId}/unmask`, {
+        method: "POST",
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Unable to unmask the candidate.");
+      }
+
+      const saved = payload.data;
+      setParsedResume(saved.resume);
+      setSavedGithub(
+        saved.github ? { analysisId: saved.id, profile: saved.github } : null,
+      );
+      setIsMasked(false);
+    } catch (revealError) {
+      setUnmaskError(
+        revealError instanceof Error
+          ? revealError.message
+          : "Unable to unmask the candidate right now.",
+      );
+    }
+  };
+
+  const downloadExport = async (format: ExportFormat, body: unknown) => {
+    const { url, fallbackName } = EXPORT_ENDPOINTS[format];
+    setExportingFormat(format);
+    setExportError(null);
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const { error: message } = await response.json();
+        throw new Error(message ?? "Unable to export the candidate.");
+      }
+
+      const filename =
+        response.headers
+          .get("Content-Disposition")
+          ?.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
+      const objectUrl = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = objectUrl;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(objectUrl);
+    } catch (downloadError) {
+      setExportError(
+        downloadError instanceof Error
+          ? downloadError.message
+          : "Unable to export the candidate right now.",
+      );
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!parsedResume) return;
+    downloadExport(format, { resume: parsedResume, github: githubProfile });
+  };
+
+  const handleExportBatch = (candidateIds: string[]) => {
+    const ids = new Set(candidateIds);
+    downloadExport("csv", {
+      candidates: batchCandidates?.filter((candidate) => ids.has(candidate.id)),
+    });
+  };
+
   useEffect(() => {
-    if (!githubUsername) {
+    let isCancelled = false;
+
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(`/api/analyses${blindQuery}`);
+        const payload = await response.json();
+        if (!response.ok) {
+          throw new Error(payload?.error ?? "Unable to load saved analyses.");
+        }
+        if (!isCancelled) {
+          setHistory(payload.data);
+          setHistoryError(null);
+        }
+      } catch (historyFetchError) {
+        if (!isCancelled) {
+          setHistoryError(
+            historyFetchError instanceof Error
+              ? historyFetchError.message
+              : "Unable to load saved analyses right now.",
+          );
+        }
+      }
+    };
+
+    fetchHistory();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [historyVersion, blindQuery]);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const fetchRateLimit = async () => {
+      try {
+        const response = await fetch("/api/github");
+        if (!response.ok) return;
+        const { data } = await response.json();
+        if (!isCancelled) setGithubRateLimit(data);
+      } catch {
+        // The quota badge is informational; analytics still work without it.
+      }
+    };
+
+    fetchRateLimit();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!profileUsername) {
       setGithubProfile(null);
       setGithubError(null);
       setGithubLoading(false);
       return;
     }
 
+    if (savedGithub && savedGithub.analysisId === analysisId) {
+      setGithubProfile(savedGithub.profile);
+      setGithubError(null);
+      setGithubLoading(false);
+      return;
+    }
+
     let isCancelled = false;
     const fetchGithubInsights = async () => {
       setGithubLoading(true);
@@ -139,15 +734,28 @@ export default function Home() {
         const response = await fetch("/api/github", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ username: githubUsername, repoLimit: 5 }),
+          body: JSON.stringify({
+            username: profileUsername,
+            provider: profileProvider,
+            host: profileHost,
+            repoLimit: 5,
+            analysisId,
+          }),
         });
 
         if (!response.ok) {
           const data = await response.json();
+          if (response.status === 429 && data?.rateLimit) {
+            setGithubRateLimit(data.rateLimit);
+            throw new Error(
+              `GitHub API rate limit reached. Analytics will be available again at ${formatResetTime(data.rateLimit.resetAt)}.`,
+            );
+          }
           throw new Error(data?.error ?? "Unable to fetch GitHub analytics.");
         }
 
-        const { data } = await response.json();
+        const { data, rateLimit } = await response.json();
+        if (rateLimit) setGithubRateLimit(rateLimit);
         if (!isCancelled) {
           setGithubProfile(data);
         }
@@ -169,6 +777,170 @@ export default function Home() {
 
     fetchGithubInsights();
 
+    return () => {
+      isCancelled = true;
+    };
+  }, [profileUsername, profileProvider, profileHost, analysisId, savedGithub]);
+
+  useEffect(() => {
+    const skills = skillsKey ? skillsKey.split("\n") : [];
+    if (!githubUsername || !skills.length) {
+      setSkillEvidence(null);
+      setSkillEvidenceError(null);
+      setSkillEvidenceLoading(false);
+      return;
+    }
+
+    let isCancelled = false;
+    const fetchSkillEvidence = async () => {
+      setSkillEvidenceLoading(true);
+      setSkillEvidenceError(null);
+
+      try {
+        const response = await fetch("/api/github/skill-evidence", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ username: githubUsername, skills }),
+        });
+
+        const payload = await response.json();
+        if (!response.ok) {
+          if (response.status === 429 && payload?.rateLimit) {
+            setGithubRateLimit(payload.rateLimit);
+          }
+          throw new Error(payload?.error ?? "Unable to check skill evidence.");
+        }
+
+        if (payload.rateLimit) setGithubRateLimit(payload.rateLimit);
+        if (!isCancelled) {
+          setSkillEvidence(payload.data);
+        }
+      } catch (evidenceError) {
+        if (!isCancelled) {
+          setSkillEvidence(null);
+          setSkillEvidenceError(
+            evidenceError instanceof Error
+              ? evidenceError.message
+              : "Unable to check skill evidence right now.",
+          );
+        }
+      } finally {
+        if (!isCancelled) {
+          setSkillEvidenceLoading(false);
+        }
+      }
+    };
+
+    fetchSkillEvidence();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [githubUsername, skillsKey]);
+
+  useEffect(() => {
+    if (!githubUsername) {
+      setRepoQuality(null);
+      setRepoQualityError(null);
+      setRepoQualityLoading(false);
+      return;
+    }
+
+    let isCancelled = false;
+    const fetchRepoQuality = async () => {
+      setRepoQualityLoading(true);
+      setRepoQualityError(null);
+
+      try {
+        const response = await fetch("/api/github/repo-quality", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ username: githubUsername }),
+        });
+
+        const payload = await response.json();
+        if (!response.ok) {
+          if (response.status === 429 && payload?.rateLimit) {
+            setGithubRateLimit(payload.rateLimit);
+          }
+          throw new Error(payload?.error ?? "Unable to analyse repository quality.");
+        }
+
+        if (payload.rateLimit) setGithubRateLimit(payload.rateLimit);
+        if (!isCancelled) {
+          setRepoQuality(payload.data.repositories);
+        }
+      } catch (qualityError) {
+        if (!isCancelled) {
+          setRepoQuality(null);
+          setRepoQualityError(
+            qualityError instanceof Error
+              ? qualityError.message
+              : "Unable to analyse repository quality right now.",
+          );
+        }
+      } finally {
+        if (!isCancelled) {
+          setRepoQualityLoading(false);
+        }
+      }
+    };
+
+    fetchRepoQuality();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [githubUsername]);
+
+  useEffect(() => {
+    if (!githubUsername) {
+      setExternalContributions(null);
+      setExternalContributionsError(null);
+      setExternalContributionsLoading(false);
+      return;
+    }
+
+    let isCancelled = false;
+    const fetchExternalContributions = async () => {
+      setExternalContributionsLoading(true);
+      setExternalContributionsError(null);
+
+      try {
+        const response = await fetch("/api/github/external-contributions", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ username: githubUsername }),
+        });
+
+        const payload = await response.json();
+        if (!response.ok) {
+          throw new Error(
+            payload?.error ?? "Unable to load open-source contributions.",
+          );
+        }
+
+        if (!isCancelled) {
+          setExternalContributions(payload.data);
+        }
+      } catch (contributionsError) {
+        if (!isCancelled) {
+          setExternalContributions(null);
+          setExternalContributionsError(
+            contributionsError instanceof Error
+              ? contributionsError.message
+              : "Unable to load open-source contributions right now.",
+          );
+        }
+      } finally {
+        if (!isCancelled) {
+          setExternalContributionsLoading(false);
+        }
+      }
+    };
+
+    fetchExternalContributions();
+
     return () => {
       isCancelled = true;
     };
@@ -176,7 +948,17 @@ export default function Home() {
 
   return (
     <main className="flex min-h-screen w-full justify-center bg-slate-950 bg-[radial-gradient(circle_at_top,_rgba(79,70,229,0.25),_transparent_50%),_radial-gradient(circle_at_bottom,_rgba(14,116,144,0.2),_transparent_55%)] px-4 py-16 text-slate-100">
-      <div className="w-full max-w-5xl space-y-10">
+      <div className="flex w-full max-w-7xl flex-col gap-8 lg:flex-row lg:items-start">
+      <div className="order-last w-full lg:order-first lg:w-72 lg:shrink-0">
+        <AnalysisHistory
+          entries={history}
+          activeId={analysisId}
+          error={historyError}
+          onOpen={handleOpenAnalysis}
+          onDelete={handleDeleteAnalysis}
+        />
+      </div>
+      <div className="w-full min-w-0 max-w-5xl flex-1 space-y-10">
         <header className="rounded-3xl border border-white/10 bg-white/5 p-10 shadow-2xl shadow-indigo-500/10 backdrop-blur">
           <div className="grid gap-8 lg:grid-cols-[minmax(0,1fr)_260px]">
             <div className="space-y-6">
@@ -213,7 +995,7 @@ export default function Home() {
               <ul className="mt-4 space-y-3">
                 <li className="flex items-center justify-between">
                   <span>Upload formats</span>
-                  <span className="font-medium text-white">PDF · TXT</span>
+                  <span className="font-medium text-white">PDF · DOCX · ODT · RTF · MD</span>
                 </li>
                 <li className="flex items-center justify-between">
                   <span>GitHub analytics</span>
@@ -242,7 +1024,12 @@ export default function Home() {
                 Upload a resume to generate insights
               </p>
               <p className="text-xs text-white/50">
-                PDF and plain text formats are supported. Maximum size 5 MB.
+                PDF, DOCX, ODT, RTF, Markdown, HTML and plain text formats are
+                supported. Maximum size 5 MB.
+              </p>
+              <p className="text-xs text-white/50">
+                Select several files or a ZIP archive to compare candidates
+                side by side.
               </p>
             </div>
             <span className="inline-flex items-center gap-2 rounded-full bg-indigo-500 px-5 py-2 text-sm font-medium text-white shadow-lg shadow-indigo-500/40">
@@ -252,16 +1039,28 @@ export default function Home() {
               id="resume"
               name="resume"
               type="file"
-              accept=".pdf,.txt"
+              accept=".pdf,.docx,.odt,.rtf,.md,.markdown,.html,.htm,.txt,.zip"
+              multiple
               className="hidden"
               onChange={handleFileUpload}
               disabled={isLoading}
             />
           </label>
 
+          <label className="mt-4 flex items-center justify-center gap-2 text-xs text-white/60">
+            <input
+              type="checkbox"
+              checked={blindReview}
+              onChange={(event) => setBlindReview(event.target.checked)}
+              className="size-4 accent-indigo-500"
+            />
+            Blind review: hide names, contact details, links, addresses,
+            graduation years and pronouns in single uploads and saved analyses
+          </label>
+
           {isLoading && (
             <p className="mt-6 text-center text-sm text-slate-600">
-              Reading your resume. Hang tight...
+              Reading your resumes. Hang tight...
             </p>
           )}
 
@@ -272,18 +1071,91 @@ export default function Home() {
           )}
         </section>
 
-        <section className="space-y-4">
+        {batchCandidates && (
+          <CandidateComparison
+            candidates={batchCandidates}
+            selectedId={selectedCandidateId}
+            onSelect={handleSelectCandidate}
+            onExportCsv={handleExportBatch}
+            isExporting={exportingFormat === "csv"}
+          />
+        )}
+
+        <section id="insights" className="scroll-mt-8 space-y-4">
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold text-white">
               Extracted Insights
             </h2>
             {hasResults && (
-              <span className="rounded-full border border-white/10 bg-white/10 px-3 py-1 text-xs text-white/60">
-                Resume intelligence
-              </span>
+              <div className="flex items-center gap-3">
+                <span className="rounded-full border border-white/10 bg-white/10 px-3 py-1 text-xs text-white/60">
+                  {analysis?.restored
+                    ? `Saved ${new Date(analysis.updatedAt).toLocaleDateString()}`
+                    : "Resume intelligence"}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleExport("json-resume")}
+                  disabled={exportingFormat !== null || githubLoading}
+                  className="rounded-full border border-white/15 bg-white/10 px-4 py-1.5 text-xs font-medium text-white hover:bg-white/15 disabled:opacity-60"
+                >
+                  JSON Resume
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleExport("csv")}
+                  disabled={exportingFormat !== null || githubLoading}
+                  className="rounded-full border border-white/15 bg-white/10 px-4 py-1.5 text-xs font-medium text-white hover:bg-white/15 disabled:opacity-60"
+                >
+                  CSV
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleExport("report")}
+                  disabled={exportingFormat !== null || githubLoading}
+                  title={
+                    githubLoading
+                      ? "Waiting for GitHub analytics to finish loading"
+                      : undefined
+                  }
+                  className="rounded-full bg-indigo-500 px-4 py-1.5 text-xs font-medium text-white shadow-lg shadow-indigo-500/40 disabled:opacity-60"
+                >
+                  {exportingFormat === "report" ? "Preparing PDF..." : "Download report"}
+                </button>
+              </div>
             )}
           </div>
 
+          {exportError && (
+            <p className="rounded-lg border border-rose-300/30 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+              {exportError}
+            </p>
+          )}
+
+          {hasResults && isMasked && (
+            <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-amber-300/30 bg-amber-500/10 px-4 py-3 text-sm text-amber-100">
+              <p>
+                Blind review: identifying details are hidden.
+                {!analysisId && " This analysis was not saved, so it cannot be unmasked."}
+              </p>
+              {analysisId && (
+                <button
+                  type="button"
+                  onClick={handleUnmask}
+                  className="rounded-full border border-amber-200/30 bg-amber-400/20 px-4 py-1.5 text-xs font-medium text-amber-50 hover:bg-amber-400/30"
+                >
+                  Unmask candidate
+                </button>
+              )}
+            </div>
+          )}
+
+          {unmaskError && (
+            <p className="rounded-lg border border-rose-300/30 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+              {unmaskError}
+            </p>
+          )}
+
           {!hasResults && (
             <p className="rounded-2xl border border-white/10 bg-white/5 px-6 py-12 text-center text-sm text-white/60 shadow-lg shadow-black/20">
               Upload a resume to see the extracted details here.
@@ -328,6 +1200,64 @@ export default function Home() {
                       )}
                     </dd>
                   </div>
+                  {otherCodeProfiles.length > 0 && (
+                    <div className="rounded-lg border border-white/5 bg-white/5 px-4 py-3">
+                      <dt className="text-xs uppercase tracking-wider text-white/40">
+                        Other Code Hosts
+                      </dt>
+                      <dd className="flex flex-col gap-1">
+                        {otherCodeProfiles.map((profile) => (
+                          <a
+                            key={profile.url}
+                            href={profile.url}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-sky-600 underline"
+                          >
+                            {codeHostLabel(profile.provider, profile.host)}: {profile.username}
+                          </a>
+                        ))}
+                      </dd>
+                    </div>
+                  )}
+                  <div className="rounded-lg border border-white/5 bg-white/5 px-4 py-3">
+                    <dt className="text-xs uppercase tracking-wider text-white/40">
+                      LinkedIn
+                    </dt>
+                    <dd>
+                      {parsedResume.linkedinUrl ? (
+                        <a
+                          href={parsedResume.linkedinUrl}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-sky-600 underline"
+                        >
+                          {parsedResume.linkedinUrl}
+                        </a>
+                      ) : (
+                        "Not found"
+                      )}
+                    </dd>
+                  </div>
+                  <div className="rounded-lg border border-white/5 bg-white/5 px-4 py-3">
+                    <dt className="text-xs uppercase tracking-wider text-white/40">
+                      Portfolio
+                    </dt>
+                    <dd>
+                      {parsedResume.portfolioUrl ? (
+                        <a
+                          href={parsedResume.portfolioUrl}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-sky-600 underline"
+                        >
+                          {parsedResume.portfolioUrl}
+                        </a>
+                      ) : (
+                        "Not found"
+                      )}
+                    </dd>
+                  </div>
                   <div className="rounded-lg border border-white/5 bg-white/5 px-4 py-3">
                     <dt className="text-xs uppercase tracking-wider text-white/40">
                       Email
@@ -351,11 +1281,104 @@ export default function Home() {
                 </dl>
               </div>
 
-              {!!parsedResume.summary.length && (
+              <div className="space-y-6">
+                <div className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-lg shadow-black/20">
+                  <h3 className="text-lg font-semibold text-white">
+                    Education
+                  </h3>
+                  {parsedResume.education.length ? (
+                    <ul className="mt-4 space-y-3 text-sm text-white/70">
+                      {parsedResume.education.map((entry, index) => (
+                        <li
+                          key={`${entry.institution}-${index}`}
+                          className="rounded-lg border border-white/5 bg-white/5 px-4 py-3"
+                        >
+                          <p className="font-medium text-white">
+                            {[entry.degree, entry.field]
+                              .filter(Boolean)
+                              .join(" in ") || "Degree not detected"}
+                          </p>
+                          <p className="text-xs text-white/60">
+                            {[
+                              entry.institution,
+                              entry.graduationYear,
+                              entry.gpa !== null
+                                ? `GPA ${entry.gpa}${entry.gpaScale ? `/${entry.gpaScale}` : ""}`
+                                : null,
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="mt-4 text-sm text-white/50">Not detected</p>
+                  )}
+                </div>
+
                 <div className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-lg shadow-black/20">
                   <h3 className="text-lg font-semibold text-white">
-                    Highlights
+                    Certifications
                   </h3>
+                  {parsedResume.certifications.length ? (
+                    <ul className="mt-4 space-y-3 text-sm text-white/70">
+                      {parsedResume.certifications.map((certification, index) => (
+                        <li
+                          key={`${certification.name}-${index}`}
+                          className="rounded-lg border border-white/5 bg-white/5 px-4 py-3"
+                        >
+                          <p className="font-medium text-white">
+                            {certification.credentialUrl ? (
+                              <a
+                                href={certification.credentialUrl}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="text-sky-300 underline"
+                              >
+                                {certification.name}
+                              </a>
+                            ) : (
+                              certification.name
+                            )}
+                          </p>
+                          <p className="text-xs text-white/60">
+                            {[
+                              certification.issuer,
+                              certification.date,
+                              certification.credentialId
+                                ? `ID ${certification.credentialId}`
+                                : null,
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="mt-4 text-sm text-white/50">Not detected</p>
+                  )}
+                </div>
+              </div>
+
+              {!!parsedResume.summary.length && (
+                <div className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-lg shadow-black/20">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h3 className="text-lg font-semibold text-white">
+                      Highlights
+                    </h3>
+                    <span
+                      className="rounded-full border border-white/10 bg-white/10 px-3 py-1 text-xs text-white/60"
+                      title={parsedResume.summaryProvider.fallbackReason}
+                    >
+                      {SUMMARY_PROVIDER_LABELS[parsedResume.summaryProvider.name]}
+                      {parsedResume.summaryProvider.model &&
+                        ` · ${parsedResume.summaryProvider.model}`}
+                      {parsedResume.summaryProvider.fallbackReason &&
+                        " (fallback)"}
+                    </span>
+                  </div>
                   <ul className="mt-4 space-y-3 text-sm text-white/70">
                     {parsedResume.summary.map((item, index) => (
                       <li
@@ -374,42 +1397,142 @@ export default function Home() {
                   <h3 className="text-lg font-semibold text-white">
                     Skills Spotlight
                   </h3>
-                  <div className="mt-4 flex flex-wrap gap-2 text-sm text-white">
-                    {parsedResume.skills.map((skill) => (
-                      <span
-                        key={skill}
-                        className="rounded-full bg-white/10 px-3 py-1"
-                      >
-                        {skill}
-                      </span>
+                  {parsedResume.canonicalSkills.some(
+                    (skill) => skill.source === "mentioned",
+                  ) && (
+                    <p className="mt-1 text-xs text-white/50">
+                      Outlined skills were found in experience or project
+                      descriptions rather than a skills section.
+                    </p>
+                  )}
+                  <div className="mt-4 space-y-4">
+                    {groupSkills(parsedResume.canonicalSkills).map((group) => (
+                      <div key={group.category}>
+                        <p className="text-xs uppercase tracking-[0.2em] text-white/40">
+                          {SKILL_CATEGORY_LABELS[group.category]}
+                        </p>
+                        <div className="mt-2 flex flex-wrap gap-2 text-sm text-white">
+                          {group.skills.map((skill) => (
+                            <span
+                              key={skill.name}
+                              className={
+                                skill.source === "mentioned"
+                                  ? "rounded-full border border-dashed border-white/30 px-3 py-1"
+                                  : "rounded-full bg-white/10 px-3 py-1"
+                              }
+                            >
+                              {skill.name}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
                     ))}
                   </div>
                 </div>
               )}
+
+              {!!parsedResume.experience.length && (
+                <div className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-lg shadow-black/20 md:col-span-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h3 className="text-lg font-semibold text-white">
+                      Work Experience
+                    </h3>
+                    {parsedResume.totalYearsExperience !== null && (
+                      <span className="rounded-full border border-white/10 bg-white/10 px-3 py-1 text-xs text-white/60">
+                        {parsedResume.totalYearsExperience} years total
+                      </span>
+                    )}
+                  </div>
+                  <ul className="mt-4 space-y-4 text-sm text-white/80">
+                    {parsedResume.experience.map((role, index) => (
+                      <li
+                        key={`${role.company}-${role.startDate}-${index}`}
+                        className="space-y-2 rounded-xl border border-white/5 bg-white/5 px-4 py-3"
+                      >
+                        <div className="flex flex-col gap-1 sm:flex-row sm:items-center sm:justify-between">
+                          <div>
+                            <p className="font-medium text-white">
+                              {role.title ?? "Role not detected"}
+                            </p>
+                            <p className="text-xs text-white/60">
+                              {[role.company, role.location]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            </p>
+                          </div>
+                          <span className="text-xs text-white/50">
+                            {[
+                              role.startDate,
+                              role.isCurrent ? "Present" : role.endDate,
+                            ]
+                              .filter(Boolean)
+                              .join(" – ")}
+                            {role.durationMonths !== null &&
+                              ` · ${formatTenure(role.durationMonths)}`}
+                          </span>
+                        </div>
+                        {!!role.bullets.length && (
+                          <ul className="list-disc space-y-1 pl-5 text-xs text-white/60">
+                            {role.bullets.map((bullet, bulletIndex) => (
+                              <li key={bulletIndex}>{bullet}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           )}
         </section>
 
+        {parsedResume && (
+          <JobFitPanel
+            resume={parsedResume}
+            githubLanguages={githubProfile?.topLanguages ?? null}
+          />
+        )}
+
         <section className="space-y-4">
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold text-white">
-              GitHub Insights
+              {insightsLabel} Insights
             </h2>
-            {hasResults && (
-              <span className="rounded-full border border-white/10 bg-white/10 px-3 py-1 text-xs text-white/60">
-                {githubProfile?.repos.length ?? 0} curated
-              </span>
-            )}
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              {githubRateLimit && (
+                <span
+                  className={`rounded-full border px-3 py-1 text-xs ${
+                    githubRateLimit.remaining === 0
+                      ? "border-rose-300/30 bg-rose-500/10 text-rose-200"
+                      : "border-white/10 bg-white/10 text-white/60"
+                  }`}
+                  title={`Resets at ${formatResetTime(githubRateLimit.resetAt)}`}
+                >
+                  API quota {githubRateLimit.remaining.toLocaleString()}/
+                  {githubRateLimit.limit.toLocaleString()} ·{" "}
+                  {AUTH_MODE_LABELS[githubRateLimit.authMode]}
+                </span>
+              )}
+              {hasResults && (
+                <span className="rounded-full border border-white/10 bg-white/10 px-3 py-1 text-xs text-white/60">
+                  {githubProfile?.repos.length ?? 0} curated
+                </span>
+              )}
+            </div>
           </div>
 
-          {!githubUsername && (
+          {!profileUsername && (
             <p className="rounded-2xl border border-white/10 bg-white/5 px-6 py-6 text-center text-sm text-white/60 shadow-lg shadow-black/20">
-              Add your GitHub profile to the resume to unlock profile analytics
-              and project summaries.
+              {isMasked
+                ? "GitHub analytics are hidden during blind review. Unmask the candidate to load them."
+                : otherCodeProfiles.length
+                  ? "Bitbucket profiles are listed but cannot be analysed yet. Add a GitHub, GitLab or Codeberg profile to unlock profile analytics."
+                  : "Add your GitHub, GitLab or Codeberg profile to the resume to unlock profile analytics and project summaries."}
             </p>
           )}
 
-          {githubUsername && githubLoading && (
+          {profileUsername && githubLoading && (
             <div className="rounded-2xl border border-white/10 bg-white/5 px-6 py-8 text-center shadow-lg shadow-black/20">
               <div className="mx-auto flex size-12 items-center justify-center rounded-full border border-indigo-300/30 bg-indigo-500/20 text-indigo-200">
                 <svg
@@ -427,7 +1550,7 @@ export default function Home() {
                 </svg>
               </div>
               <p className="mt-4 text-sm text-white/60">
-                Fetching GitHub analytics for {githubUsername}...
+                Fetching {insightsLabel} analytics for {profileUsername}...
               </p>
             </div>
           )}
@@ -515,51 +1638,174 @@ export default function Home() {
                           <dt className="font-medium">Repos</dt>
                           <dd>{githubProfile.public_repos}</dd>
                         </div>
-                        <div>
-                          <dt className="font-medium">Gists</dt>
-                          <dd>{githubProfile.public_gists}</dd>
-                        </div>
+                        {(githubProfile.provider ?? "github") === "github" && (
+                          <div>
+                            <dt className="font-medium">Gists</dt>
+                            <dd>{githubProfile.public_gists}</dd>
+                          </div>
+                        )}
                       </dl>
                     </div>
                     {githubProfile.bio && (
                       <p className="text-sm text-white/70">{githubProfile.bio}</p>
                     )}
                     <p className="text-xs text-white/50">
-                      Joined GitHub on {new Date(githubProfile.created_at).toLocaleDateString()}
+                      {githubProfile.created_at
+                        ? `Joined ${insightsLabel} on ${new Date(githubProfile.created_at).toLocaleDateString()}`
+                        : insightsLabel}
+                      {githubProfile.contributionCalendar?.coverage !== "recent-events" &&
+                        githubProfile.contributionCalendar &&
+                        ` · ${githubProfile.contributionCalendar.totalContributions.toLocaleString()} contributions in the last year`}
                     </p>
                   </div>
                 </div>
               </div>
 
+              {githubProfile.contributionCalendar && githubProfile.contributionTrends && (
+                <ContributionHeatmap
+                  calendar={githubProfile.contributionCalendar}
+                  trends={githubProfile.contributionTrends}
+                />
+              )}
+
+              {githubProfile.pinnedRepos && githubProfile.pinnedRepos.length > 0 && (
+                <div className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-lg shadow-black/20">
+                  <h3 className="text-lg font-semibold text-white">
+                    Pinned Repositories
+                  </h3>
+                  <ul className="mt-4 grid gap-3 sm:grid-cols-2">
+                    {githubProfile.pinnedRepos.map((repo) => (
+                      <li
+                        key={repo.html_url}
+                        className="rounded-xl border border-white/10 bg-slate-900/60 p-4 text-sm text-white/70"
+                      >
+                        <a
+                          href={repo.html_url}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="font-semibold text-white underline"
+                        >
+                          {repo.name}
+                        </a>
+                        {repo.description && (
+                          <p className="mt-1 text-xs text-white/60">
+                            {repo.description}
+                          </p>
+                        )}
+                        <div className="mt-2 flex flex-wrap gap-3 text-xs text-white/50">
+                          {repo.language && <span>{repo.language}</span>}
+                          <span>⭐ {repo.stargazers_count}</span>
+                          <span>🍴 {repo.forks_count}</span>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {githubProfile.topLanguages.length > 0 && (
                 <div className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-lg shadow-black/20">
                   <h3 className="text-lg font-semibold text-white">
                     Top Languages
                   </h3>
+                  <p className="mt-1 text-xs text-white/50">
+                    Share of code by size, weighted toward recently active
+                    repositories. Forks and archived repositories are excluded.
+                  </p>
                   <div className="mt-4 space-y-3">
-                    {githubProfile.topLanguages.map((lang) => {
-                      const percentage = totalLanguageCount
-                        ? Math.round((lang.count / totalLanguageCount) * 100)
-                        : 0;
-                      return (
-                        <div key={lang.language} className="space-y-2">
-                          <div className="flex items-center justify-between text-xs text-white/60">
-                            <span>{lang.language}</span>
-                            <span>{percentage}%</span>
-                          </div>
-                          <div className="h-2 w-full overflow-hidden rounded-full border border-white/10 bg-white/10">
-                            <div
-                              className="h-full rounded-full bg-gradient-to-r from-indigo-400 via-sky-400 to-emerald-400"
-                              style={{ width: `${Math.max(6, percentage)}%` }}
-                            />
-                          </div>
+                    {githubProfile.topLanguages.map((lang) => (
+                      <div key={lang.language} className="space-y-2">
+                        <div className="flex items-center justify-between text-xs text-white/60">
+                          <span>
+                            {lang.language}
+                            <span className="ml-2 text-white/40">
+                              {lang.repoCount} repo{lang.repoCount > 1 ? "s" : ""}
+                            </span>
+                          </span>
+                          <span>{lang.percentage}%</span>
+                        </div>
+                        <div className="h-2 w-full overflow-hidden rounded-full border border-white/10 bg-white/10">
+                          <div
+                            className="h-full rounded-full bg-gradient-to-r from-indigo-400 via-sky-400 to-emerald-400"
+                            style={{ width: `${Math.max(1, lang.percentage)}%` }}
+                          />
                         </div>
-                      );
-                    })}
+                      </div>
+                    ))}
                   </div>
                 </div>
               )}
 
+              {(skillEvidence || skillEvidenceLoading || skillEvidenceError) && (
+                <div className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-lg shadow-black/20">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h3 className="text-lg font-semibold text-white">
+                      Skill Evidence
+                    </h3>
+                    {skillEvidence && (
+                      <span className="rounded-full border border-white/10 bg-white/10 px-3 py-1 text-xs text-white/60">
+                        {skillEvidence.counts.verified} of{" "}
+                        {skillEvidence.skills.length} verified
+                      </span>
+                    )}
+                  </div>
+                  <p className="mt-1 text-xs text-white/50">
+                    Resume skills checked against languages, topics, dependency
+                    manifests and READMEs of recently pushed repositories.
+                  </p>
+                  {skillEvidenceLoading && (
+                    <p className="mt-4 text-sm text-white/60">
+                      Checking repositories for skill evidence...
+                    </p>
+                  )}
+                  {skillEvidenceError && (
+                    <p className="mt-4 text-sm text-rose-200">
+                      {skillEvidenceError}
+                    </p>
+                  )}
+                  {skillEvidence && !skillEvidenceLoading && (
+                    <ul className="mt-4 space-y-3">
+                      {skillEvidence.skills.map((entry) => (
+                        <li
+                          key={entry.skill}
+                          className="rounded-xl border border-white/10 bg-slate-900/60 p-4 text-sm text-white/70"
+                        >
+                          <div className="flex flex-wrap items-center justify-between gap-2">
+                            <span className="font-semibold text-white">
+                              {entry.skill}
+                            </span>
+                            <span
+                              className={`rounded-full border px-2 py-0.5 text-xs ${SKILL_EVIDENCE_STYLES[entry.status].className}`}
+                            >
+                              {SKILL_EVIDENCE_STYLES[entry.status].label}
+                            </span>
+                          </div>
+                          {entry.repositories.length > 0 && (
+                            <ul className="mt-2 space-y-1 text-xs text-white/60">
+                              {entry.repositories.map((source) => (
+                                <li key={source.url}>
+                                  <a
+                                    href={source.url}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="text-indigo-200 underline"
+                                  >
+                                    {source.repo}
+                                  </a>
+                                  <span className="ml-2 text-white/40">
+                                    {source.details.join(" · ")}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
               {githubProfile.repos.length > 0 && (
                 <div className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-lg shadow-black/20">
                   <div className="flex flex-wrap items-center justify-between gap-2">
@@ -570,6 +1816,16 @@ export default function Home() {
                       {githubProfile.repos.length} curated
                     </span>
                   </div>
+                  {repoQualityLoading && (
+                    <p className="mt-3 text-xs text-white/50">
+                      Checking tests, CI, licenses, commit history and READMEs...
+                    </p>
+                  )}
+                  {repoQualityError && (
+                    <p className="mt-3 text-xs text-rose-200">
+                      {repoQualityError}
+                    </p>
+                  )}
                   {githubProfile.spotlight && (
                     <div className="mt-5 space-y-3 rounded-2xl border border-indigo-400/30 bg-indigo-500/10 p-5 text-white/80">
                       <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
@@ -642,6 +1898,11 @@ export default function Home() {
                         {repo.description && (
                           <p className="text-sm text-white/70">{repo.description}</p>
                         )}
+                        {repoQualityByName.has(repo.name) && (
+                          <RepositoryQuality
+                            quality={repoQualityByName.get(repo.name)!}
+                          />
+                        )}
                         {repo.readmeExcerpt && (
                           <p className="whitespace-pre-wrap rounded-xl border border-white/5 bg-white/5 p-4 text-xs text-white/60">
                             {repo.readmeExcerpt}
@@ -684,6 +1945,53 @@ export default function Home() {
                 </div>
               )}
 
+              <OpenSourceContributions
+                contributions={externalContributions}
+                isLoading={externalContributionsLoading}
+                error={externalContributionsError}
+              />
+
+              {githubProfile.excludedRepos && githubProfile.excludedRepos.length > 0 && (
+                <div className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-lg shadow-black/20">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h3 className="text-lg font-semibold text-white">
+                      Excluded Repositories
+                    </h3>
+                    <span className="rounded-full border border-white/10 bg-white/10 px-3 py-1 text-xs text-white/60">
+                      {githubProfile.excludedRepos.length} excluded
+                    </span>
+                  </div>
+                  <p className="mt-2 text-xs text-white/50">
+                    Forks without their own commits, template scaffolds and
+                    tutorial projects are left out of the stats, languages and
+                    spotlight.
+                  </p>
+                  <ul className="mt-4 space-y-2 text-sm text-white/70">
+                    {githubProfile.excludedRepos.map((repo) => (
+                      <li
+                        key={repo.html_url}
+                        className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-white/10 bg-slate-900/70 px-4 py-2"
+                      >
+                        <a
+                          href={repo.html_url}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-sky-300 underline"
+                        >
+                          {repo.name}
+                        </a>
+                        <span className="text-xs text-white/50">
+                          <span className="mr-2 rounded-full border border-white/10 bg-white/5 px-2 py-0.5">
+                            {EXCLUSION_REASON_LABELS[repo.reason]}
+                          </span>
+                          {repo.detail}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {githubProfile.recentActivity.length > 0 && (
                 <div className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-lg shadow-black/20">
                   <h3 className="text-lg font-semibold text-white">
@@ -716,7 +2024,7 @@ export default function Home() {
                             rel="noreferrer"
                             className="mt-2 inline-flex items-center gap-1 text-xs text-sky-300 underline"
                           >
-                            View on GitHub
+                            View on {insightsLabel}
                             <svg
                               className="size-3"
                               viewBox="0 0 12 12"
@@ -742,6 +2050,7 @@ export default function Home() {
           )}
         </section>
         </div>
+      </div>
       </main>
   );
 }
\ No newline at end of file
@@ -0,0 +1,102 @@
+"use client";
+
+export type AnalysisHistoryEntry = {
+  id: string;
+  fileName: string;
+  name: string | null;
+  headline: string | null;
+  githubUsername: string | null;
+  updatedAt: string;
+};
+
+type AnalysisHistoryProps = {
+  entries: AnalysisHistoryEntry[] | null;
+  activeId: string | null;
+  error: string | null;
+  onOpen: (analysisId: string) => void;
+  onDelete: (analysisId: string) => void;
+};
+
+function formatSavedAt(value: string) {
+  return new Date(value).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function AnalysisHistory({
+  entries,
+  activeId,
+  error,
+  onOpen,
+  onDelete,
+}: AnalysisHistoryProps) {
+  return (
+    <aside className="rounded-2xl border border-white/10 bg-white/5 p-5 shadow-lg shadow-black/20 lg:sticky lg:top-8">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-white">Saved analyses</h2>
+        {entries && (
+          <span className="text-xs text-white/40">{entries.length}</span>
+        )}
+      </div>
+
+      {error && (
+        <p className="mt-3 rounded-lg border border-rose-300/30 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+          {error}
+        </p>
+      )}
+
+      {!entries && !error && (
+        <p className="mt-3 text-xs text-white/50">Loading history...</p>
+      )}
+
+      {entries && !entries.length && (
+        <p className="mt-3 text-xs text-white/50">
+          Resumes you analyse are saved here so you can come back to them.
+        </p>
+      )}
+
+      {entries && entries.length > 0 && (
+        <ul className="mt-3 max-h-[70vh] space-y-2 overflow-y-auto pr-1">
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              className={`group flex items-start gap-2 rounded-xl border px-3 py-2 transition ${
+                entry.id === activeId
+                  ? "border-indigo-300/50 bg-indigo-500/15"
+                  : "border-white/5 bg-white/5 hover:border-white/15"
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => onOpen(entry.id)}
+                className="min-w-0 flex-1 text-left"
+              >
+                <p className="truncate text-sm font-medium text-white">
+                  {entry.name ?? entry.fileName}
+                </p>
+                <p className="truncate text-xs text-white/50">
+                  {entry.headline ?? entry.fileName}
+                </p>
+                <p className="mt-1 text-[11px] text-white/40">
+                  {formatSavedAt(entry.updatedAt)}
+                  {entry.githubUsername && ` · @${entry.githubUsername}`}
+                </p>
+              </button>
+              <button
+                type="button"
+                onClick={() => onDelete(entry.id)}
+                aria-label={`Delete ${entry.name ?? entry.fileName}`}
+                className="rounded-md px-1.5 text-sm text-white/30 hover:bg-white/10 hover:text-rose-200"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
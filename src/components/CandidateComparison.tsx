@@ -0,0 +1,305 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+export type ComparisonCandidate = {
+  id: string;
+  fileName: string;
+  resume: {
+    name: string | null;
+    skills: string[];
+    totalYearsExperience: number | null;
+    githubUsername: string | null;
+  } | null;
+  error: string | null;
+  github: {
+    totalStars: number;
+    topLanguages: Array<{ language: string; count: number }>;
+  } | null;
+  githubError: string | null;
+};
+
+type SortKey = "name" | "experience" | "stars";
+type SortDirection = "asc" | "desc";
+
+type CandidateComparisonProps = {
+  candidates: ComparisonCandidate[];
+  selectedId: string | null;
+  onSelect: (candidateId: string) => void;
+  /** Called with the candidates currently shown, in table order. */
+  onExportCsv?: (candidateIds: string[]) => void;
+  isExporting?: boolean;
+};
+
+const MIN_YEARS_OPTIONS = [0, 1, 3, 5, 10];
+
+function sortValue(candidate: ComparisonCandidate, key: SortKey) {
+  switch (key) {
+    case "name":
+      return (candidate.resume?.name ?? candidate.fileName).toLowerCase();
+    case "experience":
+      return candidate.resume?.totalYearsExperience ?? null;
+    case "stars":
+      return candidate.github?.totalStars ?? null;
+  }
+}
+
+function compareCandidates(
+  a: ComparisonCandidate,
+  b: ComparisonCandidate,
+  key: SortKey,
+  direction: SortDirection,
+) {
+  const left = sortValue(a, key);
+  const right = sortValue(b, key);
+  if (left === right) return 0;
+  // Missing values stay at the bottom whichever way the column is sorted.
+  if (left === null) return 1;
+  if (right === null) return -1;
+  const order = left < right ? -1 : 1;
+  return direction === "asc" ? order : -order;
+}
+
+function matchesQuery(candidate: ComparisonCandidate, query: string) {
+  if (!query) return true;
+  const haystack = [
+    candidate.fileName,
+    candidate.resume?.name ?? "",
+    ...(candidate.resume?.skills ?? []),
+    ...(candidate.github?.topLanguages.map((item) => item.language) ?? []),
+  ]
+    .join(" ")
+    .toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => haystack.includes(term));
+}
+
+export default function CandidateComparison({
+  candidates,
+  selectedId,
+  onSelect,
+  onExportCsv,
+  isExporting = false,
+}: CandidateComparisonProps) {
+  const [query, setQuery] = useState("");
+  const [minYears, setMinYears] = useState(0);
+  const [githubOnly, setGithubOnly] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>("experience");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+
+  const rows = useMemo(
+    () =>
+      candidates
+        .filter((candidate) => matchesQuery(candidate, query.trim()))
+        .filter(
+          (candidate) =>
+            minYears === 0 ||
+            (candidate.resume?.totalYearsExperience ?? 0) >= minYears,
+        )
+        .filter((candidate) => !githubOnly || Boolean(candidate.github))
+        .sort((a, b) => compareCandidates(a, b, sortKey, sortDirection)),
+    [candidates, query, minYears, githubOnly, sortKey, sortDirection],
+  );
+
+  const parsedCount = candidates.filter((candidate) => candidate.resume).length;
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection((current) => (current === "asc" ? "desc" : "asc"));
+      return;
+    }
+    setSortKey(key);
+    setSortDirection(key === "name" ? "asc" : "desc");
+  };
+
+  const renderSortHeader = (key: SortKey, label: string) => (
+    <button
+      type="button"
+      onClick={() => toggleSort(key)}
+      className="inline-flex items-center gap-1 uppercase tracking-wider hover:text-white"
+    >
+      {label}
+      <span className="text-white/30">
+        {sortKey === key ? (sortDirection === "asc" ? "▲" : "▼") : "↕"}
+      </span>
+    </button>
+  );
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-lg shadow-black/20">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-white">
+            Candidate Comparison
+          </h3>
+          <p className="text-xs text-white/50">
+            {parsedCount} of {candidates.length} resumes parsed · showing{" "}
+            {rows.length}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-white/70">
+          <input
+            type="search"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Filter by name, skill or language"
+            className="w-56 rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white placeholder:text-white/30 focus:border-indigo-300/50 focus:outline-none"
+          />
+          <select
+            value={minYears}
+            onChange={(event) => setMinYears(Number(event.target.value))}
+            className="rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white focus:border-indigo-300/50 focus:outline-none"
+          >
+            {MIN_YEARS_OPTIONS.map((years) => (
+              <option key={years} value={years}>
+                {years === 0 ? "Any experience" : `${years}+ years`}
+              </option>
+            ))}
+          </select>
+          <label className="inline-flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={githubOnly}
+              onChange={(event) => setGithubOnly(event.target.checked)}
+              className="accent-indigo-400"
+            />
+            With GitHub
+          </label>
+          {onExportCsv && (
+            <button
+              type="button"
+              onClick={() =>
+                onExportCsv(
+                  rows
+                    .filter((candidate) => candidate.resume)
+                    .map((candidate) => candidate.id),
+                )
+              }
+              disabled={isExporting || !rows.some((candidate) => candidate.resume)}
+              className="rounded-lg border border-white/10 bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/15 disabled:opacity-50"
+            >
+              {isExporting ? "Exporting..." : "Export CSV"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full min-w-[720px] text-left text-sm text-white/70">
+          <thead className="border-b border-white/10 text-xs text-white/40">
+            <tr>
+              <th className="px-3 py-2 font-medium">
+                {renderSortHeader("name", "Candidate")}
+              </th>
+              <th className="px-3 py-2 font-medium uppercase tracking-wider">
+                Top skills
+              </th>
+              <th className="px-3 py-2 font-medium">
+                {renderSortHeader("experience", "Experience")}
+              </th>
+              <th className="px-3 py-2 font-medium">
+                {renderSortHeader("stars", "GitHub stars")}
+              </th>
+              <th className="px-3 py-2 font-medium uppercase tracking-wider">
+                Languages
+              </th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {rows.map((candidate) => (
+              <tr
+                key={candidate.id}
+                className={
+                  candidate.id === selectedId
+                    ? "bg-indigo-500/10"
+                    : "hover:bg-white/5"
+                }
+              >
+                <td className="px-3 py-3 align-top">
+                  <p className="font-medium text-white">
+                    {candidate.resume?.name ?? "Name not detected"}
+                  </p>
+                  <p className="truncate text-xs text-white/40">
+                    {candidate.fileName}
+                  </p>
+                </td>
+                {candidate.resume ? (
+                  <>
+                    <td className="px-3 py-3 align-top">
+                      <div className="flex flex-wrap gap-1">
+                        {candidate.resume.skills.slice(0, 4).map((skill) => (
+                          <span
+                            key={skill}
+                            className="rounded-full border border-white/10 bg-white/10 px-2 py-0.5 text-xs text-white/70"
+                          >
+                            {skill}
+                          </span>
+                        ))}
+                        {!candidate.resume.skills.length && (
+                          <span className="text-xs text-white/40">—</span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-3 py-3 align-top text-white">
+                      {candidate.resume.totalYearsExperience !== null
+                        ? `${candidate.resume.totalYearsExperience} yrs`
+                        : "—"}
+                    </td>
+                    <td className="px-3 py-3 align-top">
+                      {candidate.github ? (
+                        <span className="text-white">
+                          ★ {candidate.github.totalStars}
+                        </span>
+                      ) : (
+                        <span
+                          className="text-xs text-white/40"
+                          title={candidate.githubError ?? undefined}
+                        >
+                          {candidate.resume.githubUsername
+                            ? "Unavailable"
+                            : "No profile"}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-3 align-top text-xs">
+                      {candidate.github?.topLanguages.length
+                        ? candidate.github.topLanguages
+                            .slice(0, 3)
+                            .map((item) => item.language)
+                            .join(", ")
+                        : "—"}
+                    </td>
+                    <td className="px-3 py-3 text-right align-top">
+                      <a
+                        href="#insights"
+                        onClick={() => onSelect(candidate.id)}
+                        className="whitespace-nowrap text-xs font-medium text-indigo-300 hover:text-indigo-200"
+                      >
+                        View insights →
+                      </a>
+                    </td>
+                  </>
+                ) : (
+                  <td colSpan={5} className="px-3 py-3 align-top text-xs text-rose-300">
+                    {candidate.error ?? "This resume could not be parsed."}
+                  </td>
+                )}
+              </tr>
+            ))}
+            {!rows.length && (
+              <tr>
+                <td colSpan={6} className="px-3 py-8 text-center text-xs text-white/50">
+                  No candidates match the current filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+"use client";
+
+import { useState } from "react";
+
+export type ContributionCalendarData = {
+  coverage?: "year" | "recent-events";
+  totalContributions: number;
+  weeks: Array<{
+    days: Array<{ date: string; weekday: number; count: number }>;
+  }>;
+};
+
+export type ContributionTrendsData = {
+  activeDays: number;
+  totalDays: number;
+  longestStreak: { days: number; start: string | null; end: string | null };
+  currentStreak: { days: number; start: string | null; end: string | null };
+  activeWeeks: number;
+  totalWeeks: number;
+  weekdayContributions: number;
+  weekendContributions: number;
+  weekendShare: number | null;
+  monthly: Array<{ month: string; count: number }>;
+  trend: "rising" | "steady" | "declining" | "inactive" | null;
+  lastContributionDate: string | null;
+};
+
+type ContributionHeatmapProps = {
+  calendar: ContributionCalendarData;
+  trends: ContributionTrendsData;
+};
+
+const LEVEL_CLASSES = [
+  "bg-white/5",
+  "bg-emerald-900",
+  "bg-emerald-700",
+  "bg-emerald-500",
+  "bg-emerald-300",
+];
+
+const WEEKDAY_LABELS = ["", "Mon", "", "Wed", "", "Fri", ""];
+
+const TREND_STYLES: Record<
+  NonNullable<ContributionTrendsData["trend"]>,
+  { label: string; className: string }
+> = {
+  rising: {
+    label: "Rising",
+    className: "border-emerald-400/40 bg-emerald-500/15 text-emerald-200",
+  },
+  steady: {
+    label: "Steady",
+    className: "border-sky-400/40 bg-sky-500/15 text-sky-200",
+  },
+  declining: {
+    label: "Declining",
+    className: "border-amber-400/40 bg-amber-500/15 text-amber-200",
+  },
+  inactive: {
+    label: "Inactive",
+    className: "border-rose-400/40 bg-rose-500/15 text-rose-200",
+  },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function levelFor(count: number, max: number) {
+  if (!count || !max) return 0;
+  return Math.min(4, Math.ceil((count / max) * 4));
+}
+
+function formatDate(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function formatMonth(month: string, format: "short" | "narrow" = "short") {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, {
+    month: format,
+    timeZone: "UTC",
+  });
+}
+
+function plural(count: number, unit: string) {
+  return `${count.toLocaleString()} ${unit}${count === 1 ? "" : "s"}`;
+}
+
+/** Labels the first week of each month, as GitHub does above its calendar. */
+function monthLabels(weeks: ContributionCalendarData["weeks"]) {
+  return weeks.map((week, index) => {
+    const month = week.days[0]?.date.slice(0, 7);
+    const previous = weeks[index - 1]?.days[0]?.date.slice(0, 7);
+    return month && month !== previous ? formatMonth(month) : "";
+  });
+}
+
+export default function ContributionHeatmap({
+  calendar,
+  trends,
+}: ContributionHeatmapProps) {
+  // Read once so the "days ago" label stays stable across re-renders.
+  const [now] = useState(() => Date.now());
+  const max = Math.max(
+    0,
+    ...calendar.weeks.flatMap((week) => week.days.map((day) => day.count)),
+  );
+  const monthlyMax = Math.max(0, ...trends.monthly.map((item) => item.count));
+  const labels = monthLabels(calendar.weeks);
+  const isPartial = calendar.coverage === "recent-events";
+  const daysSinceLast = trends.lastContributionDate
+    ? Math.max(
+        0,
+        Math.floor(
+          (now - new Date(`${trends.lastContributionDate}T00:00:00Z`).getTime()) /
+            DAY_MS,
+        ),
+      )
+    : null;
+
+  const stats = [
+    {
+      label: "Longest streak",
+      value: plural(trends.longestStreak.days, "day"),
+      detail:
+        trends.longestStreak.start && trends.longestStreak.end
+          ? `${formatDate(trends.longestStreak.start)} – ${formatDate(trends.longestStreak.end)}`
+          : "No contributions yet",
+    },
+    {
+      label: "Current streak",
+      value: plural(trends.currentStreak.days, "day"),
+      detail: trends.lastContributionDate
+        ? `Last contribution ${formatDate(trends.lastContributionDate)}${
+            daysSinceLast !== null ? ` (${plural(daysSinceLast, "day")} ago)` : ""
+          }`
+        : "No recent contributions",
+    },
+    {
+      label: "Active weeks",
+      value: `${trends.activeWeeks} / ${trends.totalWeeks}`,
+      detail: `${plural(trends.activeDays, "active day")} of ${trends.totalDays}`,
+    },
+    {
+      label: "Weekdays / weekends",
+      value:
+        trends.weekendShare === null
+          ? "—"
+          : `${Math.round((1 - trends.weekendShare) * 100)}% / ${Math.round(trends.weekendShare * 100)}%`,
+      detail: `${trends.weekdayContributions.toLocaleString()} weekday, ${trends.weekendContributions.toLocaleString()} weekend`,
+    },
+  ];
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-lg shadow-black/20">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Contribution Activity</h3>
+          <p className="text-xs text-white/50">
+            {plural(calendar.totalContributions, "contribution")}{" "}
+            {isPartial
+              ? "in public events over the last 90 days"
+              : "in the last year"}
+          </p>
+        </div>
+        {trends.trend && (
+          <span
+            className={`rounded-full border px-3 py-1 text-xs ${TREND_STYLES[trends.trend].className}`}
+            title="Last three months compared with the three before"
+          >
+            {TREND_STYLES[trends.trend].label}
+          </span>
+        )}
+      </div>
+
+      <div className="mt-5 overflow-x-auto pb-2">
+        <div className="inline-flex gap-2">
+          <div className="mt-4 grid grid-rows-7 gap-[3px] text-[10px] leading-[10px] text-white/40">
+            {WEEKDAY_LABELS.map((label, index) => (
+              <span key={index} className="h-[10px]">
+                {label}
+              </span>
+            ))}
+          </div>
+          <div>
+            <div className="flex h-4 gap-[3px] text-[10px] text-white/40">
+              {labels.map((label, index) => (
+                <span key={index} className="w-[10px] overflow-visible whitespace-nowrap">
+                  {label}
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-[3px]">
+              {calendar.weeks.map((week, weekIndex) => (
+                <div key={weekIndex} className="grid grid-rows-7 gap-[3px]">
+                  {week.days.map((day) => (
+                    <span
+                      key={day.date}
+                      style={{ gridRowStart: day.weekday + 1 }}
+                      className={`size-[10px] rounded-sm ${LEVEL_CLASSES[levelFor(day.count, max)]}`}
+                      title={`${plural(day.count, "contribution")} on ${formatDate(day.date)}`}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+        <div className="mt-2 flex items-center justify-end gap-1 text-[10px] text-white/40">
+          Less
+          {LEVEL_CLASSES.map((className) => (
+            <span key={className} className={`size-[10px] rounded-sm ${className}`} />
+          ))}
+          More
+        </div>
+      </div>
+
+      <dl className="mt-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        {stats.map((stat) => (
+          <div
+            key={stat.label}
+            className="rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3"
+          >
+            <dt className="text-xs uppercase tracking-wider text-white/40">
+              {stat.label}
+            </dt>
+            <dd className="mt-1 text-lg font-semibold text-white">{stat.value}</dd>
+            <dd className="text-xs text-white/50">{stat.detail}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {trends.monthly.length > 1 && (
+        <div className="mt-5">
+          <p className="text-xs uppercase tracking-wider text-white/40">
+            Monthly trend
+          </p>
+          <div className="mt-3 flex h-24 items-end gap-1">
+            {trends.monthly.map((item) => (
+              <div
+                key={item.month}
+                className="flex h-full flex-1 flex-col items-center justify-end gap-1"
+                title={`${plural(item.count, "contribution")} in ${formatMonth(item.month)} ${item.month.slice(0, 4)}`}
+              >
+                <div className="flex w-full flex-1 items-end">
+                  <div
+                    className="w-full rounded-t bg-indigo-400/70"
+                    style={{
+                      height: monthlyMax ? `${(item.count / monthlyMax) * 100}%` : 0,
+                      minHeight: item.count ? 2 : 0,
+                    }}
+                  />
+                </div>
+                <span className="text-[10px] text-white/40">
+                  {formatMonth(item.month, "narrow")}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isPartial && (
+        <p className="mt-4 text-xs text-white/40">
+          Configure GitHub credentials to load the full year-long contribution
+          calendar, including private contributions the candidate has chosen
+          to show.
+        </p>
+      )}
+    </div>
+  );
+}
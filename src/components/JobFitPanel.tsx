@@ -0,0 +1,264 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+
+export type JobFitResume = {
+  canonicalSkills: Array<{ name: string; category: string; source: string }>;
+  experience: Array<{ title: string | null }>;
+  totalYearsExperience: number | null;
+};
+
+type JobSkillResult = { skill: string; category: string; required: boolean };
+
+type JobMatch = {
+  score: number;
+  breakdown: {
+    skills: number | null;
+    experience: number | null;
+    seniority: number | null;
+  };
+  candidateYears: number | null;
+  candidateSeniority: string | null;
+  requirements: {
+    title: string | null;
+    seniority: string | null;
+    minYearsExperience: number | null;
+  };
+  matched: Array<JobSkillResult & { sources: Array<"resume" | "github"> }>;
+  transferable: Array<JobSkillResult & { via: string[] }>;
+  missing: JobSkillResult[];
+};
+
+type JobFitPanelProps = {
+  resume: JobFitResume;
+  githubLanguages: Array<{ language: string }> | null;
+};
+
+const BREAKDOWN_LABELS: Record<keyof JobMatch["breakdown"], string> = {
+  skills: "Skills",
+  experience: "Experience",
+  seniority: "Seniority",
+};
+
+function scoreTone(score: number) {
+  if (score >= 75) return "text-emerald-300";
+  if (score >= 50) return "text-amber-200";
+  return "text-rose-200";
+}
+
+function SkillChips<T extends JobSkillResult>({
+  title,
+  items,
+  className,
+  describe,
+}: {
+  title: string;
+  items: T[];
+  className: string;
+  describe?: (item: T) => string;
+}) {
+  if (!items.length) return null;
+  return (
+    <div>
+      <p className="text-xs uppercase tracking-[0.2em] text-white/40">
+        {title} ({items.length})
+      </p>
+      <div className="mt-2 flex flex-wrap gap-2 text-sm">
+        {items.map((item) => (
+          <span
+            key={item.skill}
+            className={`rounded-full border px-3 py-1 ${className}`}
+            title={describe?.(item)}
+          >
+            {item.skill}
+            {!item.required && (
+              <span className="ml-1 text-xs opacity-60">nice to have</span>
+            )}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function JobFitPanel({ resume, githubLanguages }: JobFitPanelProps) {
+  const [jobDescription, setJobDescription] = useState("");
+  const [jobFile, setJobFile] = useState<File | null>(null);
+  const [isMatching, setIsMatching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Remember which resume a result belongs to so switching candidates hides it.
+  const [result, setResult] = useState<{
+    resume: JobFitResume;
+    match: JobMatch;
+  } | null>(null);
+
+  const match = result?.resume === resume ? result.match : null;
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!jobFile && !jobDescription.trim()) {
+      setError("Paste a job description or upload it as a file.");
+      return;
+    }
+
+    setIsMatching(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("jobDescription", jobFile ?? jobDescription);
+      formData.append("resume", JSON.stringify(resume));
+      if (githubLanguages) {
+        formData.append("github", JSON.stringify({ topLanguages: githubLanguages }));
+      }
+
+      const response = await fetch("/api/match", {
+        method: "POST",
+        body: formData,
+      });
+      const payload = await response.json();
+
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Unable to match the job description.");
+      }
+
+      setResult({ resume, match: payload.data });
+    } catch (matchError) {
+      setResult(null);
+      setError(
+        matchError instanceof Error
+          ? matchError.message
+          : "Unable to match the job description right now.",
+      );
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-white">Job Fit</h2>
+        {match && (
+          <span className="rounded-full border border-white/10 bg-white/10 px-3 py-1 text-xs text-white/60">
+            {match.matched.length} matched · {match.missing.length} missing
+          </span>
+        )}
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="space-y-4 rounded-2xl border border-white/10 bg-white/5 p-6 shadow-lg shadow-black/20"
+      >
+        <textarea
+          value={jobDescription}
+          onChange={(event) => setJobDescription(event.target.value)}
+          placeholder="Paste the job description here..."
+          rows={6}
+          disabled={Boolean(jobFile)}
+          className="w-full rounded-xl border border-white/10 bg-slate-900/60 p-4 text-sm text-white placeholder:text-white/40 disabled:opacity-50"
+        />
+        <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-white/60">
+          <label className="flex items-center gap-2">
+            <span>Or upload it:</span>
+            <input
+              type="file"
+              accept=".pdf,.docx,.odt,.rtf,.md,.markdown,.html,.htm,.txt"
+              onChange={(event) => setJobFile(event.target.files?.[0] ?? null)}
+              className="text-white/70 file:mr-2 file:rounded-full file:border-0 file:bg-white/10 file:px-3 file:py-1 file:text-white"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={isMatching}
+            className="rounded-full bg-indigo-500 px-5 py-2 text-sm font-medium text-white shadow-lg shadow-indigo-500/40 disabled:opacity-60"
+          >
+            {isMatching ? "Scoring..." : "Check fit"}
+          </button>
+        </div>
+        {error && (
+          <p className="rounded-lg border border-rose-300/30 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+            {error}
+          </p>
+        )}
+      </form>
+
+      {match && (
+        <div className="grid gap-6 md:grid-cols-3">
+          <div className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-lg shadow-black/20">
+            <p className="text-xs uppercase tracking-[0.2em] text-white/40">
+              Fit score
+            </p>
+            <p className={`mt-2 text-5xl font-semibold ${scoreTone(match.score)}`}>
+              {match.score}
+              <span className="text-lg text-white/40">/100</span>
+            </p>
+            <dl className="mt-4 space-y-2 text-xs text-white/60">
+              {(Object.keys(BREAKDOWN_LABELS) as Array<keyof JobMatch["breakdown"]>).map(
+                (key) => (
+                  <div key={key} className="flex justify-between">
+                    <dt>{BREAKDOWN_LABELS[key]}</dt>
+                    <dd>
+                      {match.breakdown[key] === null
+                        ? "Not specified"
+                        : `${match.breakdown[key]}%`}
+                    </dd>
+                  </div>
+                ),
+              )}
+            </dl>
+            <dl className="mt-4 space-y-2 border-t border-white/10 pt-4 text-xs text-white/60">
+              <div className="flex justify-between">
+                <dt>Role</dt>
+                <dd>{match.requirements.title ?? "Not detected"}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt>Seniority</dt>
+                <dd className="capitalize">
+                  {match.requirements.seniority ?? "—"} (candidate:{" "}
+                  {match.candidateSeniority ?? "unknown"})
+                </dd>
+              </div>
+              <div className="flex justify-between">
+                <dt>Experience</dt>
+                <dd>
+                  {match.requirements.minYearsExperience !== null
+                    ? `${match.requirements.minYearsExperience}+ yrs`
+                    : "—"}{" "}
+                  (candidate: {match.candidateYears ?? "unknown"})
+                </dd>
+              </div>
+            </dl>
+          </div>
+
+          <div className="space-y-5 rounded-2xl border border-white/10 bg-white/5 p-6 shadow-lg shadow-black/20 md:col-span-2">
+            <SkillChips
+              title="Matched"
+              items={match.matched}
+              className="border-emerald-400/40 bg-emerald-500/15 text-emerald-100"
+              describe={(item) => `Found in ${item.sources.join(" and ")}`}
+            />
+            <SkillChips
+              title="Transferable"
+              items={match.transferable}
+              className="border-amber-400/40 bg-amber-500/15 text-amber-100"
+              describe={(item) => `Related experience: ${item.via.join(", ")}`}
+            />
+            <SkillChips
+              title="Missing"
+              items={match.missing}
+              className="border-white/15 bg-white/5 text-white/60"
+            />
+            {!match.matched.length &&
+              !match.transferable.length &&
+              !match.missing.length && (
+                <p className="text-sm text-white/60">
+                  No recognizable skills were found in the job description.
+                </p>
+              )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+export type ExternalContributionsData = {
+  totalMerged: number;
+  incomplete: boolean;
+  repositories: Array<{
+    nameWithOwner: string;
+    url: string;
+    description: string | null;
+    language: string | null;
+    stars: number | null;
+    mergedCount: number;
+    pullRequests: Array<{
+      title: string;
+      url: string;
+      number: number;
+      mergedAt: string;
+    }>;
+  }>;
+};
+
+type OpenSourceContributionsProps = {
+  contributions: ExternalContributionsData | null;
+  isLoading: boolean;
+  error: string | null;
+};
+
+export default function OpenSourceContributions({
+  contributions,
+  isLoading,
+  error,
+}: OpenSourceContributionsProps) {
+  const listed =
+    contributions?.repositories.reduce((sum, repo) => sum + repo.mergedCount, 0) ?? 0;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-lg shadow-black/20">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-white">
+          Open Source Contributions
+        </h3>
+        {contributions && contributions.totalMerged > 0 && (
+          <span className="rounded-full border border-white/10 bg-white/10 px-3 py-1 text-xs text-white/60">
+            {contributions.totalMerged.toLocaleString()} merged PR
+            {contributions.totalMerged === 1 ? "" : "s"}
+          </span>
+        )}
+      </div>
+      <p className="mt-2 text-xs text-white/50">
+        Pull requests merged into repositories the candidate does not own.
+      </p>
+
+      {isLoading && (
+        <p className="mt-4 text-sm text-white/60">
+          Searching for merged pull requests...
+        </p>
+      )}
+      {error && <p className="mt-4 text-sm text-rose-200">{error}</p>}
+
+      {contributions && !isLoading && !contributions.repositories.length && (
+        <p className="mt-4 text-sm text-white/50">
+          No merged pull requests to other projects were found.
+        </p>
+      )}
+
+      {contributions && !isLoading && contributions.repositories.length > 0 && (
+        <ul className="mt-4 space-y-3">
+          {contributions.repositories.map((repo) => (
+            <li
+              key={repo.nameWithOwner}
+              className="rounded-xl border border-white/10 bg-slate-900/60 p-4 text-sm text-white/70"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <a
+                  href={repo.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="font-semibold text-sky-300 underline"
+                >
+                  {repo.nameWithOwner}
+                </a>
+                <div className="flex flex-wrap gap-3 text-xs text-white/50">
+                  {repo.language && (
+                    <span className="rounded-full border border-white/10 bg-white/5 px-2 py-0.5">
+                      {repo.language}
+                    </span>
+                  )}
+                  {repo.stars !== null && <span>⭐ {repo.stars.toLocaleString()}</span>}
+                  <span>
+                    {repo.mergedCount} merged PR{repo.mergedCount === 1 ? "" : "s"}
+                  </span>
+                </div>
+              </div>
+              {repo.description && (
+                <p className="mt-1 text-xs text-white/50">{repo.description}</p>
+              )}
+              <ul className="mt-2 space-y-1 text-xs">
+                {repo.pullRequests.map((pullRequest) => (
+                  <li key={pullRequest.url} className="flex flex-wrap gap-2">
+                    <a
+                      href={pullRequest.url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-indigo-200 underline"
+                    >
+                      #{pullRequest.number} {pullRequest.title}
+                    </a>
+                    {pullRequest.mergedAt && (
+                      <span className="text-white/40">
+                        merged {new Date(pullRequest.mergedAt).toLocaleDateString()}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {contributions && !isLoading && listed < contributions.totalMerged && (
+        <p className="mt-3 text-xs text-white/40">
+          Showing {listed.toLocaleString()} of{" "}
+          {contributions.totalMerged.toLocaleString()} merged pull requests
+          {contributions.incomplete ? " (GitHub returned partial search results)" : ""}.
+        </p>
+      )}
+    </div>
+  );
+}
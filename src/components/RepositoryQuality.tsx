@@ -0,0 +1,102 @@
+"use client";
+
+export type RepositoryQualityEntry = {
+  name: string;
+  hasTests: boolean;
+  testFileCount: number;
+  ciProviders: string[];
+  license: string | null;
+  commitCount: number;
+  candidateCommits: number;
+  candidateShare: number | null;
+  contributorCount: number;
+  activeDays: number | null;
+  readme: { score: number; missing: string[] } | null;
+  partialTree: boolean;
+};
+
+type RepositoryQualityProps = {
+  quality: RepositoryQualityEntry;
+};
+
+const README_CHECK_LABELS: Record<string, string> = {
+  length: "length",
+  structure: "headings",
+  installation: "install steps",
+  usage: "usage",
+  code: "code samples",
+  visuals: "screenshots",
+  badges: "badges",
+  "project-info": "license or contributing notes",
+};
+
+function formatActivePeriod(days: number) {
+  if (days < 31) return `${days} day${days === 1 ? "" : "s"}`;
+  const months = Math.round(days / 30.44);
+  if (months < 12) return `${months} mo${months > 1 ? "s" : ""}`;
+  return `${(days / 365.25).toFixed(1)} yrs`;
+}
+
+function signalClass(isPresent: boolean) {
+  return isPresent
+    ? "border-emerald-400/40 bg-emerald-500/15 text-emerald-200"
+    : "border-white/10 bg-white/5 text-white/40";
+}
+
+function readmeClass(score: number) {
+  if (score >= 70) return "border-emerald-400/40 bg-emerald-500/15 text-emerald-200";
+  if (score >= 40) return "border-amber-400/40 bg-amber-500/15 text-amber-200";
+  return "border-rose-400/40 bg-rose-500/15 text-rose-200";
+}
+
+export default function RepositoryQuality({ quality }: RepositoryQualityProps) {
+  const treeNote = quality.partialTree ? " (large repository, not every file checked)" : "";
+
+  return (
+    <div className="flex flex-wrap gap-2 text-xs">
+      <span
+        className={`rounded-full border px-2 py-1 ${signalClass(quality.hasTests)}`}
+        title={`${quality.testFileCount} test file${quality.testFileCount === 1 ? "" : "s"}${treeNote}`}
+      >
+        {quality.hasTests ? "Tests" : "No tests"}
+      </span>
+      <span
+        className={`rounded-full border px-2 py-1 ${signalClass(quality.ciProviders.length > 0)}`}
+      >
+        {quality.ciProviders.length ? `CI: ${quality.ciProviders.join(", ")}` : "No CI"}
+      </span>
+      <span className={`rounded-full border px-2 py-1 ${signalClass(Boolean(quality.license))}`}>
+        {quality.license ?? "No license"}
+      </span>
+      {quality.commitCount > 0 && (
+        <span
+          className="rounded-full border border-white/10 bg-white/5 px-2 py-1 text-white/60"
+          title={`${quality.candidateCommits} of ${quality.commitCount} commits across ${quality.contributorCount} contributor${quality.contributorCount === 1 ? "" : "s"}`}
+        >
+          {quality.commitCount} commits
+          {quality.candidateShare !== null &&
+            ` · ${Math.round(quality.candidateShare * 100)}% by candidate`}
+        </span>
+      )}
+      {quality.activeDays !== null && (
+        <span className="rounded-full border border-white/10 bg-white/5 px-2 py-1 text-white/60">
+          Active {formatActivePeriod(quality.activeDays)}
+        </span>
+      )}
+      <span
+        className={`rounded-full border px-2 py-1 ${
+          quality.readme ? readmeClass(quality.readme.score) : signalClass(false)
+        }`}
+        title={
+          quality.readme?.missing.length
+            ? `Missing: ${quality.readme.missing
+                .map((check) => README_CHECK_LABELS[check] ?? check)
+                .join(", ")}`
+            : undefined
+        }
+      >
+        {quality.readme ? `README ${quality.readme.score}/100` : "No README"}
+      </span>
+    </div>
+  );
+}
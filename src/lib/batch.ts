@@ -0,0 +1,178 @@
+import type { Buffer } from "node:buffer";
+
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { detectResumeFormat } from "@/lib/extractors";
+import { isZipArchive, readZipEntries } from "@/lib/extractors/zip";
+import { fetchGithubSummary, type GithubSummary } from "@/lib/github";
+import type { ParsedResume } from "@/lib/parser";
+import { MAX_RESUME_SIZE, parseResumeBuffer } from "@/lib/resume";
+import { hashResumeFile } from "@/lib/storage";
+
+export type BatchUpload = {
+  name: string;
+  buffer: Buffer;
+};
+
+type BatchItem = {
+  name: string;
+  read: () => Buffer;
+  size: number;
+  /** Why the upload could not be unpacked. */
+  error?: unknown;
+};
+
+export type BatchCandidate = {
+  id: string;
+  fileName: string;
+  /** SHA-256 of the resume file; null when it could not be read. */
+  fileHash: string | null;
+  resume: ParsedResume | null;
+  error: string | null;
+  github: GithubSummary | null;
+  githubError: string | null;
+};
+
+export type BatchOptions = {
+  includeGithub?: boolean;
+};
+
+export const MAX_BATCH_RESUMES = 100;
+const PARSE_CONCURRENCY = 4;
+const GITHUB_CONCURRENCY = 4;
+const SKIPPED_ARCHIVE_ENTRY_REGEX = /(?:^|\/)(?:__MACOSX\/|\.)/;
+
+function isResumeArchive(buffer: Buffer): boolean {
+  if (!isZipArchive(buffer)) return false;
+  const format = detectResumeFormat(buffer);
+  return format !== "docx" && format !== "odt";
+}
+
+function uploadItem(upload: BatchUpload, error?: unknown): BatchItem {
+  return {
+    name: upload.name,
+    size: upload.buffer.length,
+    read: () => upload.buffer,
+    error,
+  };
+}
+
+function expandUpload(upload: BatchUpload): BatchItem[] {
+  if (!isResumeArchive(upload.buffer)) return [uploadItem(upload)];
+
+  return readZipEntries(upload.buffer)
+    .filter(
+      (entry) =>
+        !entry.isDirectory && !SKIPPED_ARCHIVE_ENTRY_REGEX.test(entry.name),
+    )
+    .map((entry) => ({
+      name: `${upload.name}/${entry.name}`,
+      size: entry.size,
+      read: entry.read,
+    }));
+}
+
+/**
+ * Flattens the uploaded files into one list of resumes. ZIP archives are
+ * unpacked (skipping folders and macOS metadata), while DOCX and ODT files,
+ * which are ZIP containers themselves, are kept as they are. An upload that
+ * cannot be read becomes one item carrying its error.
+ */
+function expandUploads(uploads: BatchUpload[]): BatchItem[] {
+  const items = uploads.flatMap((upload): BatchItem[] => {
+    try {
+      return expandUpload(upload);
+    } catch (error) {
+      return [uploadItem(upload, error)];
+    }
+  });
+
+  if (items.length > MAX_BATCH_RESUMES) {
+    throw new Error(
+      `A batch can contain at most ${MAX_BATCH_RESUMES} resumes (received ${items.length}).`,
+    );
+  }
+
+  return items;
+}
+
+async function parseItem(
+  item: BatchItem,
+): Promise<Pick<BatchCandidate, "fileHash" | "resume">> {
+  if (item.error) throw item.error;
+  if (item.size > MAX_RESUME_SIZE) {
+    throw new Error("File is too large. Resumes must be under 5 MB.");
+  }
+  const buffer = item.read();
+  return {
+    fileHash: hashResumeFile(buffer),
+    resume: await parseResumeBuffer(buffer),
+  };
+}
+
+async function loadGithubSummaries(
+  usernames: string[],
+): Promise<Map<string, GithubSummary | Error>> {
+  const unique = Array.from(new Set(usernames.map((name) => name.toLowerCase())));
+  const results = await mapWithConcurrency(unique, GITHUB_CONCURRENCY, (username) =>
+    fetchGithubSummary(username).catch((error: unknown) =>
+      error instanceof Error
+        ? error
+        : new Error("Unable to load GitHub analytics right now."),
+    ),
+  );
+  return new Map(unique.map((username, index) => [username, results[index]]));
+}
+
+/**
+ * Parses a batch of resume uploads concurrently and, when requested, attaches
+ * a lightweight GitHub summary to each candidate. Failures are reported per
+ * candidate so one unreadable file does not sink the whole batch.
+ */
+export async function parseResumeBatch(
+  uploads: BatchUpload[],
+  options: BatchOptions = {},
+): Promise<BatchCandidate[]> {
+  const items = expandUploads(uploads);
+
+  const candidates = await mapWithConcurrency(
+    items,
+    PARSE_CONCURRENCY,
+    async (item, index): Promise<BatchCandidate> => {
+      const base = {
+        id: String(index + 1),
+        fileName: item.name,
+        github: null,
+        githubError: null,
+      };
+      try {
+        return { ...base, ...(await parseItem(item)), error: null };
+      } catch (error) {
+        return {
+          ...base,
+          fileHash: null,
+          resume: null,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Unexpected error while parsing resume.",
+        };
+      }
+    },
+  );
+
+  if (!options.includeGithub) return candidates;
+
+  const usernames = candidates
+    .map((candidate) => candidate.resume?.githubUsername)
+    .filter((username): username is string => Boolean(username));
+  const summaries = await loadGithubSummaries(usernames);
+
+  return candidates.map((candidate) => {
+    const username = candidate.resume?.githubUsername;
+    const summary = username ? summaries.get(username.toLowerCase()) : undefined;
+    if (!summary) return candidate;
+    return summary instanceof Error
+      ? { ...candidate, githubError: summary.message }
+      : { ...candidate, github: summary };
+  });
+}
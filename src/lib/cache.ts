@@ -0,0 +1,81 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type CacheStore<T> = {
+  get: (key: string) => Promise<T | null>;
+  set: (key: string, value: T) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+};
+
+export type CacheStoreKind = "memory" | "file";
+
+const DEFAULT_MEMORY_ENTRIES = 500;
+
+/**
+ * Keeps values in process memory, evicting the least recently used entry
+ * once `maxEntries` is reached. Contents are lost on restart.
+ */
+export function createMemoryStore<T>(
+  maxEntries = DEFAULT_MEMORY_ENTRIES,
+): CacheStore<T> {
+  const entries = new Map<string, T>();
+
+  return {
+    async get(key) {
+      const value = entries.get(key);
+      if (value === undefined) return null;
+      entries.delete(key);
+      entries.set(key, value);
+      return value;
+    },
+    async set(key, value) {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Persists each value as a JSON file named after a hash of its key, so the
+ * cache survives restarts and can be shared between server processes.
+ * Unreadable files are treated as misses.
+ */
+export function createFileStore<T>(directory: string): CacheStore<T> {
+  const fileFor = (key: string) =>
+    path.join(
+      directory,
+      `${createHash("sha1").update(key).digest("hex")}.json`,
+    );
+
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await readFile(fileFor(key), "utf-8")) as T;
+      } catch {
+        return null;
+      }
+    },
+    async set(key, value) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(fileFor(key), JSON.stringify(value), "utf-8");
+    },
+    async delete(key) {
+      await rm(fileFor(key), { force: true });
+    },
+  };
+}
+
+export function createCacheStore<T>(
+  kind: CacheStoreKind,
+  directory: string,
+): CacheStore<T> {
+  return kind === "file" ? createFileStore<T>(directory) : createMemoryStore<T>();
+}
@@ -0,0 +1,135 @@
+import { findDates, formatResumeDate } from "@/lib/dates";
+
+export type Certification = {
+  name: string;
+  issuer: string | null;
+  date: string | null;
+  credentialId: string | null;
+  credentialUrl: string | null;
+};
+
+const KNOWN_ISSUERS: Array<[RegExp, string]> = [
+  [/\b(?:aws|amazon web services)\b/i, "Amazon Web Services"],
+  [/\bgoogle cloud\b|\bgcp\b/i, "Google Cloud"],
+  [/\bgoogle\b/i, "Google"],
+  [/\bmicrosoft\b|\bazure\b/i, "Microsoft"],
+  [/\boracle\b/i, "Oracle"],
+  [/\bcisco\b|\bccna\b|\bccnp\b/i, "Cisco"],
+  [/\bcomptia\b/i, "CompTIA"],
+  [/\(isc\)²|\(isc\)2|\bcissp\b/i, "(ISC)²"],
+  [/\bisaca\b|\bcisa\b|\bcism\b/i, "ISACA"],
+  [/\bpmi\b|\bproject management institute\b|\bpmp\b/i, "PMI"],
+  [/\bscrum alliance\b|\bcsm\b/i, "Scrum Alliance"],
+  [/\bscrum\.org\b|\bpsm\b/i, "Scrum.org"],
+  [/\blinux foundation\b|\bcka\b|\bckad\b|\bcks\b/i, "The Linux Foundation"],
+  [/\bhashicorp\b|\bterraform associate\b/i, "HashiCorp"],
+  [/\bsalesforce\b/i, "Salesforce"],
+  [/\bred hat\b|\brhce\b|\brhcsa\b/i, "Red Hat"],
+  [/\bibm\b/i, "IBM"],
+  [/\bmeta\b/i, "Meta"],
+  [/\bdatabricks\b/i, "Databricks"],
+  [/\bsnowflake\b/i, "Snowflake"],
+  [/\bmongodb\b/i, "MongoDB"],
+  [/\bcoursera\b/i, "Coursera"],
+  [/\budemy\b/i, "Udemy"],
+  [/\bedx\b/i, "edX"],
+];
+
+const URL_REGEX = /\bhttps?:\/\/[^\s)]+|\bwww\.[^\s)]+/i;
+const CREDENTIAL_ID_REGEX =
+  /\b(?:credential\s*id|cert(?:ificate)?\s*(?:id|no\.?|number|#)|licen[cs]e\s*(?:no\.?|number|#)|validation\s*(?:number|code))\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{3,})/i;
+const EXPLICIT_ISSUER_REGEX =
+  /\b(?:issued by|issuer|offered by|by|from)\s*:?\s+([^,|()–—\n]+)/i;
+const CONTINUATION_REGEX =
+  /^(?:issued|issuer|credential|cert(?:ificate)?\s*(?:id|no|number)|licen[cs]e|validation|expires|expiration|https?:\/\/|www\.|see credential|verify)/i;
+const BULLET_REGEX = /^\s*[•▪◦●■*·–-]\s+/u;
+const DATE_FRAGMENT_REGEX =
+  /\b(?:issued|earned|obtained|completed|expires|expiration|valid until)?\s*:?\s*(?:(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\.?,?\s+)?(?:(?:0?[1-9]|1[0-2])\/)?(?:19|20)\d{2}\b/gi;
+
+function tidy(value: string): string {
+  return value
+    .replace(/\(\s*\)/g, "")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s,;:|–—-]+|[\s,;:|–—-]+$/g, "")
+    .trim();
+}
+
+function groupEntries(lines: string[]): string[][] {
+  const entries: string[][] = [];
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    const isBullet = BULLET_REGEX.test(trimmed);
+    const content = trimmed.replace(BULLET_REGEX, "");
+    const previous = entries[entries.length - 1];
+
+    if (previous && !isBullet && CONTINUATION_REGEX.test(content)) {
+      previous.push(content);
+      continue;
+    }
+
+    entries.push([content]);
+  }
+
+  return entries;
+}
+
+function parseEntry(lines: string[]): Certification | null {
+  const text = lines.join(" | ");
+
+  const credentialUrl = text.match(URL_REGEX)?.[0] ?? null;
+  const credentialId = text.match(CREDENTIAL_ID_REGEX)?.[1] ?? null;
+  const dates = findDates(text.replace(URL_REGEX, " "));
+
+  let remainder = text
+    .replace(URL_REGEX, " ")
+    .replace(CREDENTIAL_ID_REGEX, " ")
+    .replace(DATE_FRAGMENT_REGEX, " ");
+
+  let issuer: string | null = null;
+  const explicit = remainder.match(EXPLICIT_ISSUER_REGEX);
+  if (explicit) {
+    issuer = tidy(explicit[1]) || null;
+    remainder = remainder.replace(explicit[0], " ");
+  } else {
+    const parts = remainder.split(/\s*(?:\||,|\(|\)|\s[–—-]\s)\s*/u);
+    const issuerPart = parts
+      .slice(1)
+      .reverse()
+      .find((part) => KNOWN_ISSUERS.some(([regex]) => regex.test(part)));
+    if (issuerPart) {
+      issuer = tidy(issuerPart);
+      remainder = remainder.replace(issuerPart, " ");
+    }
+  }
+
+  const name = tidy(remainder.split("|")[0] ?? "");
+  if (!name) return null;
+
+  if (!issuer) {
+    issuer = KNOWN_ISSUERS.find(([regex]) => regex.test(name))?.[1] ?? null;
+  }
+
+  return {
+    name,
+    issuer,
+    date: formatResumeDate(dates[0] ?? null),
+    credentialId,
+    credentialUrl,
+  };
+}
+
+/**
+ * Builds certification entries from the body of a certifications section.
+ * Each bullet or line starts a certification; lines such as "Issued by",
+ * "Credential ID" or a bare verification URL attach to the one above.
+ */
+export function extractCertifications(sectionText: string): Certification[] {
+  if (!sectionText.trim()) return [];
+
+  return groupEntries(sectionText.split("\n"))
+    .map((lines) => parseEntry(lines))
+    .filter((entry): entry is Certification => entry !== null);
+}
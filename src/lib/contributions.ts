@@ -0,0 +1,295 @@
+import type { ContributionCalendar, ContributionDay } from "@/lib/github";
+import { getGithubAuthorization } from "@/lib/github-auth";
+import {
+  githubGraphql,
+  GithubRateLimitError,
+  type GithubRequestOptions,
+} from "@/lib/github-client";
+
+export type ContributionStreak = {
+  days: number;
+  start: string | null;
+  end: string | null;
+};
+
+export type ContributionTrend = "rising" | "steady" | "declining" | "inactive";
+
+export type MonthlyContributions = { month: string; count: number };
+
+export type ContributionTrends = {
+  activeDays: number;
+  totalDays: number;
+  longestStreak: ContributionStreak;
+  /** The streak running up to the calendar's last day (or the day before). */
+  currentStreak: ContributionStreak;
+  activeWeeks: number;
+  totalWeeks: number;
+  weekdayContributions: number;
+  weekendContributions: number;
+  /** Share of contributions made on Saturdays and Sundays, from 0 to 1. */
+  weekendShare: number | null;
+  monthly: MonthlyContributions[];
+  /**
+   * Last three complete months against the three before; null with less
+   * history. The partial months at either end of the calendar are left out.
+   */
+  trend: ContributionTrend | null;
+  lastContributionDate: string | null;
+};
+
+export type GraphqlContributionCalendar = {
+  totalContributions: number;
+  weeks: Array<{
+    contributionDays: Array<{
+      date: string;
+      weekday: number;
+      contributionCount: number;
+    }>;
+  }>;
+};
+
+/** Public events carry at most the last 90 days. */
+type ContributionEvent = {
+  type: string;
+  created_at: string;
+  payload: Record<string, unknown>;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EVENTS_WINDOW_DAYS = 90;
+const TREND_WINDOW_MONTHS = 3;
+const RISING_RATIO = 1.25;
+const DECLINING_RATIO = 0.75;
+
+const CALENDAR_QUERY = `
+  query ContributionCalendar($login: String!) {
+    user(login: $login) {
+      contributionsCollection {
+        contributionCalendar {
+          totalContributions
+          weeks { contributionDays { date weekday contributionCount } }
+        }
+      }
+    }
+  }
+`;
+
+export function toContributionCalendar(
+  calendar: GraphqlContributionCalendar,
+): ContributionCalendar {
+  return {
+    coverage: "year",
+    totalContributions: calendar.totalContributions,
+    weeks: calendar.weeks.map((week) => ({
+      days: week.contributionDays.map((day) => ({
+        date: day.date,
+        weekday: day.weekday,
+        count: day.contributionCount,
+      })),
+    })),
+  };
+}
+
+/**
+ * Loads the year-long contribution calendar, which only the GraphQL API
+ * offers. Returns null without credentials or when the query fails, so
+ * REST callers can fall back to public events.
+ */
+export async function fetchContributionCalendar(
+  username: string,
+  options: GithubRequestOptions = {},
+): Promise<ContributionCalendar | null> {
+  const authorization = await getGithubAuthorization();
+  if (authorization.mode === "anonymous") return null;
+
+  try {
+    const { user } = await githubGraphql<{
+      user: {
+        contributionsCollection: { contributionCalendar: GraphqlContributionCalendar };
+      } | null;
+    }>(CALENDAR_QUERY, { login: username }, options);
+    return user
+      ? toContributionCalendar(user.contributionsCollection.contributionCalendar)
+      : null;
+  } catch (error) {
+    if (error instanceof GithubRateLimitError) throw error;
+    console.error("Failed to load the contribution calendar", error);
+    return null;
+  }
+}
+
+/** Counts events the way the calendar counts contributions, as far as it can tell. */
+function contributionsIn(event: ContributionEvent): number {
+  const action = event.payload.action;
+  switch (event.type) {
+    case "PushEvent": {
+      const { size, commits } = event.payload as { size?: number; commits?: unknown[] };
+      return typeof size === "number" ? size : (commits?.length ?? 1);
+    }
+    case "PullRequestEvent":
+    case "IssuesEvent":
+      return action === "opened" ? 1 : 0;
+    case "PullRequestReviewEvent":
+      return 1;
+    case "CreateEvent":
+      return event.payload.ref_type === "repository" ? 1 : 0;
+    default:
+      return 0;
+  }
+}
+
+function toDateKey(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Lays out per-day contribution counts as a calendar of whole weeks,
+ * Sunday first, covering `windowDays` up to and including today.
+ */
+export function calendarFromCounts(
+  counts: Map<string, number>,
+  windowDays: number,
+  coverage: ContributionCalendar["coverage"],
+  now = new Date(),
+): ContributionCalendar {
+  const today = new Date(`${toDateKey(now)}T00:00:00Z`);
+  const start = new Date(today.getTime() - windowDays * DAY_MS);
+  start.setUTCDate(start.getUTCDate() - start.getUTCDay());
+
+  const weeks: ContributionCalendar["weeks"] = [];
+  for (let day = start; day <= today; day = new Date(day.getTime() + DAY_MS)) {
+    if (day.getUTCDay() === 0) weeks.push({ days: [] });
+    const date = toDateKey(day);
+    weeks[weeks.length - 1].days.push({
+      date,
+      weekday: day.getUTCDay(),
+      count: counts.get(date) ?? 0,
+    });
+  }
+
+  return {
+    coverage,
+    totalContributions: weeks
+      .flatMap((week) => week.days)
+      .reduce((sum, day) => sum + day.count, 0),
+    weeks,
+  };
+}
+
+/**
+ * Approximates a contribution calendar from public events when the real
+ * one is out of reach. It covers the weeks of the last 90 days only and
+ * misses private and older activity.
+ */
+export function calendarFromEvents(
+  events: ContributionEvent[],
+  now = new Date(),
+): ContributionCalendar {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    const key = event.created_at.slice(0, 10);
+    counts.set(key, (counts.get(key) ?? 0) + contributionsIn(event));
+  }
+  return calendarFromCounts(counts, EVENTS_WINDOW_DAYS, "recent-events", now);
+}
+
+function streakOf(days: ContributionDay[]): ContributionStreak {
+  return {
+    days: days.length,
+    start: days[0]?.date ?? null,
+    end: days[days.length - 1]?.date ?? null,
+  };
+}
+
+function findLongestStreak(days: ContributionDay[]): ContributionStreak {
+  let longest = { start: 0, length: 0 };
+  let start = 0;
+  days.forEach((day, index) => {
+    if (!day.count) {
+      start = index + 1;
+    } else if (index - start + 1 > longest.length) {
+      longest = { start, length: index - start + 1 };
+    }
+  });
+  return streakOf(days.slice(longest.start, longest.start + longest.length));
+}
+
+/** Like GitHub, a day without contributions yet does not break the streak. */
+function findCurrentStreak(days: ContributionDay[]): ContributionStreak {
+  const end = days[days.length - 1]?.count ? days.length : days.length - 1;
+  let start = end;
+  while (start > 0 && days[start - 1].count > 0) start -= 1;
+  return streakOf(days.slice(start, end));
+}
+
+function groupByMonth(days: ContributionDay[]): MonthlyContributions[] {
+  const months = new Map<string, number>();
+  for (const day of days) {
+    const month = day.date.slice(0, 7);
+    months.set(month, (months.get(month) ?? 0) + day.count);
+  }
+  return Array.from(months, ([month, count]) => ({ month, count }));
+}
+
+function daysInMonth(month: string): number {
+  const [year, index] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, index, 0)).getUTCDate();
+}
+
+/** Drops months the calendar only partly covers, such as the current one. */
+function completeMonths(
+  days: ContributionDay[],
+  monthly: MonthlyContributions[],
+): MonthlyContributions[] {
+  const covered = new Map<string, number>();
+  for (const day of days) {
+    const month = day.date.slice(0, 7);
+    covered.set(month, (covered.get(month) ?? 0) + 1);
+  }
+  return monthly.filter((item) => covered.get(item.month) === daysInMonth(item.month));
+}
+
+function findTrend(monthly: MonthlyContributions[]): ContributionTrend | null {
+  if (monthly.length < TREND_WINDOW_MONTHS * 2) return null;
+  const sum = (items: MonthlyContributions[]) =>
+    items.reduce((total, item) => total + item.count, 0);
+  const recent = sum(monthly.slice(-TREND_WINDOW_MONTHS));
+  const previous = sum(monthly.slice(-TREND_WINDOW_MONTHS * 2, -TREND_WINDOW_MONTHS));
+
+  if (!recent) return "inactive";
+  if (!previous || recent >= previous * RISING_RATIO) return "rising";
+  return recent <= previous * DECLINING_RATIO ? "declining" : "steady";
+}
+
+/**
+ * Summarises how consistently a candidate contributes: streaks, weeks with
+ * any activity, the weekday/weekend split and month-by-month totals with a
+ * trend. Streaks are measured up to the calendar's last day.
+ */
+export function analyzeContributions(calendar: ContributionCalendar): ContributionTrends {
+  const days = calendar.weeks.flatMap((week) => week.days);
+  const active = days.filter((day) => day.count > 0);
+  const weekendContributions = days
+    .filter((day) => day.weekday === 0 || day.weekday === 6)
+    .reduce((sum, day) => sum + day.count, 0);
+  const totalContributions = days.reduce((sum, day) => sum + day.count, 0);
+  const monthly = groupByMonth(days);
+
+  return {
+    activeDays: active.length,
+    totalDays: days.length,
+    longestStreak: findLongestStreak(days),
+    currentStreak: findCurrentStreak(days),
+    activeWeeks: calendar.weeks.filter((week) => week.days.some((day) => day.count > 0))
+      .length,
+    totalWeeks: calendar.weeks.length,
+    weekdayContributions: totalContributions - weekendContributions,
+    weekendContributions,
+    weekendShare: totalContributions
+      ? parseFloat((weekendContributions / totalContributions).toFixed(2))
+      : null,
+    monthly,
+    trend: findTrend(completeMonths(days, monthly)),
+    lastContributionDate: active[active.length - 1]?.date ?? null,
+  };
+}
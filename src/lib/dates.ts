@@ -0,0 +1,129 @@
+export type ResumeDate = {
+  year: number;
+  month: number | null;
+};
+
+export type DateRangeMatch = {
+  raw: string;
+  index: number;
+  start: ResumeDate;
+  end: ResumeDate | null;
+  isCurrent: boolean;
+};
+
+const MONTH_PATTERN =
+  "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+const DATE_PATTERN = `(?:${MONTH_PATTERN}\\.?,?\\s+(?:19|20)\\d{2}|(?:0?[1-9]|1[0-2])[/.](?:19|20)\\d{2}|(?:19|20)\\d{2}[/.-](?:0?[1-9]|1[0-2])(?!\\d)|(?:19|20)\\d{2})`;
+const PRESENT_PATTERN = "(?:present|current(?:ly)?|now|today|ongoing)";
+
+const DATE_RANGE_REGEX = new RegExp(
+  `(?<![a-z\\d])(${DATE_PATTERN})\\s*(?:-|–|—|~|to|until|through)\\s*(${DATE_PATTERN}|${PRESENT_PATTERN})(?![a-z\\d])`,
+  "gi",
+);
+const SINGLE_DATE_REGEX = new RegExp(
+  `(?<![a-z\\d])${DATE_PATTERN}(?![a-z\\d])`,
+  "gi",
+);
+const PRESENT_REGEX = new RegExp(`^${PRESENT_PATTERN}$`, "i");
+
+const MONTH_LOOKUP: Record<string, number> = {
+  jan: 1,
+  feb: 2,
+  mar: 3,
+  apr: 4,
+  may: 5,
+  jun: 6,
+  jul: 7,
+  aug: 8,
+  sep: 9,
+  oct: 10,
+  nov: 11,
+  dec: 12,
+};
+
+export function parseResumeDate(token: string): ResumeDate | null {
+  const value = token.trim().toLowerCase();
+
+  const named = value.match(/^([a-z]+)\.?,?\s+(\d{4})$/);
+  if (named) {
+    const month = MONTH_LOOKUP[named[1].slice(0, 3)];
+    return month ? { year: Number(named[2]), month } : null;
+  }
+
+  const monthFirst = value.match(/^(\d{1,2})[/.](\d{4})$/);
+  if (monthFirst) {
+    return { year: Number(monthFirst[2]), month: Number(monthFirst[1]) };
+  }
+
+  const yearFirst = value.match(/^(\d{4})[/.-](\d{1,2})$/);
+  if (yearFirst) {
+    return { year: Number(yearFirst[1]), month: Number(yearFirst[2]) };
+  }
+
+  const yearOnly = value.match(/^(\d{4})$/);
+  if (yearOnly) {
+    return { year: Number(yearOnly[1]), month: null };
+  }
+
+  return null;
+}
+
+export function findDateRange(text: string): DateRangeMatch | null {
+  return findDateRanges(text)[0] ?? null;
+}
+
+export function findDateRanges(text: string): DateRangeMatch[] {
+  const matches: DateRangeMatch[] = [];
+
+  for (const match of text.matchAll(DATE_RANGE_REGEX)) {
+    const start = parseResumeDate(match[1]);
+    if (!start) continue;
+
+    const isCurrent = PRESENT_REGEX.test(match[2].trim());
+    const end = isCurrent ? null : parseResumeDate(match[2]);
+    if (!isCurrent && !end) continue;
+
+    matches.push({
+      raw: match[0],
+      index: match.index ?? 0,
+      start,
+      end,
+      isCurrent,
+    });
+  }
+
+  return matches;
+}
+
+export function findDates(text: string): ResumeDate[] {
+  return Array.from(text.matchAll(SINGLE_DATE_REGEX))
+    .map((match) => parseResumeDate(match[0]))
+    .filter((date): date is ResumeDate => date !== null);
+}
+
+export function formatResumeDate(date: ResumeDate | null): string | null {
+  if (!date) return null;
+  if (date.month === null) return String(date.year);
+  return `${date.year}-${String(date.month).padStart(2, "0")}`;
+}
+
+export function toMonthIndex(date: ResumeDate): number {
+  return date.year * 12 + (date.month ?? 1) - 1;
+}
+
+export function dateFromReference(referenceDate: Date): ResumeDate {
+  return {
+    year: referenceDate.getFullYear(),
+    month: referenceDate.getMonth() + 1,
+  };
+}
+
+/**
+ * Inclusive month count between two resume dates, so "Jan 2017 – Dec 2019"
+ * and "2017 – 2019" are both 36 months. A year written without a month
+ * starts in January and ends in December.
+ */
+export function monthsBetween(start: ResumeDate, end: ResumeDate): number {
+  const last = toMonthIndex({ year: end.year, month: end.month ?? 12 });
+  return Math.max(0, last - toMonthIndex(start) + 1);
+}
@@ -0,0 +1,158 @@
+import { findDateRange, findDates } from "@/lib/dates";
+
+export type Education = {
+  institution: string | null;
+  degree: string | null;
+  field: string | null;
+  graduationYear: number | null;
+  gpa: number | null;
+  gpaScale: number | null;
+};
+
+const LONG_DEGREE_REGEX =
+  /\b(?:(?:bachelor|master|associate|doctor)(?:'s|’s)?(?:\s+of\s+(?:science|arts|engineering|technology|business administration|fine arts|applied science|computer applications|commerce|education|laws|philosophy))?(?:\s+degree)?|high school diploma|diploma|doctorate)\b/i;
+const DOTTED_DEGREE_REGEX =
+  /(?<![A-Za-z])(?:Ph\.?\s?D|M\.?B\.?A|B\.?\s?Tech|M\.?\s?Tech|B\.?\s?Eng|M\.?\s?Eng|B\.?\s?Sc|M\.?\s?Sc|B\.?\s?Com|BCA|MCA|LL\.?B|LL\.?M|B\.S|M\.S|B\.A|M\.A|B\.E|M\.E)\.?(?![A-Za-z])/;
+const BARE_DEGREE_REGEX =
+  /(?<![A-Za-z])(?:BS|MS|BA|MA|BE|ME|MD|JD)(?=\s+(?:in\s+|of\s+)?[A-Z][a-z])/;
+const DEGREE_REGEXES = [
+  LONG_DEGREE_REGEX,
+  DOTTED_DEGREE_REGEX,
+  BARE_DEGREE_REGEX,
+];
+const INSTITUTION_REGEX =
+  /\b(?:university|college|institute|school|academy|polytechnic|conservatory|iit|nit)\b|^(?:mit|ucla|nyu|caltech|eth zurich|epfl)$/i;
+const GPA_REGEX =
+  /\b(?:c?gpa|grade point average)\s*[:-]?\s*(\d+(?:\.\d+)?)(?:\s*(?:\/|out of)\s*(\d+(?:\.\d+)?))?|(\d\.\d{1,2})\s*\/\s*(\d+(?:\.\d+)?)\s*(?:c?gpa)\b/i;
+const FIELD_STOP_REGEX = /[,;|()–—]|\s-\s|\b(?:19|20)\d{2}\b|\bc?gpa\b/i;
+const PART_SPLIT_REGEX = /\s*(?:,|\||•|·|\t|\s{2,}|\s[–—-]\s)\s*/u;
+const BULLET_REGEX = /^\s*[•▪◦●■*·–-]\s+/u;
+
+type DegreeMatch = {
+  degree: string;
+  rest: string;
+};
+
+function matchDegree(line: string): DegreeMatch | null {
+  for (const regex of DEGREE_REGEXES) {
+    const match = line.match(regex);
+    if (match && match.index !== undefined) {
+      return {
+        degree: match[0].trim(),
+        rest: line.slice(match.index + match[0].length),
+      };
+    }
+  }
+  return null;
+}
+
+function extractField(rest: string): string | null {
+  const trimmed = rest.replace(/^[\s.,:-]*(?:(?:in|of)\s+)?/i, "");
+  const stop = trimmed.search(FIELD_STOP_REGEX);
+  const field = (stop >= 0 ? trimmed.slice(0, stop) : trimmed).trim();
+  if (field.length < 2 || field.length > 60) return null;
+  if (INSTITUTION_REGEX.test(field)) return null;
+  return field;
+}
+
+function extractGpa(text: string) {
+  const match = text.match(GPA_REGEX);
+  if (!match) return { gpa: null, gpaScale: null };
+  const value = match[1] ?? match[3];
+  const scale = match[2] ?? match[4];
+  return {
+    gpa: value ? Number(value) : null,
+    gpaScale: scale ? Number(scale) : null,
+  };
+}
+
+function findInstitution(lines: string[]): string | null {
+  const parts = lines.flatMap((line) => line.split(PART_SPLIT_REGEX));
+  const named = parts.find((part) => INSTITUTION_REGEX.test(part.trim()));
+  if (named) return named.trim();
+
+  const fallback = parts.find((part) => {
+    const trimmed = part.trim();
+    return (
+      trimmed.length > 1 &&
+      !matchDegree(trimmed) &&
+      !findDates(trimmed).length &&
+      !GPA_REGEX.test(trimmed) &&
+      /^[A-Z]/.test(trimmed)
+    );
+  });
+  return fallback?.trim() ?? null;
+}
+
+function findGraduationYear(text: string): number | null {
+  const range = findDateRange(text);
+  if (range) return range.end?.year ?? null;
+  const years = findDates(text).map((date) => date.year);
+  return years.length ? Math.max(...years) : null;
+}
+
+function groupEntries(lines: string[]): string[][] {
+  const entries: string[][] = [];
+  let current: string[] = [];
+  let hasInstitution = false;
+  let hasDegree = false;
+
+  const close = () => {
+    if (current.length) entries.push(current);
+    current = [];
+    hasInstitution = false;
+    hasDegree = false;
+  };
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      close();
+      continue;
+    }
+
+    if (BULLET_REGEX.test(trimmed)) {
+      current.push(trimmed.replace(BULLET_REGEX, ""));
+      continue;
+    }
+
+    const isInstitution = INSTITUTION_REGEX.test(trimmed);
+    const isDegree = matchDegree(trimmed) !== null;
+    if ((isInstitution && hasInstitution) || (isDegree && hasDegree)) {
+      close();
+    }
+
+    current.push(trimmed);
+    hasInstitution ||= isInstitution;
+    hasDegree ||= isDegree;
+  }
+
+  close();
+  return entries;
+}
+
+/**
+ * Builds education entries from the body of an education section. Entries
+ * are split on blank lines, or when a second institution or degree line
+ * appears in the same block.
+ */
+export function extractEducation(sectionText: string): Education[] {
+  if (!sectionText.trim()) return [];
+
+  return groupEntries(sectionText.split("\n"))
+    .map((lines) => {
+      const text = lines.join("\n");
+      const degreeLine = lines
+        .map((line) => matchDegree(line))
+        .find((match) => match !== null);
+
+      return {
+        institution: findInstitution(lines),
+        degree: degreeLine?.degree ?? null,
+        field: degreeLine ? extractField(degreeLine.rest) : null,
+        graduationYear: findGraduationYear(text),
+        ...extractGpa(text),
+      };
+    })
+    .filter((entry) => entry.institution || entry.degree);
+}
@@ -0,0 +1,251 @@
+import {
+  dateFromReference,
+  findDateRange,
+  formatResumeDate,
+  monthsBetween,
+  toMonthIndex,
+  type DateRangeMatch,
+} from "@/lib/dates";
+
+export type WorkExperience = {
+  company: string | null;
+  title: string | null;
+  location: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  isCurrent: boolean;
+  durationMonths: number | null;
+  bullets: string[];
+};
+
+const BULLET_REGEX = /^\s*(?:[•▪◦●■◆▶►✓✔*·–-]|\d{1,2}[.)])\s+/u;
+const DETAIL_LINE_REGEX = /^[A-Za-z][A-Za-z /&]{1,30}:\s+\S/;
+const HEADER_SPLIT_REGEX =
+  /\s*(?:\||•|·|\t|\s{2,}|\s[–—-]\s|,?\s+at\s+|\s@\s)\s*/u;
+
+const TITLE_REGEX =
+  /\b(?:engineer|developer|programmer|architect|manager|lead|intern|analyst|designer|consultant|scientist|director|specialist|administrator|officer|associate|coordinator|head|founder|co-founder|cto|ceo|cfo|vp|vice president|president|researcher|assistant|technician|strategist|owner|partner|principal|staff|sre|devops|tester|qa|teaching assistant|fellow|trainee|apprentice)\b/i;
+const COMPANY_REGEX =
+  /\b(?:inc|llc|ltd|limited|corp|corporation|co|company|gmbh|ag|plc|pvt|technologies|labs|solutions|systems|group|studios?|software|consulting|university|college|institute|bank|agency|partners)\.?$|^(?:university|college|institute) of\b/i;
+const LOCATION_REGEX =
+  /^(?:[Rr]emote|[Hh]ybrid|[Oo]n-?[Ss]ite)\b|^[A-Z][A-Za-z.' -]+,\s*(?:[A-Z]{2}|[A-Z][a-z]+(?:\s[A-Z][a-z]+)*)$/;
+
+type ExperienceDraft = {
+  header: string[];
+  bullets: string[];
+  range: DateRangeMatch | null;
+};
+
+function stripBullet(line: string): string {
+  return line.replace(BULLET_REGEX, "").trim();
+}
+
+function cleanPart(part: string): string {
+  return part
+    .replace(/^[\s,;:()[\]-]+|[\s,;:()[\]-]+$/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function splitHeaderParts(lines: string[], range: DateRangeMatch | null) {
+  return lines
+    .map((line) => (range ? line.replace(range.raw, " ") : line))
+    .flatMap((line) => line.split(HEADER_SPLIT_REGEX))
+    .flatMap((part) => {
+      const parenthetical = part.match(/^(.*?)\s*\(([^)]+)\)\s*$/);
+      return parenthetical ? [parenthetical[1], parenthetical[2]] : [part];
+    })
+    .map(cleanPart)
+    .filter((part) => part.length > 1);
+}
+
+/**
+ * How many trailing comma-separated pieces form a location, as in
+ * "Acme Corp, Senior Engineer, San Francisco, CA" or "Acme Corp, Remote".
+ * A lone "Company, Title" pair is left alone, since it also reads as
+ * "Place, Region".
+ */
+function trailingLocationLength(pieces: string[]): number {
+  const last = pieces[pieces.length - 1];
+  // A single piece only matches as "Remote", "Hybrid" or "On-site".
+  if (pieces.length > 1 && LOCATION_REGEX.test(last)) return 1;
+  const region = pieces.slice(-2);
+  if (
+    pieces.length > 2 &&
+    !TITLE_REGEX.test(region[0]) &&
+    !COMPANY_REGEX.test(region[0]) &&
+    LOCATION_REGEX.test(region.join(", "))
+  ) {
+    return 2;
+  }
+  return 0;
+}
+
+function parseHeader(lines: string[], range: DateRangeMatch | null) {
+  let company: string | null = null;
+  let title: string | null = null;
+  let location: string | null = null;
+  const leftovers: string[] = [];
+
+  const assign = (part: string) => {
+    if (!location && LOCATION_REGEX.test(part)) {
+      location = part;
+    } else if (!company && COMPANY_REGEX.test(part)) {
+      company = part;
+    } else if (!title && TITLE_REGEX.test(part)) {
+      title = part;
+    } else {
+      leftovers.push(part);
+    }
+  };
+
+  const assignPart = (part: string) => {
+    // "Globex Inc, Software Engineer" also reads as "Place, Region", so the
+    // company/title split is tried before the whole part counts as a location.
+    const commaIndex = part.indexOf(",");
+    const head = commaIndex > 0 ? cleanPart(part.slice(0, commaIndex)) : "";
+    const tail = commaIndex > 0 ? cleanPart(part.slice(commaIndex + 1)) : "";
+    if (head && tail && TITLE_REGEX.test(head) !== TITLE_REGEX.test(tail)) {
+      assign(head);
+      assign(tail);
+    } else if (LOCATION_REGEX.test(part)) {
+      assign(part);
+    } else if (head && tail && LOCATION_REGEX.test(tail)) {
+      assign(head);
+      assign(tail);
+    } else {
+      assign(part);
+    }
+  };
+
+  for (const part of splitHeaderParts(lines, range)) {
+    const pieces = part.split(",").map(cleanPart).filter(Boolean);
+    const count = trailingLocationLength(pieces);
+    if (count) {
+      assign(pieces.slice(-count).join(", "));
+      assignPart(pieces.slice(0, -count).join(", "));
+    } else {
+      assignPart(part);
+    }
+  }
+
+  if (!company && leftovers.length) company = leftovers.shift() ?? null;
+  if (!title && leftovers.length) title = leftovers.shift() ?? null;
+
+  return { company, title, location };
+}
+
+function groupDrafts(lines: string[]): ExperienceDraft[] {
+  const drafts: ExperienceDraft[] = [];
+  let current: ExperienceDraft | null = null;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    if (BULLET_REGEX.test(trimmed)) {
+      if (!current) {
+        current = { header: [], bullets: [], range: null };
+        drafts.push(current);
+      }
+      current.bullets.push(stripBullet(trimmed));
+      continue;
+    }
+
+    const range = findDateRange(trimmed);
+
+    if (current && !range) {
+      const isDetail =
+        DETAIL_LINE_REGEX.test(trimmed) && current.header.length > 0;
+      const isDescription =
+        current.range !== null &&
+        (trimmed.length > 90 || /[.!]$/.test(trimmed));
+      if (isDetail || isDescription) {
+        current.bullets.push(trimmed);
+        continue;
+      }
+    }
+
+    if (!current || current.bullets.length > 0 || (range && current.range)) {
+      current = { header: [], bullets: [], range: null };
+      drafts.push(current);
+    }
+
+    current.header.push(trimmed);
+    if (range && !current.range) current.range = range;
+  }
+
+  return drafts;
+}
+
+/**
+ * Builds structured work history from the body of an experience section.
+ * Each entry is anchored on its header lines (company, title, location and a
+ * date range in any order) followed by bullets or description lines.
+ */
+export function extractExperience(
+  sectionText: string,
+  referenceDate: Date,
+): WorkExperience[] {
+  if (!sectionText.trim()) return [];
+
+  const today = dateFromReference(referenceDate);
+
+  return groupDrafts(sectionText.split("\n"))
+    .filter((draft) => draft.header.length > 0)
+    .filter((draft) => draft.range !== null || draft.bullets.length > 0)
+    .map((draft) => {
+      const { company, title, location } = parseHeader(
+        draft.header,
+        draft.range,
+      );
+      const range = draft.range;
+      const end = range ? (range.end ?? today) : null;
+
+      return {
+        company,
+        title,
+        location,
+        startDate: formatResumeDate(range?.start ?? null),
+        endDate: range?.isCurrent ? null : formatResumeDate(range?.end ?? null),
+        isCurrent: range?.isCurrent ?? false,
+        durationMonths: range && end ? monthsBetween(range.start, end) : null,
+        bullets: draft.bullets,
+      };
+    });
+}
+
+/**
+ * Total years covered by the entries, counting overlapping roles once.
+ */
+export function totalYearsOfExperience(
+  entries: WorkExperience[],
+  referenceDate: Date,
+): number | null {
+  const today = dateFromReference(referenceDate);
+  const intervals = entries
+    .flatMap((entry) => {
+      if (!entry.startDate || entry.durationMonths === null) return [];
+      const [year, month] = entry.startDate.split("-").map(Number);
+      const start = toMonthIndex({ year, month: month ?? null });
+      return [[start, start + entry.durationMonths] as const];
+    })
+    .filter(([start]) => start <= toMonthIndex(today))
+    .sort((a, b) => a[0] - b[0]);
+
+  if (!intervals.length) return null;
+
+  let months = 0;
+  let [currentStart, currentEnd] = intervals[0];
+  for (const [start, end] of intervals.slice(1)) {
+    if (start <= currentEnd) {
+      currentEnd = Math.max(currentEnd, end);
+      continue;
+    }
+    months += currentEnd - currentStart;
+    [currentStart, currentEnd] = [start, end];
+  }
+  months += currentEnd - currentStart;
+
+  return parseFloat((months / 12).toFixed(1));
+}
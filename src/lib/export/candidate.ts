@@ -0,0 +1,86 @@
+import type { GithubInsights, GithubSummary } from "@/lib/github";
+import type { ParsedResume } from "@/lib/parser";
+
+export type ExportRepository = {
+  name: string;
+  url: string;
+  description: string | null;
+  language: string | null;
+  stars: number;
+  topics: string[];
+};
+
+/**
+ * The GitHub fields the exporters use. Single-candidate analytics and the
+ * batch summary both reduce to this shape.
+ */
+export type ExportGithub = {
+  login: string;
+  name: string | null;
+  profileUrl: string;
+  followers: number;
+  repositoryCount: number;
+  totalStars: number;
+  topLanguages: string[];
+  repositories: ExportRepository[];
+};
+
+export type ExportCandidate = {
+  resume: ParsedResume;
+  github: ExportGithub | null;
+};
+
+type GithubPayload =
+  | Pick<
+      GithubInsights,
+      "login" | "name" | "html_url" | "followers" | "topLanguages" | "aggregates" | "repos"
+    >
+  | GithubSummary;
+
+/** Normalizes the JSON returned by `/api/github` or a batch candidate's summary. */
+export function toExportGithub(value: unknown): ExportGithub | null {
+  const github = value as GithubPayload | null;
+  if (!github || typeof github !== "object" || typeof github.login !== "string") {
+    return null;
+  }
+
+  if ("profileUrl" in github) {
+    return {
+      login: github.login,
+      name: github.name,
+      profileUrl: github.profileUrl,
+      followers: github.followers,
+      repositoryCount: github.repositoryCount,
+      totalStars: github.totalStars,
+      topLanguages: github.topLanguages.map((item) => item.language),
+      repositories: [],
+    };
+  }
+
+  return {
+    login: github.login,
+    name: github.name,
+    profileUrl: github.html_url,
+    followers: github.followers,
+    repositoryCount: github.aggregates?.repositoryCount ?? 0,
+    totalStars: github.aggregates?.totalStars ?? 0,
+    topLanguages: (github.topLanguages ?? []).map((item) => item.language),
+    repositories: (github.repos ?? []).map((repo) => ({
+      name: repo.name,
+      url: repo.html_url,
+      description: repo.description,
+      language: repo.language,
+      stars: repo.stargazers_count,
+      topics: repo.topics ?? [],
+    })),
+  };
+}
+
+/** File name stem for downloads, e.g. "jane-doe" from "Jane Doe". */
+export function candidateSlug(...names: Array<string | null | undefined>): string {
+  const slug = (names.find(Boolean) ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return slug || "candidate";
+}
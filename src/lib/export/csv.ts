@@ -0,0 +1,189 @@
+import type { ExportCandidate } from "@/lib/export/candidate";
+
+type CsvValue = string | number | null | undefined;
+
+export type CsvRecord = ExportCandidate & { fileName?: string | null };
+
+export type CsvColumn = {
+  header: string;
+  field: CsvField;
+};
+
+const LIST_SEPARATOR = "; ";
+
+/** Every value a CSV column can hold, keyed by field name. */
+const CSV_FIELDS = {
+  fileName: { label: "File", value: (record: CsvRecord) => record.fileName },
+  name: { label: "Name", value: ({ resume }: CsvRecord) => resume.name },
+  headline: { label: "Headline", value: ({ resume }: CsvRecord) => resume.headline },
+  email: { label: "Email", value: ({ resume }: CsvRecord) => resume.emails[0] },
+  emails: {
+    label: "Emails",
+    value: ({ resume }: CsvRecord) => resume.emails.join(LIST_SEPARATOR),
+  },
+  phone: { label: "Phone", value: ({ resume }: CsvRecord) => resume.phones[0] },
+  linkedinUrl: { label: "LinkedIn", value: ({ resume }: CsvRecord) => resume.linkedinUrl },
+  portfolioUrl: {
+    label: "Portfolio",
+    value: ({ resume }: CsvRecord) => resume.portfolioUrl,
+  },
+  githubUrl: {
+    label: "GitHub",
+    value: ({ resume, github }: CsvRecord) => github?.profileUrl ?? resume.githubUrl,
+  },
+  yearsExperience: {
+    label: "Years of experience",
+    value: ({ resume }: CsvRecord) => resume.totalYearsExperience,
+  },
+  currentTitle: {
+    label: "Current title",
+    value: ({ resume }: CsvRecord) => resume.experience[0]?.title,
+  },
+  currentCompany: {
+    label: "Current company",
+    value: ({ resume }: CsvRecord) => resume.experience[0]?.company,
+  },
+  skills: {
+    label: "Skills",
+    value: ({ resume }: CsvRecord) => resume.skills.join(LIST_SEPARATOR),
+  },
+  degree: {
+    label: "Degree",
+    value: ({ resume }: CsvRecord) =>
+      [resume.education[0]?.degree, resume.education[0]?.field]
+        .filter(Boolean)
+        .join(", "),
+  },
+  institution: {
+    label: "Institution",
+    value: ({ resume }: CsvRecord) => resume.education[0]?.institution,
+  },
+  graduationYear: {
+    label: "Graduation year",
+    value: ({ resume }: CsvRecord) => resume.education[0]?.graduationYear,
+  },
+  certifications: {
+    label: "Certifications",
+    value: ({ resume }: CsvRecord) =>
+      resume.certifications.map((certification) => certification.name).join(LIST_SEPARATOR),
+  },
+  summary: {
+    label: "Summary",
+    value: ({ resume }: CsvRecord) => resume.summary.join(" "),
+  },
+  githubFollowers: {
+    label: "GitHub followers",
+    value: ({ github }: CsvRecord) => github?.followers,
+  },
+  githubRepositories: {
+    label: "GitHub repositories",
+    value: ({ github }: CsvRecord) => github?.repositoryCount,
+  },
+  githubStars: {
+    label: "GitHub stars",
+    value: ({ github }: CsvRecord) => github?.totalStars,
+  },
+  githubLanguages: {
+    label: "GitHub languages",
+    value: ({ github }: CsvRecord) => github?.topLanguages.join(LIST_SEPARATOR),
+  },
+} satisfies Record<string, { label: string; value: (record: CsvRecord) => CsvValue }>;
+
+export type CsvField = keyof typeof CSV_FIELDS;
+
+export const CSV_FIELD_NAMES = Object.keys(CSV_FIELDS) as CsvField[];
+
+export const DEFAULT_CSV_COLUMNS: CsvColumn[] = (
+  [
+    "name",
+    "email",
+    "phone",
+    "headline",
+    "currentTitle",
+    "currentCompany",
+    "yearsExperience",
+    "skills",
+    "degree",
+    "institution",
+    "linkedinUrl",
+    "githubUrl",
+    "githubStars",
+    "githubLanguages",
+  ] satisfies CsvField[]
+).map((field) => ({ header: CSV_FIELDS[field].label, field }));
+
+function isCsvField(value: unknown): value is CsvField {
+  return typeof value === "string" && Object.hasOwn(CSV_FIELDS, value);
+}
+
+function toColumn(entry: unknown): CsvColumn {
+  if (isCsvField(entry)) return { header: CSV_FIELDS[entry].label, field: entry };
+
+  const column = entry as Partial<CsvColumn> | null;
+  if (column && typeof column === "object" && isCsvField(column.field)) {
+    return {
+      header:
+        typeof column.header === "string" && column.header.trim()
+          ? column.header.trim()
+          : CSV_FIELDS[column.field].label,
+      field: column.field,
+    };
+  }
+
+  const name = typeof entry === "string" ? entry : JSON.stringify(column?.field ?? entry);
+  throw new Error(
+    `Unknown CSV field ${name}. Available fields: ${CSV_FIELD_NAMES.join(", ")}.`,
+  );
+}
+
+/**
+ * Reads a column mapping: a list of field names, or `{ header, field }`
+ * objects to rename columns for a particular ATS import template.
+ */
+export function parseCsvColumns(value: unknown): CsvColumn[] {
+  if (!Array.isArray(value) || !value.length) {
+    throw new Error("CSV columns must be a non-empty list of fields.");
+  }
+  return value.map(toColumn);
+}
+
+/**
+ * Columns from EXPORT_CSV_COLUMNS, a comma-separated list of fields with
+ * optional headers (`Candidate=name,email,Stars=githubStars`), or the
+ * default mapping.
+ */
+export function getCsvColumns(): CsvColumn[] {
+  const configured = process.env.EXPORT_CSV_COLUMNS?.trim();
+  if (!configured) return DEFAULT_CSV_COLUMNS;
+
+  return parseCsvColumns(
+    configured.split(",").map((entry) => {
+      const [header, field] = entry.includes("=") ? entry.split("=") : [undefined, entry];
+      return { header: header?.trim(), field: field.trim() };
+    }),
+  );
+}
+
+/**
+ * Quotes a cell per RFC 4180. Text that a spreadsheet would run as a
+ * formula is prefixed with an apostrophe; phone numbers are left alone.
+ */
+function escapeCell(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (/^[=@\t\r]/.test(text) || (/^[+-]/.test(text) && !/^[+-][\d\s().-]+$/.test(text))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One header row and one row per candidate, with CRLF line endings. */
+export function toCsv(records: CsvRecord[], columns: CsvColumn[] = DEFAULT_CSV_COLUMNS) {
+  const rows = [
+    columns.map((column) => escapeCell(column.header)),
+    ...records.map((record) =>
+      columns.map((column) => escapeCell(CSV_FIELDS[column.field].value(record))),
+    ),
+  ];
+  return rows.map((row) => row.join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,189 @@
+import type { ExportCandidate } from "@/lib/export/candidate";
+import { SKILL_CATEGORY_LABELS, type SkillCategory } from "@/lib/skills";
+
+export const JSON_RESUME_SCHEMA =
+  "https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json";
+
+const CODE_HOST_NETWORKS: Record<string, string> = {
+  gitlab: "GitLab",
+  gitea: "Gitea",
+  bitbucket: "Bitbucket",
+  "codeberg.org": "Codeberg",
+};
+
+export type JsonResumeProfile = {
+  network: string;
+  username?: string;
+  url: string;
+};
+
+/** The subset of the JSON Resume schema (https://jsonresume.org/schema) we fill. */
+export type JsonResume = {
+  $schema: string;
+  basics: {
+    name?: string;
+    label?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    profiles: JsonResumeProfile[];
+  };
+  work: Array<{
+    name?: string;
+    position?: string;
+    location?: string;
+    startDate?: string;
+    endDate?: string;
+    highlights: string[];
+  }>;
+  education: Array<{
+    institution?: string;
+    area?: string;
+    studyType?: string;
+    endDate?: string;
+    score?: string;
+  }>;
+  certificates: Array<{
+    name: string;
+    issuer?: string;
+    date?: string;
+    url?: string;
+  }>;
+  skills: Array<{ name: string; keywords: string[] }>;
+  projects: Array<{
+    name: string;
+    url: string;
+    description?: string;
+    keywords: string[];
+  }>;
+};
+
+/** Drops null and empty-string fields, which the schema does not allow. */
+function compact<T extends Record<string, unknown>>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== null && field !== undefined && field !== ""),
+  ) as T;
+}
+
+function usernameFromUrl(url: string): string | undefined {
+  return url.replace(/\/+$/, "").split("/").pop() || undefined;
+}
+
+function buildProfiles({ resume, github }: ExportCandidate): JsonResumeProfile[] {
+  const profiles: JsonResumeProfile[] = [];
+  const githubUrl = github?.profileUrl ?? resume.githubUrl;
+  if (githubUrl) {
+    profiles.push(
+      compact({
+        network: "GitHub",
+        username: github?.login ?? resume.githubUsername ?? usernameFromUrl(githubUrl),
+        url: githubUrl,
+      }),
+    );
+  }
+  // Missing from resumes saved before other code hosts were recognised.
+  for (const profile of resume.codeProfiles ?? []) {
+    if (profile.provider === "github") continue;
+    profiles.push({
+      network: CODE_HOST_NETWORKS[profile.host] ?? CODE_HOST_NETWORKS[profile.provider],
+      username: profile.username,
+      url: profile.url,
+    });
+  }
+  if (resume.linkedinUrl) {
+    profiles.push(
+      compact({
+        network: "LinkedIn",
+        username: usernameFromUrl(resume.linkedinUrl),
+        url: resume.linkedinUrl,
+      }),
+    );
+  }
+  return profiles;
+}
+
+/**
+ * Groups resume skills by category. Languages the candidate uses on GitHub
+ * but did not list are added to the languages group.
+ */
+function buildSkills({ resume, github }: ExportCandidate): JsonResume["skills"] {
+  const groups = new Map<SkillCategory, string[]>();
+  for (const skill of resume.canonicalSkills) {
+    groups.set(skill.category, [...(groups.get(skill.category) ?? []), skill.name]);
+  }
+
+  const known = new Set(resume.canonicalSkills.map((skill) => skill.name.toLowerCase()));
+  const githubLanguages = (github?.topLanguages ?? []).filter(
+    (language) => !known.has(language.toLowerCase()),
+  );
+  if (githubLanguages.length) {
+    groups.set("language", [...(groups.get("language") ?? []), ...githubLanguages]);
+  }
+
+  return (Object.keys(SKILL_CATEGORY_LABELS) as SkillCategory[])
+    .filter((category) => groups.has(category))
+    .map((category) => ({
+      name: SKILL_CATEGORY_LABELS[category],
+      keywords: groups.get(category) ?? [],
+    }));
+}
+
+/** Converts a parsed resume and its GitHub analytics to JSON Resume. */
+export function toJsonResume(candidate: ExportCandidate): JsonResume {
+  const { resume, github } = candidate;
+
+  return {
+    $schema: JSON_RESUME_SCHEMA,
+    basics: compact({
+      name: resume.name ?? github?.name ?? undefined,
+      label: resume.headline ?? undefined,
+      email: resume.emails[0],
+      phone: resume.phones[0],
+      url: resume.portfolioUrl ?? undefined,
+      summary: resume.summary.join(" "),
+      profiles: buildProfiles(candidate),
+    }),
+    work: resume.experience.map((role) =>
+      compact({
+        name: role.company ?? undefined,
+        position: role.title ?? undefined,
+        location: role.location ?? undefined,
+        startDate: role.startDate ?? undefined,
+        endDate: role.isCurrent ? undefined : (role.endDate ?? undefined),
+        highlights: role.bullets,
+      }),
+    ),
+    education: resume.education.map((entry) =>
+      compact({
+        institution: entry.institution ?? undefined,
+        area: entry.field ?? undefined,
+        studyType: entry.degree ?? undefined,
+        endDate: entry.graduationYear?.toString(),
+        score:
+          entry.gpa !== null
+            ? `${entry.gpa}${entry.gpaScale ? `/${entry.gpaScale}` : ""}`
+            : undefined,
+      }),
+    ),
+    certificates: resume.certifications.map((certification) =>
+      compact({
+        name: certification.name,
+        issuer: certification.issuer ?? undefined,
+        date: certification.date ?? undefined,
+        url: certification.credentialUrl ?? undefined,
+      }),
+    ),
+    skills: buildSkills(candidate),
+    projects: (github?.repositories ?? []).map((repo) =>
+      compact({
+        name: repo.name,
+        url: repo.url,
+        description: repo.description ?? undefined,
+        keywords: [repo.language, ...repo.topics].filter(
+          (keyword): keyword is string => Boolean(keyword),
+        ),
+      }),
+    ),
+  };
+}
@@ -0,0 +1,135 @@
+import { mapWithConcurrency } from "@/lib/concurrency";
+import {
+  fetchGithubJson,
+  GithubRateLimitError,
+  type GithubRequestOptions,
+} from "@/lib/github-client";
+
+export type ExternalPullRequest = {
+  title: string;
+  url: string;
+  number: number;
+  mergedAt: string;
+};
+
+export type ExternalRepository = {
+  nameWithOwner: string;
+  url: string;
+  description: string | null;
+  language: string | null;
+  /** Null when the repository details could not be loaded. */
+  stars: number | null;
+  mergedCount: number;
+  /** The most recently merged pull requests, newest first. */
+  pullRequests: ExternalPullRequest[];
+};
+
+export type ExternalContributions = {
+  /** Merged pull requests GitHub found, which may exceed those listed. */
+  totalMerged: number;
+  /** True when the search timed out before finding every match. */
+  incomplete: boolean;
+  repositories: ExternalRepository[];
+};
+
+type SearchIssue = {
+  number: number;
+  title: string;
+  html_url: string;
+  repository_url: string;
+  closed_at: string | null;
+  pull_request?: { merged_at: string | null };
+};
+
+type SearchResult = {
+  total_count: number;
+  incomplete_results: boolean;
+  items: SearchIssue[];
+};
+
+type UpstreamRepository = {
+  full_name: string;
+  html_url: string;
+  description: string | null;
+  language: string | null;
+  stargazers_count: number;
+};
+
+const SEARCH_PAGE_SIZE = 100;
+const MAX_REPOSITORIES = 12;
+const MAX_PULL_REQUESTS_PER_REPO = 5;
+const REPOSITORY_CONCURRENCY = 4;
+
+function searchQuery(username: string) {
+  return `type:pr author:${username} is:merged -user:${username}`;
+}
+
+/**
+ * Finds the candidate's merged pull requests to repositories they do not
+ * own with the search API, grouped by upstream repository and ordered by
+ * its stars. One search page (the 100 most recently updated pull requests)
+ * is read, and stars are loaded for the top repositories only.
+ */
+export async function fetchExternalContributions(
+  username: string,
+  options: GithubRequestOptions = {},
+): Promise<ExternalContributions> {
+  const search = await fetchGithubJson<SearchResult>(
+    `/search/issues?q=${encodeURIComponent(searchQuery(username))}&sort=updated&order=desc&per_page=${SEARCH_PAGE_SIZE}`,
+    options,
+  );
+
+  const groups = new Map<string, ExternalPullRequest[]>();
+  for (const item of search.items) {
+    const nameWithOwner = item.repository_url.replace(/^.*\/repos\//, "");
+    const pullRequests = groups.get(nameWithOwner) ?? [];
+    pullRequests.push({
+      title: item.title,
+      url: item.html_url,
+      number: item.number,
+      mergedAt: item.pull_request?.merged_at ?? item.closed_at ?? "",
+    });
+    groups.set(nameWithOwner, pullRequests);
+  }
+
+  // Repositories with more merged work are looked up first.
+  const grouped = Array.from(groups, ([nameWithOwner, pullRequests]) => ({
+    nameWithOwner,
+    pullRequests: pullRequests.sort((a, b) => b.mergedAt.localeCompare(a.mergedAt)),
+  }))
+    .sort((a, b) => b.pullRequests.length - a.pullRequests.length)
+    .slice(0, MAX_REPOSITORIES);
+
+  const repositories = await mapWithConcurrency(
+    grouped,
+    REPOSITORY_CONCURRENCY,
+    async ({ nameWithOwner, pullRequests }): Promise<ExternalRepository> => {
+      const upstream = await fetchGithubJson<UpstreamRepository>(
+        `/repos/${nameWithOwner}`,
+        options,
+      ).catch((error: unknown) => {
+        if (error instanceof GithubRateLimitError) throw error;
+        console.error(`Failed to load ${nameWithOwner}`, error);
+        return null;
+      });
+
+      return {
+        nameWithOwner: upstream?.full_name ?? nameWithOwner,
+        url: upstream?.html_url ?? `https://github.com/${nameWithOwner}`,
+        description: upstream?.description ?? null,
+        language: upstream?.language ?? null,
+        stars: upstream?.stargazers_count ?? null,
+        mergedCount: pullRequests.length,
+        pullRequests: pullRequests.slice(0, MAX_PULL_REQUESTS_PER_REPO),
+      };
+    },
+  );
+
+  return {
+    totalMerged: search.total_count,
+    incomplete: search.incomplete_results,
+    repositories: repositories.sort(
+      (a, b) => (b.stars ?? -1) - (a.stars ?? -1) || b.mergedCount - a.mergedCount,
+    ),
+  };
+}
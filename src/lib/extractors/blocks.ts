@@ -0,0 +1,78 @@
+export type BlockWriter = {
+  beginParagraph: () => void;
+  append: (text: string) => void;
+  endParagraph: (options?: { bullet?: boolean }) => void;
+  beginRow: () => void;
+  beginCell: () => void;
+  endCell: () => void;
+  endRow: () => void;
+  toText: () => string;
+};
+
+/**
+ * Collects paragraphs and table cells from a word-processing document into
+ * plain text lines. Table rows whose cells hold a single paragraph are joined
+ * with tabs so "Company | Dates" layouts stay on one line; larger cells are
+ * written out one after another, which keeps sidebar layouts readable.
+ */
+export function createBlockWriter(): BlockWriter {
+  const lines: string[] = [];
+  const rows: string[][][] = [];
+  const cells: string[][] = [];
+  let paragraph: string | null = null;
+
+  const target = () => cells[cells.length - 1] ?? lines;
+
+  const emit = (line: string) => {
+    target().push(line);
+  };
+
+  return {
+    beginParagraph() {
+      paragraph = "";
+    },
+    append(text) {
+      if (paragraph === null) return;
+      paragraph += text;
+    },
+    endParagraph(options = {}) {
+      if (paragraph === null) return;
+      const text = paragraph.replace(/[ \u00a0]+/g, " ").trim();
+      paragraph = null;
+      if (!text) {
+        emit("");
+        return;
+      }
+      emit(options.bullet && !/^[•▪◦●■*-]\s/u.test(text) ? `• ${text}` : text);
+    },
+    beginRow() {
+      rows.push([]);
+    },
+    beginCell() {
+      cells.push([]);
+    },
+    endCell() {
+      const cell = cells.pop();
+      rows[rows.length - 1]?.push(cell ?? []);
+    },
+    endRow() {
+      const row = rows.pop() ?? [];
+      const filled = row.map((cell) => cell.filter((line) => line.trim()));
+      if (filled.every((cell) => cell.length <= 1)) {
+        const line = filled.flat().join("\t");
+        if (line) emit(line);
+        return;
+      }
+      for (const cell of filled) {
+        cell.forEach((line) => emit(line));
+        emit("");
+      }
+    },
+    toText() {
+      return lines
+        .join("\n")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+    },
+  };
+}
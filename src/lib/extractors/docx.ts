@@ -0,0 +1,134 @@
+import type { Buffer } from "node:buffer";
+
+import { createBlockWriter, type BlockWriter } from "@/lib/extractors/blocks";
+import { readAttribute, tokenizeXml } from "@/lib/extractors/xml";
+import { readZipEntries, readZipText, type ZipEntry } from "@/lib/extractors/zip";
+
+const HEADER_PART_REGEX = /^word\/header\d*\.xml$/;
+const FOOTER_PART_REGEX = /^word\/footer\d*\.xml$/;
+
+function writeWordPart(xml: string, writer: BlockWriter) {
+  const paragraphs: Array<{ bullet: boolean }> = [];
+  let skipDepth = 0;
+  let inText = false;
+  let inTabStops = false;
+
+  for (const token of tokenizeXml(xml)) {
+    if (token.type === "text") {
+      if (inText && skipDepth === 0) writer.append(token.value);
+      continue;
+    }
+
+    if (token.name === "mc:Fallback") {
+      if (token.type === "open" && !token.selfClosing) skipDepth += 1;
+      if (token.type === "close") skipDepth = Math.max(0, skipDepth - 1);
+      continue;
+    }
+    if (skipDepth > 0) continue;
+
+    if (token.type === "close") {
+      switch (token.name) {
+        case "w:t":
+          inText = false;
+          break;
+        case "w:tabs":
+          inTabStops = false;
+          break;
+        case "w:p": {
+          const current = paragraphs.pop();
+          writer.endParagraph({ bullet: current?.bullet });
+          if (paragraphs.length) writer.beginParagraph();
+          break;
+        }
+        case "w:tc":
+          writer.endCell();
+          break;
+        case "w:tr":
+          writer.endRow();
+          break;
+      }
+      continue;
+    }
+
+    switch (token.name) {
+      case "w:p":
+        if (paragraphs.length) {
+          writer.endParagraph({
+            bullet: paragraphs[paragraphs.length - 1].bullet,
+          });
+        }
+        if (token.selfClosing) {
+          writer.beginParagraph();
+          writer.endParagraph();
+          if (paragraphs.length) writer.beginParagraph();
+          break;
+        }
+        paragraphs.push({ bullet: false });
+        writer.beginParagraph();
+        break;
+      case "w:numPr":
+        if (paragraphs.length) paragraphs[paragraphs.length - 1].bullet = true;
+        break;
+      case "w:pStyle": {
+        const style = readAttribute(token.attributes, "w:val") ?? "";
+        if (paragraphs.length && /list|bullet/i.test(style)) {
+          paragraphs[paragraphs.length - 1].bullet = true;
+        }
+        break;
+      }
+      case "w:t":
+        inText = !token.selfClosing;
+        break;
+      case "w:tabs":
+        inTabStops = !token.selfClosing;
+        break;
+      case "w:tab":
+        if (!inTabStops) writer.append("\t");
+        break;
+      case "w:br":
+      case "w:cr":
+        writer.append("\n");
+        break;
+      case "w:tr":
+        writer.beginRow();
+        break;
+      case "w:tc":
+        writer.beginCell();
+        break;
+    }
+  }
+}
+
+function sortParts(entries: ZipEntry[], pattern: RegExp): string[] {
+  return entries
+    .map((entry) => entry.name)
+    .filter((name) => pattern.test(name))
+    .sort();
+}
+
+export function isDocx(entries: ZipEntry[]): boolean {
+  return entries.some((entry) => entry.name === "word/document.xml");
+}
+
+/**
+ * Reads the text of a DOCX file by walking its OOXML parts: page headers,
+ * the document body, then page footers. Numbered and bulleted paragraphs are
+ * written with a "• " prefix so downstream parsing still sees list items.
+ */
+export function extractDocxText(buffer: Buffer): string {
+  const entries = readZipEntries(buffer);
+  const writer = createBlockWriter();
+
+  const parts = [
+    ...sortParts(entries, HEADER_PART_REGEX),
+    "word/document.xml",
+    ...sortParts(entries, FOOTER_PART_REGEX),
+  ];
+
+  for (const part of parts) {
+    const xml = readZipText(entries, part);
+    if (xml) writeWordPart(xml, writer);
+  }
+
+  return writer.toText();
+}
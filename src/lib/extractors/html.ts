@@ -0,0 +1,128 @@
+import { readAttribute, tokenizeXml } from "@/lib/extractors/xml";
+
+const BLOCK_ELEMENTS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "tr",
+  "ul",
+]);
+
+const SKIPPED_ELEMENTS = new Set([
+  "head",
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+]);
+
+const HTML_SIGNATURE_REGEX = /^\s*(?:<\?xml[^>]*>\s*)?(?:<!doctype\s+html|<html[\s>])/i;
+const HTML_BODY_REGEX = /<(?:body|div|p|h[1-6]|ul|li|table)\b[^>]*>/gi;
+
+export function looksLikeHtml(text: string): boolean {
+  if (HTML_SIGNATURE_REGEX.test(text)) return true;
+  const start = text.trimStart();
+  const blockCount = text.match(HTML_BODY_REGEX)?.length ?? 0;
+  return start.startsWith("<") && blockCount >= 3;
+}
+
+/** The part of a link worth keeping in the text, if any. */
+function linkTarget(href: string): string | null {
+  if (/^https?:\/\//i.test(href)) return href;
+  // Email and phone links keep just the address, without the scheme.
+  const contact = href.match(/^(?:mailto|tel):([^?]*)/i);
+  return contact?.[1].trim() || null;
+}
+
+/**
+ * Converts HTML to plain text, keeping block boundaries as line breaks,
+ * list items as "• " bullets, table cells as tabs and link targets inline so
+ * profile URLs, email addresses and phone numbers remain visible to the
+ * parser.
+ */
+export function extractHtmlText(html: string): string {
+  let output = "";
+  let skipDepth = 0;
+  let preDepth = 0;
+  const links: Array<{ href: string | null; start: number }> = [];
+
+  for (const token of tokenizeXml(html)) {
+    const name = token.type === "text" ? "" : token.name.toLowerCase();
+
+    if (token.type === "text") {
+      if (skipDepth > 0) continue;
+      output += preDepth > 0 ? token.value : token.value.replace(/\s+/g, " ");
+      continue;
+    }
+
+    if (SKIPPED_ELEMENTS.has(name)) {
+      if (token.type === "open" && !token.selfClosing) skipDepth += 1;
+      if (token.type === "close") skipDepth = Math.max(0, skipDepth - 1);
+      continue;
+    }
+    if (skipDepth > 0) continue;
+
+    if (token.type === "close") {
+      if (name === "pre") preDepth = Math.max(0, preDepth - 1);
+      if (name === "td" || name === "th") output += "\t";
+      if (BLOCK_ELEMENTS.has(name)) output += "\n";
+      if (name === "a") {
+        const link = links.pop();
+        const label = link ? output.slice(link.start).trim() : "";
+        const href = link?.href ?? "";
+        const target = linkTarget(href);
+        if (target && !label.includes(target)) {
+          output += label ? ` (${target})` : target;
+        }
+      }
+      continue;
+    }
+
+    if (name === "br") {
+      output += "\n";
+    } else if (name === "li") {
+      output += "\n• ";
+    } else if (name === "a" && !token.selfClosing) {
+      links.push({
+        href: readAttribute(token.attributes, "href"),
+        start: output.length,
+      });
+    } else if (BLOCK_ELEMENTS.has(name)) {
+      output += "\n";
+      if (name === "pre") preDepth += 1;
+    }
+  }
+
+  return output
+    .split("\n")
+    .map((line) => line.replace(/[ \u00a0]+/g, " ").replace(/\t /g, "\t").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,93 @@
+import type { Buffer } from "node:buffer";
+
+import { extractDocxText, isDocx } from "@/lib/extractors/docx";
+import { extractHtmlText, looksLikeHtml } from "@/lib/extractors/html";
+import {
+  extractMarkdownText,
+  looksLikeMarkdown,
+} from "@/lib/extractors/markdown";
+import { extractOdtText, isOdt } from "@/lib/extractors/odt";
+import { extractRtfText } from "@/lib/extractors/rtf";
+import { isZipArchive, readZipEntries } from "@/lib/extractors/zip";
+
+export type ResumeFormat =
+  | "pdf"
+  | "docx"
+  | "odt"
+  | "rtf"
+  | "html"
+  | "markdown"
+  | "text"
+  | "doc";
+
+export type DocumentFormat = Exclude<ResumeFormat, "pdf" | "doc">;
+
+// PDF magic at the start, after at most a BOM and whitespace.
+const PDF_MAGIC_REGEX = /^(?:\xEF\xBB\xBF)?\s*%PDF-/;
+const RTF_MAGIC = "{\\rtf";
+const OLE2_MAGIC = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const SNIFF_LENGTH = 4096;
+
+function startsWithBytes(buffer: Buffer, bytes: number[]): boolean {
+  return bytes.every((byte, index) => buffer[index] === byte);
+}
+
+export function decodeTextBuffer(buffer: Buffer): string | null {
+  if (startsWithBytes(buffer, [0xff, 0xfe])) {
+    return new TextDecoder("utf-16le").decode(buffer.subarray(2));
+  }
+  if (startsWithBytes(buffer, [0xfe, 0xff])) {
+    return new TextDecoder("utf-16be").decode(buffer.subarray(2));
+  }
+  if (buffer.subarray(0, SNIFF_LENGTH).includes(0)) {
+    return null;
+  }
+  const start = startsWithBytes(buffer, [0xef, 0xbb, 0xbf]) ? 3 : 0;
+  return new TextDecoder("utf-8").decode(buffer.subarray(start));
+}
+
+/**
+ * Identifies a resume upload from its leading bytes (and, for text formats,
+ * its content) rather than the browser-supplied MIME type or file name.
+ */
+export function detectResumeFormat(buffer: Buffer): ResumeFormat | null {
+  const head = buffer.subarray(0, 1024).toString("latin1");
+
+  if (PDF_MAGIC_REGEX.test(head)) return "pdf";
+  if (startsWithBytes(buffer, OLE2_MAGIC)) return "doc";
+  if (isZipArchive(buffer)) {
+    const entries = readZipEntries(buffer);
+    if (isDocx(entries)) return "docx";
+    if (isOdt(entries)) return "odt";
+    return null;
+  }
+  if (head.replace(/^\xEF\xBB\xBF/, "").trimStart().startsWith(RTF_MAGIC)) {
+    return "rtf";
+  }
+
+  const text = decodeTextBuffer(buffer);
+  if (text === null) return null;
+  if (looksLikeHtml(text)) return "html";
+  if (looksLikeMarkdown(text)) return "markdown";
+  return "text";
+}
+
+export function extractDocumentText(
+  buffer: Buffer,
+  format: DocumentFormat,
+): string {
+  switch (format) {
+    case "docx":
+      return extractDocxText(buffer);
+    case "odt":
+      return extractOdtText(buffer);
+    case "rtf":
+      return extractRtfText(buffer);
+    case "html":
+      return extractHtmlText(decodeTextBuffer(buffer) ?? "");
+    case "markdown":
+      return extractMarkdownText(decodeTextBuffer(buffer) ?? "");
+    case "text":
+      return decodeTextBuffer(buffer) ?? "";
+  }
+}
@@ -0,0 +1,67 @@
+const ATX_HEADING_REGEX = /^\s{0,3}#{1,6}\s+\S/m;
+const LINK_REGEX = /!?\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+const EMPHASIS_REGEX = /(\*\*|__)(.+?)\1|(?<![\w*])([*_])(?!\s)(.+?)(?<!\s)\3(?![\w*])/g;
+const TABLE_DIVIDER_REGEX = /^\s*\|?\s*:?-{3,}:?\s*(?:\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+export function looksLikeMarkdown(text: string): boolean {
+  return (
+    ATX_HEADING_REGEX.test(text) ||
+    /\[[^\]]+\]\([^)\s]+\)/.test(text) ||
+    /(\*\*|__)[^*_\n]+\1/.test(text)
+  );
+}
+
+function stripInline(line: string): string {
+  return line
+    .replace(LINK_REGEX, (match, label: string, url: string) => {
+      if (match.startsWith("!")) return label;
+      if (!label || label === url) return url;
+      return /^https?:\/\//i.test(url) ? `${label} (${url})` : label;
+    })
+    .replace(EMPHASIS_REGEX, (_match, _a, strong, _b, emphasis) => strong ?? emphasis)
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/<\/?[a-z][^>]*>/gi, "");
+}
+
+/**
+ * Converts Markdown to the plain-text shape the parser expects: headings lose
+ * their hashes, list markers become "• " bullets, links keep their URL and
+ * table rows become tab-separated lines.
+ */
+export function extractMarkdownText(markdown: string): string {
+  let inFence = false;
+
+  return markdown
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .flatMap((line) => {
+      if (/^\s*(?:```|~~~)/.test(line)) {
+        inFence = !inFence;
+        return [];
+      }
+      if (inFence) return [line];
+      if (TABLE_DIVIDER_REGEX.test(line) && line.includes("|")) return [];
+
+      let value = line.replace(/^\s{0,3}>\s?/, "");
+
+      const heading = value.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+      if (heading) return [stripInline(heading[1])];
+
+      const bullet = value.match(/^(\s*)[-*+]\s+(?:\[[ xX]\]\s+)?(.*)$/);
+      if (bullet) return [`${bullet[1]}• ${stripInline(bullet[2])}`];
+
+      if (/^\s*\|.*\|\s*$/.test(value)) {
+        value = value
+          .trim()
+          .replace(/^\||\|$/g, "")
+          .split("|")
+          .map((cell) => cell.trim())
+          .join("\t");
+      }
+
+      return [stripInline(value)];
+    })
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,98 @@
+import type { Buffer } from "node:buffer";
+
+import { createBlockWriter } from "@/lib/extractors/blocks";
+import { readAttribute, tokenizeXml } from "@/lib/extractors/xml";
+import { readZipEntries, readZipText, type ZipEntry } from "@/lib/extractors/zip";
+
+const ODT_MIME_TYPE = "application/vnd.oasis.opendocument.text";
+const PARAGRAPH_ELEMENTS = new Set(["text:p", "text:h"]);
+const SKIPPED_ELEMENTS = new Set([
+  "office:annotation",
+  "text:note-citation",
+  "text:tracked-changes",
+]);
+
+export function isOdt(entries: ZipEntry[]): boolean {
+  return readZipText(entries, "mimetype")?.trim() === ODT_MIME_TYPE;
+}
+
+/**
+ * Reads the text of an OpenDocument text file from its content.xml. Paragraphs
+ * inside list items are written with a "• " prefix.
+ */
+export function extractOdtText(buffer: Buffer): string {
+  const entries = readZipEntries(buffer);
+  const xml = readZipText(entries, "content.xml");
+  if (!xml) {
+    throw new Error("The ODT file is missing its content.xml part.");
+  }
+
+  const writer = createBlockWriter();
+  let listDepth = 0;
+  let paragraphDepth = 0;
+  let skipDepth = 0;
+
+  for (const token of tokenizeXml(xml)) {
+    if (token.type === "text") {
+      if (paragraphDepth > 0 && skipDepth === 0) writer.append(token.value);
+      continue;
+    }
+
+    if (SKIPPED_ELEMENTS.has(token.name)) {
+      if (token.type === "open" && !token.selfClosing) skipDepth += 1;
+      if (token.type === "close") skipDepth = Math.max(0, skipDepth - 1);
+      continue;
+    }
+    if (skipDepth > 0) continue;
+
+    if (token.type === "close") {
+      if (PARAGRAPH_ELEMENTS.has(token.name)) {
+        paragraphDepth = Math.max(0, paragraphDepth - 1);
+        writer.endParagraph({ bullet: listDepth > 0 });
+      } else if (token.name === "text:list-item") {
+        listDepth = Math.max(0, listDepth - 1);
+      } else if (token.name === "table:table-cell") {
+        writer.endCell();
+      } else if (token.name === "table:table-row") {
+        writer.endRow();
+      }
+      continue;
+    }
+
+    if (PARAGRAPH_ELEMENTS.has(token.name)) {
+      writer.beginParagraph();
+      if (token.selfClosing) {
+        writer.endParagraph();
+      } else {
+        paragraphDepth += 1;
+      }
+      continue;
+    }
+
+    switch (token.name) {
+      case "text:list-item":
+        if (!token.selfClosing) listDepth += 1;
+        break;
+      case "text:s": {
+        const count = Number(readAttribute(token.attributes, "text:c") ?? 1);
+        writer.append(" ".repeat(Number.isFinite(count) ? count : 1));
+        break;
+      }
+      case "text:tab":
+        writer.append("\t");
+        break;
+      case "text:line-break":
+        writer.append("\n");
+        break;
+      case "table:table-row":
+        writer.beginRow();
+        break;
+      case "table:table-cell":
+        writer.beginCell();
+        if (token.selfClosing) writer.endCell();
+        break;
+    }
+  }
+
+  return writer.toText();
+}
@@ -0,0 +1,372 @@
+import type { Buffer } from "node:buffer";
+
+import type {
+  PDFPageProxy,
+  TextItem,
+} from "pdfjs-dist/types/src/display/api";
+
+import type { LineStyle } from "@/lib/layout";
+import type { ResumeLink } from "@/lib/links";
+
+export type PdfLayoutLine = LineStyle & {
+  page: number;
+  column: 0 | 1 | 2;
+};
+
+export type PdfExtraction = {
+  text: string;
+  lines: PdfLayoutLine[];
+  links: ResumeLink[];
+};
+
+type PositionedItem = {
+  text: string;
+  x: number;
+  right: number;
+  y: number;
+  fontSize: number;
+  bold: boolean;
+};
+
+type Row = {
+  y: number;
+  items: PositionedItem[];
+};
+
+type LinkAnnotation = {
+  subtype?: string;
+  url?: string;
+  unsafeUrl?: string;
+  rect?: number[];
+};
+
+type FontInfo = {
+  name?: string;
+  bold?: boolean;
+  black?: boolean;
+};
+
+const BOLD_FONT_REGEX = /bold|black|heavy|semibold|demi/i;
+const MIN_GUTTER_WIDTH = 10;
+const GUTTER_ZONE: [number, number] = [0.2, 0.8];
+const MAX_GUTTER_CROSSING = 0.12;
+const MIN_COLUMN_SHARE = 0.2;
+// Share of an item's width that must lie in each column for it to count as
+// spanning both rather than overhanging the gutter.
+const MIN_SPAN_SHARE = 0.25;
+
+function readFontBold(page: PDFPageProxy, fontName: string): boolean {
+  try {
+    const font = page.commonObjs.get(fontName) as FontInfo | null;
+    if (!font) return BOLD_FONT_REGEX.test(fontName);
+    return Boolean(font.bold || font.black || BOLD_FONT_REGEX.test(font.name ?? ""));
+  } catch {
+    return BOLD_FONT_REGEX.test(fontName);
+  }
+}
+
+function toPositionedItems(page: PDFPageProxy, items: TextItem[]) {
+  return items
+    .filter((item) => item.str.trim().length > 0)
+    .map((item) => {
+      const [, , c, d, x, y] = item.transform as number[];
+      const fontSize = Math.hypot(c, d) || item.height || 10;
+      return {
+        text: item.str,
+        x,
+        right: x + item.width,
+        y,
+        fontSize,
+        bold: readFontBold(page, item.fontName),
+      };
+    });
+}
+
+function readLinkLabel(rect: number[], items: PositionedItem[]): string | null {
+  const [x1, y1, x2, y2] = rect;
+  const label = items
+    .filter((item) => {
+      const middle = item.y + item.fontSize * 0.3;
+      return (
+        middle >= Math.min(y1, y2) - 2 &&
+        middle <= Math.max(y1, y2) + 2 &&
+        item.right > Math.min(x1, x2) &&
+        item.x < Math.max(x1, x2)
+      );
+    })
+    .sort((a, b) => b.y - a.y || a.x - b.x)
+    .map((item) => item.text)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return label || null;
+}
+
+/**
+ * Collects URI link annotations, which is where clickable "GitHub" or
+ * "Portfolio" labels keep their real target.
+ */
+function collectLinks(
+  annotations: LinkAnnotation[],
+  items: PositionedItem[],
+): ResumeLink[] {
+  return annotations
+    .filter((annotation) => annotation.subtype === "Link")
+    .map((annotation) => ({
+      url: (annotation.url ?? annotation.unsafeUrl ?? "").trim(),
+      label: annotation.rect ? readLinkLabel(annotation.rect, items) : null,
+    }))
+    .filter((link) => link.url.length > 0);
+}
+
+function groupRows(items: PositionedItem[]): Row[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: Row[] = [];
+
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    const tolerance = Math.max(2, item.fontSize * 0.45);
+    if (row && Math.abs(row.y - item.y) <= tolerance) {
+      row.items.push(item);
+      continue;
+    }
+    rows.push({ y: item.y, items: [item] });
+  }
+
+  for (const row of rows) {
+    row.items.sort((a, b) => a.x - b.x);
+  }
+
+  return rows;
+}
+
+/**
+ * Looks for a vertical strip in the middle of the page that (almost) no row
+ * crosses while enough rows sit on each side of it: the gutter of a
+ * two-column layout. Full-width rows such as the name banner may cross it.
+ * Every open strip is checked, because the margin after a column of short
+ * items can be wider than the real gutter.
+ */
+function findGutter(rows: Row[], pageWidth: number): [number, number] | null {
+  if (rows.length < 6 || pageWidth <= 0) return null;
+
+  const bins = new Array<number>(Math.ceil(pageWidth) + 1).fill(0);
+  for (const row of rows) {
+    const covered = new Set<number>();
+    for (const item of row.items) {
+      const start = Math.max(0, Math.floor(item.x));
+      const end = Math.min(bins.length - 1, Math.ceil(item.right));
+      for (let bin = start; bin <= end; bin += 1) covered.add(bin);
+    }
+    covered.forEach((bin) => {
+      bins[bin] += 1;
+    });
+  }
+
+  const maxCrossing = Math.floor(rows.length * MAX_GUTTER_CROSSING);
+  const zoneStart = Math.floor(pageWidth * GUTTER_ZONE[0]);
+  const zoneEnd = Math.ceil(pageWidth * GUTTER_ZONE[1]);
+  const minRows = rows.length * MIN_COLUMN_SHARE;
+
+  const countRows = (test: (item: PositionedItem) => boolean) =>
+    rows.filter((row) => row.items.some(test)).length;
+  const splitsColumns = ([gutterStart, gutterEnd]: [number, number]) =>
+    countRows((item) => item.right <= gutterStart + 1) >= minRows &&
+    countRows((item) => item.x >= gutterEnd - 1) >= minRows;
+
+  let best: [number, number] | null = null;
+  let runStart: number | null = null;
+
+  for (let bin = zoneStart; bin <= zoneEnd + 1; bin += 1) {
+    const open = bin <= zoneEnd && bins[bin] <= maxCrossing;
+    if (open && runStart === null) runStart = bin;
+    if (!open && runStart !== null) {
+      const run: [number, number] = [runStart, bin];
+      if (
+        bin - runStart >= MIN_GUTTER_WIDTH &&
+        (!best || bin - runStart > best[1] - best[0]) &&
+        splitsColumns(run)
+      ) {
+        best = run;
+      }
+      runStart = null;
+    }
+  }
+
+  return best;
+}
+
+function buildLine(
+  items: PositionedItem[],
+  page: number,
+  column: PdfLayoutLine["column"],
+): PdfLayoutLine {
+  let text = "";
+  let previous: PositionedItem | null = null;
+  let boldChars = 0;
+  let totalChars = 0;
+  let fontSize = 0;
+
+  for (const item of items) {
+    if (previous) {
+      const gap = item.x - previous.right;
+      if (gap > item.fontSize * 2.5) {
+        text += "\t";
+      } else if (
+        gap > item.fontSize * 0.15 &&
+        !text.endsWith(" ") &&
+        !item.text.startsWith(" ")
+      ) {
+        text += " ";
+      }
+    }
+    text += item.text;
+    totalChars += item.text.length;
+    if (item.bold) boldChars += item.text.length;
+    fontSize = Math.max(fontSize, item.fontSize);
+    previous = item;
+  }
+
+  return {
+    text: text.replace(/ {2,}/g, " ").trim(),
+    fontSize: Math.round(fontSize * 10) / 10,
+    bold: totalChars > 0 && boldChars / totalChars >= 0.6,
+    page,
+    column,
+  };
+}
+
+function appendColumn(
+  output: Array<PdfLayoutLine | null>,
+  rows: Array<{ y: number; items: PositionedItem[] }>,
+  page: number,
+  column: PdfLayoutLine["column"],
+) {
+  let previousY: number | null = null;
+  let previousSize = 0;
+
+  for (const row of rows) {
+    if (!row.items.length) continue;
+    const line = buildLine(row.items, page, column);
+    if (
+      previousY !== null &&
+      previousY - row.y > Math.max(previousSize, line.fontSize) * 1.9
+    ) {
+      output.push(null);
+    }
+    output.push(line);
+    previousY = row.y;
+    previousSize = line.fontSize;
+  }
+}
+
+function orderPage(
+  rows: Row[],
+  pageWidth: number,
+  page: number,
+): Array<PdfLayoutLine | null> {
+  const output: Array<PdfLayoutLine | null> = [];
+  const gutter = findGutter(rows, pageWidth);
+
+  if (!gutter) {
+    appendColumn(output, rows, page, 0);
+    return output;
+  }
+
+  const [gutterStart, gutterEnd] = gutter;
+  let left: Row[] = [];
+  let right: Row[] = [];
+
+  const flush = () => {
+    if (left.length) appendColumn(output, left, page, 1);
+    if (left.length && right.length) output.push(null);
+    if (right.length) appendColumn(output, right, page, 2);
+    if (left.length || right.length) output.push(null);
+    left = [];
+    right = [];
+  };
+
+  const gutterMiddle = (gutterStart + gutterEnd) / 2;
+  const spansBoth = (item: PositionedItem) => {
+    const width = Math.max(1, item.right - item.x);
+    return (
+      (gutterStart - item.x) / width >= MIN_SPAN_SHARE &&
+      (item.right - gutterEnd) / width >= MIN_SPAN_SHARE
+    );
+  };
+  // Items overhanging the gutter belong to the column holding most of them.
+  const isLeft = (item: PositionedItem) =>
+    Math.min(item.right, gutterMiddle) - item.x >=
+    item.right - Math.max(item.x, gutterMiddle);
+
+  for (const row of rows) {
+    if (row.items.some(spansBoth)) {
+      flush();
+      appendColumn(output, [row], page, 0);
+      continue;
+    }
+
+    const leftItems = row.items.filter(isLeft);
+    const rightItems = row.items.filter((item) => !isLeft(item));
+    if (leftItems.length) left.push({ y: row.y, items: leftItems });
+    if (rightItems.length) right.push({ y: row.y, items: rightItems });
+  }
+
+  flush();
+  return output;
+}
+
+/**
+ * Extracts PDF text in reading order using pdf.js text positions. Rows are
+ * rebuilt from baselines, two-column pages are read column by column, and
+ * each line keeps its font size and a bold hint for heading detection. Link
+ * annotations are returned separately with the text they cover.
+ */
+export async function extractPdfLayout(buffer: Buffer): Promise<PdfExtraction> {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.js");
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: 0,
+  }).promise;
+
+  const ordered: Array<PdfLayoutLine | null> = [];
+  const links: ResumeLink[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber += 1) {
+      const page = await document.getPage(pageNumber);
+      await page.getOperatorList();
+      const content = await page.getTextContent();
+      const items = content.items.filter(
+        (item): item is TextItem => "str" in item,
+      );
+      const positioned = toPositionedItems(page, items);
+      const rows = groupRows(positioned);
+      const { width } = page.getViewport({ scale: 1 });
+      const annotations = (await page.getAnnotations()) as LinkAnnotation[];
+      links.push(...collectLinks(annotations, positioned));
+
+      if (ordered.length) ordered.push(null);
+      ordered.push(...orderPage(rows, width, pageNumber));
+      page.cleanup();
+    }
+  } finally {
+    await document.destroy();
+  }
+
+  const lines = ordered.filter((line): line is PdfLayoutLine => line !== null);
+  const text = ordered
+    .map((line) => line?.text ?? "")
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  const uniqueLinks = links.filter(
+    (link, index) => links.findIndex((other) => other.url === link.url) === index,
+  );
+
+  return { text, lines, links: uniqueLinks };
+}
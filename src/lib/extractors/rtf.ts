@@ -0,0 +1,167 @@
+import { Buffer } from "node:buffer";
+
+const SKIPPED_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "info",
+  "pict",
+  "object",
+  "themedata",
+  "colorschememapping",
+  "datastore",
+  "latentstyles",
+  "listtable",
+  "listoverridetable",
+  "rsidtbl",
+  "generator",
+  "xmlnstbl",
+  "mmathPr",
+]);
+
+const LIST_MARKER_DESTINATIONS = new Set(["pntext", "listtext"]);
+
+const CONTROL_WORD_TEXT: Record<string, string> = {
+  par: "\n",
+  line: "\n",
+  sect: "\n\n",
+  page: "\n\n",
+  row: "\n",
+  cell: "\t",
+  tab: "\t",
+  bullet: "•",
+  emdash: "—",
+  endash: "–",
+  emspace: " ",
+  enspace: " ",
+  lquote: "‘",
+  rquote: "’",
+  ldblquote: "“",
+  rdblquote: "”",
+};
+
+const CONTROL_SYMBOL_TEXT: Record<string, string> = {
+  "~": " ",
+  "-": "",
+  _: "-",
+  "\\": "\\",
+  "{": "{",
+  "}": "}",
+};
+
+type GroupState = {
+  skip: boolean;
+  unicodeSkip: number;
+};
+
+const windows1252 = new TextDecoder("windows-1252");
+
+/**
+ * Converts RTF to plain text. Paragraph and line controls become newlines,
+ * list markers ("\pntext"/"\listtext" groups) become "• ", and font, style,
+ * picture and metadata destinations are dropped.
+ */
+export function extractRtfText(buffer: Buffer): string {
+  const source = buffer.toString("latin1");
+  const output: string[] = [];
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let pendingSkip = 0;
+  let groupStart = false;
+  let index = 0;
+
+  const write = (text: string) => {
+    if (state.skip) return;
+    if (pendingSkip > 0) {
+      const dropped = Math.min(pendingSkip, text.length);
+      pendingSkip -= dropped;
+      text = text.slice(dropped);
+    }
+    if (text) output.push(text);
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === "{") {
+      stack.push(state);
+      state = { ...state };
+      groupStart = true;
+      index += 1;
+      continue;
+    }
+
+    if (char === "}") {
+      state = stack.pop() ?? { skip: false, unicodeSkip: 1 };
+      groupStart = false;
+      index += 1;
+      continue;
+    }
+
+    if (char === "\\") {
+      const next = source[index + 1] ?? "";
+
+      if (next === "'") {
+        const hex = source.slice(index + 2, index + 4);
+        write(windows1252.decode(Buffer.from([parseInt(hex, 16) || 0x3f])));
+        index += 4;
+        groupStart = false;
+        continue;
+      }
+
+      if (next === "*") {
+        if (groupStart) state.skip = true;
+        index += 2;
+        continue;
+      }
+
+      const word = source.slice(index + 1).match(/^([a-zA-Z]+)(-?\d+)? ?/);
+      if (!word) {
+        write(CONTROL_SYMBOL_TEXT[next] ?? "");
+        if (next === "\n" || next === "\r") write("\n");
+        index += 2;
+        groupStart = false;
+        continue;
+      }
+
+      const [raw, name, parameter] = word;
+      index += 1 + raw.length;
+
+      if (groupStart && SKIPPED_DESTINATIONS.has(name)) {
+        state.skip = true;
+      } else if (groupStart && LIST_MARKER_DESTINATIONS.has(name)) {
+        write("• ");
+        state.skip = true;
+      } else if (name === "u" && parameter !== undefined) {
+        const value = Number(parameter);
+        write(String.fromCharCode(value < 0 ? value + 65536 : value));
+        pendingSkip = state.unicodeSkip;
+      } else if (name === "uc" && parameter !== undefined) {
+        state.unicodeSkip = Number(parameter);
+      } else if (name === "bin" && parameter !== undefined) {
+        index += Number(parameter);
+      } else if (CONTROL_WORD_TEXT[name]) {
+        write(CONTROL_WORD_TEXT[name]);
+      }
+
+      groupStart = false;
+      continue;
+    }
+
+    if (char === "\r" || char === "\n") {
+      index += 1;
+      continue;
+    }
+
+    write(char);
+    groupStart = false;
+    index += 1;
+  }
+
+  return output
+    .join("")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/•\s*\t\s*/g, "• ")
+    .trim();
+}
@@ -0,0 +1,88 @@
+export type XmlToken =
+  | { type: "open"; name: string; attributes: string; selfClosing: boolean }
+  | { type: "close"; name: string }
+  | { type: "text"; value: string };
+
+const TAG_REGEX = /<(\/?)([A-Za-z_][\w:.-]*)([^>]*?)(\/?)>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  bull: "•",
+  middot: "·",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+};
+
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === "#") {
+      const codePoint =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint <= 0x10ffff
+        ? String.fromCodePoint(codePoint)
+        : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+export function readAttribute(attributes: string, name: string): string | null {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = attributes.match(
+    new RegExp(`(?:^|\\s)${escaped}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`),
+  );
+  if (!match) return null;
+  return decodeEntities(match[1] ?? match[2] ?? "");
+}
+
+/**
+ * A forgiving tokenizer for the XML/HTML we read out of office documents.
+ * It does not validate nesting; callers track the elements they care about.
+ */
+export function* tokenizeXml(source: string): Generator<XmlToken> {
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG_REGEX)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      yield { type: "text", value: decodeEntities(source.slice(lastIndex, index)) };
+    }
+    lastIndex = index + match[0].length;
+
+    if (match[5] !== undefined) {
+      yield { type: "text", value: match[5] };
+      continue;
+    }
+    if (!match[2]) continue;
+
+    if (match[1]) {
+      yield { type: "close", name: match[2] };
+    } else {
+      yield {
+        type: "open",
+        name: match[2],
+        attributes: match[3] ?? "",
+        selfClosing: Boolean(match[4]),
+      };
+    }
+  }
+
+  if (lastIndex < source.length) {
+    yield { type: "text", value: decodeEntities(source.slice(lastIndex)) };
+  }
+}
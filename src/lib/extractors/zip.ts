@@ -0,0 +1,142 @@
+import { Buffer } from "node:buffer";
+import { inflateRawSync } from "node:zlib";
+
+export type ZipEntry = {
+  name: string;
+  size: number;
+  isDirectory: boolean;
+  read: () => Buffer;
+};
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+const MAX_ENTRY_SIZE = 25 * 1024 * 1024;
+
+/** Thrown for archives whose structure cannot be read. */
+export class CorruptArchiveError extends Error {
+  constructor(detail: string) {
+    super(`The archive is corrupt: ${detail}.`);
+    this.name = "CorruptArchiveError";
+  }
+}
+
+/** Buffer reads past the end of a truncated archive throw RangeErrors. */
+function readOrCorrupt<T>(read: () => T, detail: string): T {
+  try {
+    return read();
+  } catch (error) {
+    if (error instanceof RangeError) throw new CorruptArchiveError(detail);
+    throw error;
+  }
+}
+
+export function isZipArchive(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_HEADER_SIGNATURE;
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const lowerBound = Math.max(0, buffer.length - 22 - MAX_COMMENT_LENGTH);
+  for (let offset = buffer.length - 22; offset >= lowerBound; offset -= 1) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new CorruptArchiveError("no central directory was found");
+}
+
+function readEntryData(
+  buffer: Buffer,
+  localHeaderOffset: number,
+  method: number,
+  compressedSize: number,
+  size: number,
+): Buffer {
+  if (buffer.readUInt32LE(localHeaderOffset) !== LOCAL_HEADER_SIGNATURE) {
+    throw new CorruptArchiveError("invalid local file header");
+  }
+  if (size > MAX_ENTRY_SIZE) {
+    throw new Error("The archive contains a file that is too large to read.");
+  }
+
+  const nameLength = buffer.readUInt16LE(localHeaderOffset + 26);
+  const extraLength = buffer.readUInt16LE(localHeaderOffset + 28);
+  const dataStart = localHeaderOffset + 30 + nameLength + extraLength;
+  const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+  if (method === 0) return Buffer.from(data);
+  if (method === 8) {
+    try {
+      return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE });
+    } catch {
+      throw new CorruptArchiveError("a compressed file could not be inflated");
+    }
+  }
+  throw new Error(`Unsupported compression method ${method} in archive.`);
+}
+
+function listEntries(buffer: Buffer): ZipEntry[] {
+  const endOffset = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported.");
+  }
+
+  const entries: ZipEntry[] = [];
+
+  for (let index = 0; index < entryCount; index += 1) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new CorruptArchiveError("invalid central directory");
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+    const rawName = buffer.subarray(offset + 46, offset + 46 + nameLength);
+    const name = rawName.toString(flags & 0x800 ? "utf-8" : "latin1");
+
+    entries.push({
+      name,
+      size,
+      isDirectory: name.endsWith("/"),
+      read: () =>
+        readOrCorrupt(
+          () =>
+            readEntryData(
+              buffer,
+              localHeaderOffset,
+              method,
+              compressedSize,
+              size,
+            ),
+          `${name} is truncated`,
+        ),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Lists the files in a ZIP archive by reading its central directory. Entry
+ * contents are only inflated when `read` is called. Unreadable archives
+ * throw a CorruptArchiveError.
+ */
+export function readZipEntries(buffer: Buffer): ZipEntry[] {
+  return readOrCorrupt(() => listEntries(buffer), "the file list is truncated");
+}
+
+export function readZipText(entries: ZipEntry[], name: string): string | null {
+  const entry = entries.find((item) => item.name === name);
+  return entry ? entry.read().toString("utf-8") : null;
+}
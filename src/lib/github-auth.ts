@@ -0,0 +1,108 @@
+import { Buffer } from "node:buffer";
+import { createSign } from "node:crypto";
+
+export type GithubAuthMode = "app" | "token" | "anonymous";
+
+export type GithubAuthorization = {
+  mode: GithubAuthMode;
+  header: string | null;
+};
+
+type InstallationToken = {
+  token: string;
+  expiresAt: number;
+};
+
+const GITHUB_API_BASE = "https://api.github.com";
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+let installationToken: InstallationToken | null = null;
+let pendingInstallationToken: Promise<InstallationToken> | null = null;
+
+function readAppConfig() {
+  const appId = process.env.GITHUB_APP_ID?.trim();
+  const installationId = process.env.GITHUB_APP_INSTALLATION_ID?.trim();
+  const privateKey = process.env.GITHUB_APP_PRIVATE_KEY?.replace(/\\n/g, "\n");
+  if (!appId || !installationId || !privateKey) return null;
+  return { appId, installationId, privateKey };
+}
+
+function base64Url(value: string | Buffer) {
+  return Buffer.from(value).toString("base64url");
+}
+
+function createAppJwt(appId: string, privateKey: string) {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  // GitHub allows at most ten minutes; backdate slightly for clock drift.
+  const payload = base64Url(
+    JSON.stringify({ iat: now - 60, exp: now + 9 * 60, iss: appId }),
+  );
+  const signature = createSign("RSA-SHA256")
+    .update(`${header}.${payload}`)
+    .sign(privateKey);
+  return `${header}.${payload}.${base64Url(signature)}`;
+}
+
+async function requestInstallationToken(
+  config: NonNullable<ReturnType<typeof readAppConfig>>,
+): Promise<InstallationToken> {
+  const response = await fetch(
+    `${GITHUB_API_BASE}/app/installations/${config.installationId}/access_tokens`,
+    {
+      method: "POST",
+      headers: {
+        Accept: "application/vnd.github+json",
+        Authorization: `Bearer ${createAppJwt(config.appId, config.privateKey)}`,
+        "User-Agent": "ai-resume-helper",
+      },
+      cache: "no-store",
+    },
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      `GitHub App authentication failed with status ${response.status}.`,
+    );
+  }
+
+  const body = (await response.json()) as { token: string; expires_at: string };
+  return { token: body.token, expiresAt: new Date(body.expires_at).getTime() };
+}
+
+async function getInstallationToken(
+  config: NonNullable<ReturnType<typeof readAppConfig>>,
+): Promise<string> {
+  if (
+    installationToken &&
+    installationToken.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()
+  ) {
+    return installationToken.token;
+  }
+
+  pendingInstallationToken ??= requestInstallationToken(config).finally(() => {
+    pendingInstallationToken = null;
+  });
+  installationToken = await pendingInstallationToken;
+  return installationToken.token;
+}
+
+/**
+ * Resolves the credentials for GitHub API calls. A GitHub App installation
+ * (GITHUB_APP_ID, GITHUB_APP_INSTALLATION_ID, GITHUB_APP_PRIVATE_KEY) wins over
+ * a personal GITHUB_TOKEN; without either, requests are anonymous.
+ */
+export async function getGithubAuthorization(): Promise<GithubAuthorization> {
+  const appConfig = readAppConfig();
+  if (appConfig) {
+    const token = await getInstallationToken(appConfig);
+    return { mode: "app", header: `Bearer ${token}` };
+  }
+
+  const token = process.env.GITHUB_TOKEN?.trim();
+  if (token) {
+    return { mode: "token", header: `Bearer ${token}` };
+  }
+
+  return { mode: "anonymous", header: null };
+}
@@ -0,0 +1,339 @@
+import path from "node:path";
+
+import { createCacheStore } from "@/lib/cache";
+import {
+  getGithubAuthorization,
+  type GithubAuthMode,
+} from "@/lib/github-auth";
+
+const GITHUB_API_BASE = "https://api.github.com";
+const GRAPHQL_ENDPOINT = "/graphql";
+const RATE_LIMIT_ENDPOINT = "/rate_limit";
+const DEFAULT_CACHE_TTL_SECONDS = 600;
+const CACHE_TTL_SECONDS = readCacheTtl(process.env.GITHUB_CACHE_TTL_SECONDS);
+
+export type GithubRequestOptions = {
+  /** Revalidate cached responses with GitHub even if they are still fresh. */
+  refresh?: boolean;
+};
+
+export type GithubRateLimit = {
+  resource: string;
+  limit: number;
+  remaining: number;
+  resetAt: string;
+  authMode: GithubAuthMode;
+};
+
+type CachedResponse = {
+  etag: string | null;
+  body: string;
+  contentType: string;
+  fetchedAt: number;
+};
+
+type GithubRequest = {
+  accept: string;
+  etag?: string | null;
+  body?: string;
+};
+
+const responseCache = createCacheStore<CachedResponse>(
+  process.env.GITHUB_CACHE_STORE === "file" ? "file" : "memory",
+  process.env.GITHUB_CACHE_DIR ?? path.join(process.cwd(), ".cache", "github"),
+);
+
+function readCacheTtl(value: string | undefined) {
+  const seconds = Number(value);
+  return value !== undefined && Number.isFinite(seconds) && seconds >= 0
+    ? seconds
+    : DEFAULT_CACHE_TTL_SECONDS;
+}
+
+export class GithubRateLimitError extends Error {
+  readonly rateLimit: GithubRateLimit;
+
+  constructor(rateLimit: GithubRateLimit) {
+    const minutes = Math.max(
+      1,
+      Math.ceil((new Date(rateLimit.resetAt).getTime() - Date.now()) / 60000),
+    );
+    super(
+      `GitHub API rate limit reached. Try again in ${minutes} minute${minutes > 1 ? "s" : ""}.`,
+    );
+    this.name = "GithubRateLimitError";
+    this.rateLimit = rateLimit;
+  }
+
+  get retryAfterSeconds() {
+    const delta = new Date(this.rateLimit.resetAt).getTime() - Date.now();
+    return Math.max(1, Math.ceil(delta / 1000));
+  }
+}
+
+const latestRateLimits = new Map<string, GithubRateLimit>();
+
+export function getLatestRateLimit(resource = "core"): GithubRateLimit | null {
+  return latestRateLimits.get(resource) ?? null;
+}
+
+function resourceFor(endpoint: string) {
+  if (endpoint === GRAPHQL_ENDPOINT) return "graphql";
+  if (endpoint.startsWith("/search/")) return "search";
+  return "core";
+}
+
+function readRateLimit(
+  response: Response,
+  resource: string,
+  authMode: GithubAuthMode,
+): GithubRateLimit | null {
+  const limit = response.headers.get("x-ratelimit-limit");
+  const remaining = response.headers.get("x-ratelimit-remaining");
+  const reset = response.headers.get("x-ratelimit-reset");
+  if (limit === null || remaining === null || reset === null) return null;
+  return {
+    resource: response.headers.get("x-ratelimit-resource") ?? resource,
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetAt: new Date(Number(reset) * 1000).toISOString(),
+    authMode,
+  };
+}
+
+function isRateLimited(response: Response, rateLimit: GithubRateLimit | null) {
+  if (response.status === 429) return true;
+  if (response.status !== 403) return false;
+  return rateLimit?.remaining === 0 || response.headers.has("retry-after");
+}
+
+async function sendGithubRequest(endpoint: string, request: GithubRequest) {
+  const resource = resourceFor(endpoint);
+  const known = latestRateLimits.get(resource);
+  if (
+    endpoint !== RATE_LIMIT_ENDPOINT &&
+    known?.remaining === 0 &&
+    new Date(known.resetAt).getTime() > Date.now()
+  ) {
+    throw new GithubRateLimitError(known);
+  }
+
+  const authorization = await getGithubAuthorization();
+  const response = await fetch(`${GITHUB_API_BASE}${endpoint}`, {
+    method: request.body === undefined ? "GET" : "POST",
+    headers: {
+      Accept: request.accept,
+      "User-Agent": "ai-resume-helper",
+      ...(authorization.header ? { Authorization: authorization.header } : {}),
+      ...(request.etag ? { "If-None-Match": request.etag } : {}),
+      ...(request.body !== undefined
+        ? { "Content-Type": "application/json" }
+        : {}),
+    },
+    body: request.body,
+    cache: "no-store",
+  });
+
+  const rateLimit = readRateLimit(response, resource, authorization.mode);
+  if (rateLimit) latestRateLimits.set(rateLimit.resource, rateLimit);
+
+  if (isRateLimited(response, rateLimit)) {
+    const retryAfter = Number(response.headers.get("retry-after"));
+    throw new GithubRateLimitError({
+      resource: rateLimit?.resource ?? resource,
+      limit: rateLimit?.limit ?? 0,
+      remaining: 0,
+      resetAt:
+        retryAfter > 0
+          ? new Date(Date.now() + retryAfter * 1000).toISOString()
+          : (rateLimit?.resetAt ?? new Date(Date.now() + 60 * 1000).toISOString()),
+      authMode: authorization.mode,
+    });
+  }
+
+  return response;
+}
+
+function toCachedResponse(entry: CachedResponse) {
+  return new Response(entry.body, {
+    status: 200,
+    headers: { "Content-Type": entry.contentType },
+  });
+}
+
+function isFresh(entry: CachedResponse, options: GithubRequestOptions) {
+  return (
+    !options.refresh && Date.now() - entry.fetchedAt < CACHE_TTL_SECONDS * 1000
+  );
+}
+
+/**
+ * Sends an authenticated GET request to the GitHub REST API through the
+ * response cache. Fresh entries are served without a request; stale ones are
+ * revalidated with `If-None-Match`, and a 304 (which does not count against
+ * the rate limit) renews them. Once the quota is known to be spent, calls
+ * fail fast with a GithubRateLimitError unless a cached copy can be served.
+ */
+export async function githubFetch(
+  endpoint: string,
+  accept: string,
+  options: GithubRequestOptions = {},
+) {
+  if (endpoint === RATE_LIMIT_ENDPOINT) {
+    return sendGithubRequest(endpoint, { accept });
+  }
+
+  const key = `${accept} ${endpoint.toLowerCase()}`;
+  const cached = await responseCache.get(key);
+
+  if (cached && isFresh(cached, options)) {
+    return toCachedResponse(cached);
+  }
+
+  let response: Response;
+  try {
+    response = await sendGithubRequest(endpoint, {
+      accept,
+      etag: cached?.etag ?? null,
+    });
+  } catch (error) {
+    if (error instanceof GithubRateLimitError && cached) {
+      return toCachedResponse(cached);
+    }
+    throw error;
+  }
+
+  if (response.status === 304 && cached) {
+    await responseCache.set(key, { ...cached, fetchedAt: Date.now() });
+    return toCachedResponse(cached);
+  }
+
+  const etag = response.headers.get("etag");
+  if (response.status !== 200 || !etag) return response;
+
+  const entry: CachedResponse = {
+    etag,
+    body: await response.text(),
+    contentType: response.headers.get("content-type") ?? "application/json",
+    fetchedAt: Date.now(),
+  };
+  await responseCache.set(key, entry);
+  return toCachedResponse(entry);
+}
+
+export async function fetchGithubJson<T>(
+  endpoint: string,
+  options: GithubRequestOptions = {},
+) {
+  const response = await githubFetch(
+    endpoint,
+    "application/vnd.github+json",
+    options,
+  );
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    const message =
+      typeof body?.message === "string"
+        ? body.message
+        : `GitHub request failed with status ${response.status}`;
+    throw new Error(message);
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Runs a GraphQL v4 query. GraphQL responses carry no ETags, so results are
+ * cached for the TTL only. The API requires credentials; callers should
+ * check the auth mode first.
+ */
+export async function githubGraphql<T>(
+  query: string,
+  variables: Record<string, unknown>,
+  options: GithubRequestOptions = {},
+): Promise<T> {
+  const body = JSON.stringify({ query, variables });
+  const key = `graphql ${body}`;
+  const cached = await responseCache.get(key);
+
+  if (cached && isFresh(cached, options)) {
+    return (JSON.parse(cached.body) as { data: T }).data;
+  }
+
+  let response: Response;
+  try {
+    response = await sendGithubRequest(GRAPHQL_ENDPOINT, {
+      accept: "application/vnd.github+json",
+      body,
+    });
+  } catch (error) {
+    if (error instanceof GithubRateLimitError && cached) {
+      return (JSON.parse(cached.body) as { data: T }).data;
+    }
+    throw error;
+  }
+
+  const text = await response.text();
+  let payload: {
+    data?: T | null;
+    errors?: Array<{ type?: string; message?: string }>;
+    message?: string;
+  } = {};
+  // Proxies and outages answer with HTML; those fail on the status below.
+  if (response.headers.get("content-type")?.includes("json")) {
+    try {
+      payload = JSON.parse(text || "{}");
+    } catch {
+      payload = {};
+    }
+  }
+
+  if (payload.errors?.some((error) => error.type === "RATE_LIMITED")) {
+    const known = getLatestRateLimit("graphql");
+    throw new GithubRateLimitError({
+      resource: "graphql",
+      limit: known?.limit ?? 0,
+      remaining: 0,
+      resetAt: known?.resetAt ?? new Date(Date.now() + 60 * 1000).toISOString(),
+      authMode: known?.authMode ?? "anonymous",
+    });
+  }
+
+  if (!response.ok || !payload.data || payload.errors?.length) {
+    throw new Error(
+      payload.errors?.[0]?.message ??
+        payload.message ??
+        `GitHub GraphQL request failed with status ${response.status}`,
+    );
+  }
+
+  await responseCache.set(key, {
+    etag: null,
+    body: text,
+    contentType: "application/json",
+    fetchedAt: Date.now(),
+  });
+  return payload.data;
+}
+
+/**
+ * Reads the current core quota from `/rate_limit`, which does not count
+ * against the limit itself.
+ */
+export async function fetchRateLimit(): Promise<GithubRateLimit> {
+  const authorization = await getGithubAuthorization();
+  const body = await fetchGithubJson<{
+    resources: { core: { limit: number; remaining: number; reset: number } };
+  }>(RATE_LIMIT_ENDPOINT);
+  const { core } = body.resources;
+  const rateLimit = {
+    resource: "core",
+    limit: core.limit,
+    remaining: core.remaining,
+    resetAt: new Date(core.reset * 1000).toISOString(),
+    authMode: authorization.mode,
+  };
+  latestRateLimits.set("core", rateLimit);
+  return rateLimit;
+}
@@ -0,0 +1,440 @@
+import {
+  toContributionCalendar,
+  type GraphqlContributionCalendar,
+} from "@/lib/contributions";
+import {
+  buildGithubInsights,
+  README_EXCERPT_LENGTH,
+  screenRepositories,
+  selectLanguageRepositories,
+  selectRankedRepositories,
+  type GithubActivity,
+  type GithubInsightOptions,
+  type GithubInsights,
+  type GithubLanguageBytes,
+  type GithubRepoInsight,
+  type GithubRepository,
+} from "@/lib/github";
+import { getGithubAuthorization } from "@/lib/github-auth";
+import {
+  githubGraphql,
+  GithubRateLimitError,
+  type GithubRequestOptions,
+} from "@/lib/github-client";
+import { weightLanguageBytes } from "@/lib/languages";
+
+type RepositoryNode = {
+  name: string;
+  nameWithOwner: string;
+  url: string;
+  description: string | null;
+  stargazerCount: number;
+  forkCount: number;
+  homepageUrl: string | null;
+  createdAt: string;
+  updatedAt: string;
+  pushedAt: string | null;
+  isFork: boolean;
+  isArchived: boolean;
+  primaryLanguage: { name: string } | null;
+  templateRepository: { nameWithOwner: string } | null;
+  issues: { totalCount: number };
+  pullRequests: { totalCount: number };
+  repositoryTopics: { nodes: Array<{ topic: { name: string } }> };
+  languages: { edges: Array<{ size: number; node: { name: string } }> };
+};
+
+type ProfileQueryResult = {
+  user: {
+    login: string;
+    name: string | null;
+    avatarUrl: string;
+    url: string;
+    bio: string | null;
+    createdAt: string;
+    followers: { totalCount: number };
+    following: { totalCount: number };
+    gists: { totalCount: number };
+    repositories: { totalCount: number; nodes: RepositoryNode[] };
+    pinnedItems: { nodes: Array<RepositoryNode | Record<string, never>> };
+    contributionsCollection: {
+      contributionCalendar: GraphqlContributionCalendar;
+      commitContributionsByRepository: Array<{
+        repository: { nameWithOwner: string; url: string };
+        contributions: {
+          totalCount: number;
+          nodes: Array<{ occurredAt: string; commitCount: number }>;
+        };
+      }>;
+      pullRequestContributions: {
+        nodes: Array<{
+          occurredAt: string;
+          pullRequest: {
+            title: string;
+            url: string;
+            merged: boolean;
+            repository: { nameWithOwner: string };
+          };
+        }>;
+      };
+      issueContributions: {
+        nodes: Array<{
+          occurredAt: string;
+          issue: { title: string; url: string; repository: { nameWithOwner: string } };
+        }>;
+      };
+      repositoryContributions: {
+        nodes: Array<{
+          occurredAt: string;
+          repository: { nameWithOwner: string; url: string };
+        }>;
+      };
+    };
+  } | null;
+};
+
+type ReadmeObject = { text: string | null } | null;
+
+const README_PATHS = ["README.md", "readme.md", "README", "README.rst"];
+const PINNED_LIMIT = 6;
+
+const PROFILE_QUERY = `
+  query ProfileInsights($login: String!) {
+    user(login: $login) {
+      login
+      name
+      avatarUrl
+      url
+      bio
+      createdAt
+      followers { totalCount }
+      following { totalCount }
+      gists(privacy: PUBLIC) { totalCount }
+      repositories(
+        first: 100
+        ownerAffiliations: OWNER
+        privacy: PUBLIC
+        orderBy: { field: UPDATED_AT, direction: DESC }
+      ) {
+        totalCount
+        nodes { ...RepositoryFields }
+      }
+      pinnedItems(first: ${PINNED_LIMIT}, types: REPOSITORY) {
+        nodes { ... on Repository { ...RepositoryFields } }
+      }
+      contributionsCollection {
+        contributionCalendar {
+          totalContributions
+          weeks { contributionDays { date weekday contributionCount } }
+        }
+        commitContributionsByRepository(maxRepositories: 5) {
+          repository { nameWithOwner url }
+          contributions(first: 1, orderBy: { field: OCCURRED_AT, direction: DESC }) {
+            totalCount
+            nodes { occurredAt commitCount }
+          }
+        }
+        pullRequestContributions(first: 5, orderBy: { direction: DESC }) {
+          nodes {
+            occurredAt
+            pullRequest { title url merged repository { nameWithOwner } }
+          }
+        }
+        issueContributions(first: 5, orderBy: { direction: DESC }) {
+          nodes {
+            occurredAt
+            issue { title url repository { nameWithOwner } }
+          }
+        }
+        repositoryContributions(first: 5, orderBy: { direction: DESC }) {
+          nodes { occurredAt repository { nameWithOwner url } }
+        }
+      }
+    }
+  }
+
+  fragment RepositoryFields on Repository {
+    name
+    nameWithOwner
+    url
+    description
+    stargazerCount
+    forkCount
+    homepageUrl
+    createdAt
+    updatedAt
+    pushedAt
+    isFork
+    isArchived
+    primaryLanguage { name }
+    templateRepository { nameWithOwner }
+    issues(states: OPEN) { totalCount }
+    pullRequests(states: OPEN) { totalCount }
+    repositoryTopics(first: 10) { nodes { topic { name } } }
+    languages(first: 10, orderBy: { field: SIZE, direction: DESC }) {
+      edges { size node { name } }
+    }
+  }
+`;
+
+function isRepositoryNode(
+  node: RepositoryNode | Record<string, never>,
+): node is RepositoryNode {
+  return "nameWithOwner" in node;
+}
+
+function toRepository(node: RepositoryNode): GithubRepository {
+  return {
+    name: node.name,
+    html_url: node.url,
+    description: node.description,
+    stargazers_count: node.stargazerCount,
+    forks_count: node.forkCount,
+    // REST counts open pull requests as issues too.
+    open_issues_count: node.issues.totalCount + node.pullRequests.totalCount,
+    language: node.primaryLanguage?.name ?? null,
+    topics: node.repositoryTopics.nodes.map((item) => item.topic.name),
+    homepage: node.homepageUrl || null,
+    created_at: node.createdAt,
+    updated_at: node.updatedAt,
+    pushed_at: node.pushedAt,
+    fork: node.isFork,
+    archived: node.isArchived,
+    template_repository: node.templateRepository
+      ? { full_name: node.templateRepository.nameWithOwner }
+      : null,
+  };
+}
+
+function sumLanguageBytes(nodes: RepositoryNode[]): GithubLanguageBytes[] {
+  const totals = new Map<string, number>();
+  for (const node of nodes) {
+    for (const edge of node.languages.edges) {
+      totals.set(edge.node.name, (totals.get(edge.node.name) ?? 0) + edge.size);
+    }
+  }
+  return Array.from(totals, ([language, bytes]) => ({ language, bytes })).sort(
+    (a, b) => b.bytes - a.bytes,
+  );
+}
+
+/**
+ * GraphQL has no event feed, so recent activity is rebuilt from the
+ * contributions collection using the same event type names as REST.
+ */
+function toActivity(
+  contributions: NonNullable<
+    ProfileQueryResult["user"]
+  >["contributionsCollection"],
+): GithubActivity[] {
+  const items: GithubActivity[] = [];
+
+  for (const entry of contributions.commitContributionsByRepository) {
+    const latest = entry.contributions.nodes[0];
+    if (!latest) continue;
+    const count = latest.commitCount;
+    items.push({
+      id: `push-${entry.repository.nameWithOwner}-${latest.occurredAt}`,
+      type: "PushEvent",
+      repoName: entry.repository.nameWithOwner,
+      created_at: latest.occurredAt,
+      description: `Pushed ${count} commit${count > 1 ? "s" : ""}`,
+      url: entry.repository.url,
+    });
+  }
+
+  for (const node of contributions.pullRequestContributions.nodes) {
+    items.push({
+      id: `pr-${node.pullRequest.url}`,
+      type: "PullRequestEvent",
+      repoName: node.pullRequest.repository.nameWithOwner,
+      created_at: node.occurredAt,
+      description: `${node.pullRequest.merged ? "merged" : "opened"} pull request ${node.pullRequest.title}`,
+      url: node.pullRequest.url,
+    });
+  }
+
+  for (const node of contributions.issueContributions.nodes) {
+    items.push({
+      id: `issue-${node.issue.url}`,
+      type: "IssuesEvent",
+      repoName: node.issue.repository.nameWithOwner,
+      created_at: node.occurredAt,
+      description: `opened issue ${node.issue.title}`,
+      url: node.issue.url,
+    });
+  }
+
+  for (const node of contributions.repositoryContributions.nodes) {
+    items.push({
+      id: `create-${node.repository.nameWithOwner}`,
+      type: "CreateEvent",
+      repoName: node.repository.nameWithOwner,
+      created_at: node.occurredAt,
+      description: "Created repository",
+      url: node.repository.url,
+    });
+  }
+
+  return items.sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+function buildReadmeQuery(count: number) {
+  const variables = Array.from(
+    { length: count },
+    (_, index) => `$o${index}: String!, $n${index}: String!`,
+  ).join(", ");
+  const objects = README_PATHS.map(
+    (file, index) =>
+      `f${index}: object(expression: "HEAD:${file}") { ... on Blob { text } }`,
+  ).join(" ");
+  const repositories = Array.from(
+    { length: count },
+    (_, index) =>
+      `r${index}: repository(owner: $o${index}, name: $n${index}) { ${objects} }`,
+  ).join("\n");
+  return `query Readmes(${variables}) {\n${repositories}\n}`;
+}
+
+/**
+ * Fetches README blobs for several repositories in one aliased query. A
+ * failure here only costs the excerpts, not the whole profile.
+ */
+async function fetchReadmes(
+  nameWithOwners: string[],
+  options: GithubRequestOptions,
+): Promise<Map<string, string | null>> {
+  const readmes = new Map<string, string | null>();
+  if (!nameWithOwners.length) return readmes;
+
+  const variables: Record<string, string> = {};
+  nameWithOwners.forEach((nameWithOwner, index) => {
+    const [owner, name] = nameWithOwner.split("/");
+    variables[`o${index}`] = owner;
+    variables[`n${index}`] = name;
+  });
+
+  try {
+    const data = await githubGraphql<
+      Record<string, Record<string, ReadmeObject> | null>
+    >(buildReadmeQuery(nameWithOwners.length), variables, options);
+
+    nameWithOwners.forEach((nameWithOwner, index) => {
+      const objects = data[`r${index}`] ?? {};
+      const text = Object.values(objects).find((blob) => blob?.text)?.text;
+      readmes.set(
+        nameWithOwner,
+        text ? text.slice(0, README_EXCERPT_LENGTH) : null,
+      );
+    });
+  } catch (error) {
+    if (error instanceof GithubRateLimitError) throw error;
+    console.error("Failed to load READMEs", error);
+  }
+
+  return readmes;
+}
+
+export async function canUseGraphql(): Promise<boolean> {
+  const authorization = await getGithubAuthorization();
+  return authorization.mode !== "anonymous";
+}
+
+/**
+ * Loads the analytics payload from the GraphQL v4 API in two queries: one
+ * for the profile, repositories (with language byte sizes), pinned items and
+ * contribution calendar, and one for the README blobs of the repositories
+ * shown. Requires GitHub credentials.
+ */
+export async function fetchGraphqlInsights(
+  username: string,
+  repoLimit: number,
+  options: GithubInsightOptions = {},
+): Promise<GithubInsights> {
+  const { user } = await githubGraphql<ProfileQueryResult>(
+    PROFILE_QUERY,
+    { login: username },
+    options,
+  );
+
+  if (!user) {
+    throw new Error(`GitHub user ${username} was not found.`);
+  }
+
+  const pinnedNodes = user.pinnedItems.nodes.filter(isRepositoryNode);
+  const screened = screenRepositories(
+    user.repositories.nodes.map((node) => ({ ...toRepository(node), node })),
+    options,
+  );
+  // Pinned READMEs are loaded in the same query as the ranking candidates.
+  const readmes = new Map<string, string | null>();
+  const ranked = await selectRankedRepositories(
+    screened.included,
+    repoLimit,
+    options,
+    async (candidates) => {
+      const fetched = await fetchReadmes(
+        Array.from(
+          new Set(
+            [...candidates.map((repo) => repo.node), ...pinnedNodes].map(
+              (node) => node.nameWithOwner,
+            ),
+          ),
+        ),
+        options,
+      );
+      fetched.forEach((text, nameWithOwner) => readmes.set(nameWithOwner, text));
+      return new Map(
+        candidates.map((repo) => [repo.name, fetched.get(repo.node.nameWithOwner) ?? null]),
+      );
+    },
+  );
+  const rankedOut = new Set(ranked.excluded.map((repo) => repo.name));
+  const repoNodes = screened.included
+    .filter((repo) => !rankedOut.has(repo.name))
+    .map((repo) => repo.node);
+  const topNodes = ranked.top.map((repo) => repo.node);
+  const languageNodes = selectLanguageRepositories(
+    repoNodes.map((node) => ({ ...toRepository(node), node })),
+    options,
+  ).map((repo) => repo.node);
+
+  const toInsight = (node: RepositoryNode): GithubRepoInsight => ({
+    ...toRepository(node),
+    topics: node.repositoryTopics.nodes.map((item) => item.topic.name),
+    readmeExcerpt: readmes.get(node.nameWithOwner) ?? null,
+  });
+
+  return buildGithubInsights({
+    source: "graphql",
+    profile: {
+      login: user.login,
+      name: user.name,
+      avatar_url: user.avatarUrl,
+      html_url: user.url,
+      bio: user.bio,
+      followers: user.followers.totalCount,
+      following: user.following.totalCount,
+      public_repos: user.repositories.totalCount,
+      public_gists: user.gists.totalCount,
+      created_at: user.createdAt,
+    },
+    repos: repoNodes.map(toRepository),
+    topLanguages: weightLanguageBytes(
+      languageNodes.map((node) => ({
+        bytes: Object.fromEntries(
+          node.languages.edges.map((edge) => [edge.node.name, edge.size]),
+        ),
+        lastActivity: node.pushedAt ?? node.updatedAt,
+      })),
+    ),
+    topRepos: topNodes.map(toInsight),
+    recentActivity: toActivity(user.contributionsCollection),
+    pinnedRepos: pinnedNodes.map(toInsight),
+    contributionCalendar: toContributionCalendar(
+      user.contributionsCollection.contributionCalendar,
+    ),
+    languageBytes: sumLanguageBytes(repoNodes),
+    excludedRepos: [...screened.excluded, ...ranked.excluded],
+  });
+}
@@ -0,0 +1,666 @@
+import { mapWithConcurrency } from "@/lib/concurrency";
+import {
+  analyzeContributions,
+  calendarFromEvents,
+  fetchContributionCalendar,
+} from "@/lib/contributions";
+import {
+  fetchGithubJson,
+  githubFetch,
+  GithubRateLimitError,
+  type GithubRequestOptions,
+} from "@/lib/github-client";
+import {
+  weightLanguageBytes,
+  type LanguageShare,
+  type RepositoryLanguageBytes,
+} from "@/lib/languages";
+import { MANIFEST_FILES, parseManifestDependencies } from "@/lib/manifests";
+import type { ProfileProviderName } from "@/lib/providers/types";
+import {
+  partitionRepositories,
+  type ExcludedRepository,
+  type RepositoryPartition,
+} from "@/lib/repo-classifier";
+
+export const MAX_ACTIVITY_ITEMS = 8;
+export const README_EXCERPT_LENGTH = 500;
+const MAX_LANGUAGE_REPOS = 30;
+const LANGUAGE_CONCURRENCY = 4;
+const EVIDENCE_REPO_LIMIT = 8;
+const README_EVIDENCE_LENGTH = 20000;
+const README_QUALITY_LENGTH = 50000;
+// Extra READMEs read when ranking, to replace repositories they rule out.
+const RANKING_RESERVE = 3;
+
+export type GithubInsightOptions = GithubRequestOptions & {
+  includeForks?: boolean;
+  includeArchived?: boolean;
+  /** Keep untouched forks, template and tutorial repositories in the analytics. */
+  includeBoilerplate?: boolean;
+};
+
+async function fetchRawContent(
+  endpoint: string,
+  options: GithubRequestOptions,
+): Promise<string | null> {
+  try {
+    const response = await githubFetch(
+      endpoint,
+      "application/vnd.github.raw",
+      options,
+    );
+
+    if (!response.ok) {
+      return null;
+    }
+
+    return await response.text();
+  } catch (error) {
+    if (error instanceof GithubRateLimitError) throw error;
+    console.error(`Failed to load ${endpoint}`, error);
+    return null;
+  }
+}
+
+async function fetchReadmeExcerpt(
+  owner: string,
+  repo: string,
+  options: GithubRequestOptions,
+): Promise<string | null> {
+  const text = await fetchRawContent(`/repos/${owner}/${repo}/readme`, options);
+  return text ? text.slice(0, README_EXCERPT_LENGTH) : null;
+}
+
+/** Keeps rate-limit errors fatal while turning other failures into `fallback`. */
+function unlessRateLimited<T>(fallback: T) {
+  return (error: unknown): T => {
+    if (error instanceof GithubRateLimitError) throw error;
+    console.error(error);
+    return fallback;
+  };
+}
+
+type GithubEvent = {
+  id: string;
+  type: string;
+  created_at: string;
+  repo: { name: string; url: string };
+  payload: Record<string, unknown>;
+};
+
+function mapEventToSummary(event: GithubEvent): GithubActivity {
+  const base = {
+    id: event.id,
+    type: event.type,
+    repoName: event.repo?.name ?? "",
+    created_at: event.created_at,
+    description: "",
+    url: null as string | null,
+  };
+
+  switch (event.type) {
+    case "PushEvent": {
+      const payload = event.payload as {
+        commits?: Array<{ message?: string | null }>;
+      };
+      const commits = payload.commits ?? [];
+      const messages = commits
+        .map((commit) => commit?.message)
+        .filter(Boolean)
+        .slice(0, 2);
+      return {
+        ...base,
+        description:
+          messages.length > 0
+            ? `Pushed ${messages.length} commit${messages.length > 1 ? "s" : ""}: ${messages.join(" · ")}`
+            : "Pushed new commits",
+      };
+    }
+    case "PullRequestEvent": {
+      const payload = event.payload as {
+        action?: string;
+        pull_request?: { title?: string; html_url?: string } | null;
+      };
+      const action = payload.action ?? "updated";
+      const pr = payload.pull_request;
+      return {
+        ...base,
+        description: `${action.replace(/_/g, " ")} pull request ${pr?.title ?? ""}`.trim(),
+        url: pr?.html_url ?? null,
+      };
+    }
+    case "IssuesEvent": {
+      const payload = event.payload as {
+        action?: string;
+        issue?: { title?: string; html_url?: string } | null;
+      };
+      const issueAction = payload.action ?? "updated";
+      const issue = payload.issue;
+      return {
+        ...base,
+        description: `${issueAction.replace(/_/g, " ")} issue ${issue?.title ?? ""}`.trim(),
+        url: issue?.html_url ?? null,
+      };
+    }
+    case "CreateEvent": {
+      const payload = event.payload as { ref_type?: string; ref?: string | null };
+      const refType = payload.ref_type ?? "repository";
+      const ref = payload.ref;
+      return {
+        ...base,
+        description: `Created ${refType}${ref ? ` ${ref}` : ""}`,
+        url: null,
+      };
+    }
+    case "ReleaseEvent": {
+      const payload = event.payload as {
+        release?: { name?: string; html_url?: string } | null;
+      };
+      const release = payload.release;
+      return {
+        ...base,
+        description: `Published release ${release?.name ?? ""}`.trim(),
+        url: release?.html_url ?? null,
+      };
+    }
+    default:
+      return {
+        ...base,
+        description: event.type.replace(/([A-Z])/g, " $1").trim(),
+      };
+  }
+}
+
+export type GithubDataSource = "rest" | "graphql";
+
+export type GithubUser = {
+  login: string;
+  name: string | null;
+  avatar_url: string;
+  html_url: string;
+  bio: string | null;
+  followers: number;
+  following: number;
+  public_repos: number;
+  public_gists: number;
+  created_at: string;
+};
+
+export type GithubRepository = {
+  name: string;
+  html_url: string;
+  description: string | null;
+  stargazers_count: number;
+  forks_count: number;
+  open_issues_count: number;
+  language: string | null;
+  topics?: string[];
+  homepage: string | null;
+  updated_at: string;
+  pushed_at: string | null;
+  fork: boolean;
+  archived: boolean;
+  /** Only returned by the REST API. */
+  created_at?: string;
+  default_branch?: string;
+  license?: { spdx_id: string | null; name: string } | null;
+  template_repository?: { full_name: string } | null;
+};
+
+export type GithubRepoInsight = GithubRepository & {
+  topics: string[];
+  readmeExcerpt: string | null;
+};
+
+export type GithubActivity = {
+  id: string;
+  type: string;
+  repoName: string;
+  created_at: string;
+  description: string;
+  url: string | null;
+};
+
+export type ContributionDay = {
+  date: string;
+  weekday: number;
+  count: number;
+};
+
+export type ContributionCalendar = {
+  /** "recent-events" when rebuilt from the last 90 days of public events. */
+  coverage: "year" | "recent-events";
+  totalContributions: number;
+  weeks: Array<{ days: ContributionDay[] }>;
+};
+
+export type GithubLanguageBytes = { language: string; bytes: number };
+
+export type RepositoryEvidence = {
+  name: string;
+  url: string;
+  topics: string[];
+  languages: Record<string, number>;
+  dependencies: string[];
+  /** Names of the files and directories at the repository root. */
+  files: string[];
+  readme: string | null;
+};
+
+export type RepositoryContributor = {
+  /** Null for commits whose author email is not linked to an account. */
+  login: string | null;
+  contributions: number;
+};
+
+export type RepositoryQualitySource = {
+  name: string;
+  url: string;
+  fork: boolean;
+  license: string | null;
+  createdAt: string | null;
+  pushedAt: string | null;
+  /** Every file path in the default branch. */
+  paths: string[];
+  /** True when GitHub cut the file tree short for a very large repository. */
+  pathsTruncated: boolean;
+  contributors: RepositoryContributor[];
+  readme: string | null;
+};
+
+export type GithubLanguageCount = { language: string; count: number };
+
+export type GithubSummary = {
+  login: string;
+  name: string | null;
+  profileUrl: string;
+  followers: number;
+  repositoryCount: number;
+  totalStars: number;
+  topLanguages: GithubLanguageCount[];
+};
+
+function fetchRepositories(username: string, options: GithubRequestOptions) {
+  return fetchGithubJson<GithubRepository[]>(
+    `/users/${username}/repos?per_page=100&sort=updated`,
+    options,
+  );
+}
+
+function countLanguages(repos: GithubRepository[]): GithubLanguageCount[] {
+  const languageCounts = repos.reduce<Record<string, number>>((acc, repo) => {
+    if (repo.language) {
+      acc[repo.language] = (acc[repo.language] ?? 0) + 1;
+    }
+    return acc;
+  }, {});
+
+  return Object.entries(languageCounts)
+    .map(([language, count]) => ({ language, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 10);
+}
+
+export function selectTopRepositories<T extends GithubRepository>(
+  repos: T[],
+  limit: number,
+): T[] {
+  return [...repos]
+    .sort((a, b) => b.stargazers_count - a.stargazers_count)
+    .slice(0, limit);
+}
+
+/** Applies the repository classifier unless `includeBoilerplate` is set. */
+export function screenRepositories<T extends GithubRepository>(
+  repos: T[],
+  options: GithubInsightOptions = {},
+  readmes?: Map<string, string | null>,
+): RepositoryPartition<T> {
+  return options.includeBoilerplate
+    ? { included: repos, excluded: [] }
+    : partitionRepositories(repos, readmes);
+}
+
+/**
+ * Ranks the repositories that passed screening by stars and reads the
+ * READMEs of the leaders, plus a few in reserve. Those whose README gives
+ * them away as scaffolding or a tutorial are excluded and the next in line
+ * takes their place.
+ */
+export async function selectRankedRepositories<T extends GithubRepository>(
+  repos: T[],
+  repoLimit: number,
+  options: GithubInsightOptions,
+  loadReadmes: (candidates: T[]) => Promise<Map<string, string | null>>,
+): Promise<{
+  top: T[];
+  readmes: Map<string, string | null>;
+  excluded: ExcludedRepository[];
+}> {
+  const candidates = selectTopRepositories(
+    repos,
+    repoLimit + (options.includeBoilerplate ? 0 : RANKING_RESERVE),
+  );
+  const readmes = await loadReadmes(candidates);
+  const { included, excluded } = screenRepositories(candidates, options, readmes);
+  return { top: included.slice(0, repoLimit), readmes, excluded };
+}
+
+/**
+ * Picks the repositories whose language bytes feed the breakdown: forks and
+ * archived repositories are left out unless asked for, and only the most
+ * recently pushed ones are kept to bound the number of API calls.
+ */
+export function selectLanguageRepositories<T extends GithubRepository>(
+  repos: T[],
+  options: GithubInsightOptions = {},
+): T[] {
+  return repos
+    .filter((repo) => options.includeForks || !repo.fork)
+    .filter((repo) => options.includeArchived || !repo.archived)
+    .sort((a, b) =>
+      (b.pushed_at ?? b.updated_at).localeCompare(a.pushed_at ?? a.updated_at),
+    )
+    .slice(0, MAX_LANGUAGE_REPOS);
+}
+
+async function fetchLanguageBytes(
+  owner: string,
+  repos: GithubRepository[],
+  options: GithubRequestOptions,
+): Promise<RepositoryLanguageBytes[]> {
+  const results = await mapWithConcurrency(
+    repos,
+    LANGUAGE_CONCURRENCY,
+    async (repo): Promise<RepositoryLanguageBytes | null> => {
+      const bytes = await fetchGithubJson<Record<string, number>>(
+        `/repos/${owner}/${repo.name}/languages`,
+        options,
+      ).catch(unlessRateLimited(null));
+      return bytes
+        ? { bytes, lastActivity: repo.pushed_at ?? repo.updated_at }
+        : null;
+    },
+  );
+  return results.filter(
+    (result): result is RepositoryLanguageBytes => result !== null,
+  );
+}
+
+type InsightSources = {
+  source: GithubDataSource;
+  /** The code host the data came from; GitHub unless a provider says otherwise. */
+  provider?: ProfileProviderName;
+  host?: string;
+  profile: GithubUser;
+  repos: GithubRepository[];
+  topLanguages: LanguageShare[];
+  topRepos: GithubRepoInsight[];
+  recentActivity: GithubActivity[];
+  pinnedRepos?: GithubRepoInsight[] | null;
+  contributionCalendar?: ContributionCalendar | null;
+  languageBytes?: GithubLanguageBytes[] | null;
+  excludedRepos?: ExcludedRepository[];
+};
+
+/**
+ * Assembles the analytics payload shared by the REST and GraphQL sources.
+ * `repos` should already leave out the excluded repositories, which are
+ * listed separately. Pinned repositories and language byte sizes are only
+ * available from GraphQL and are null otherwise.
+ */
+export function buildGithubInsights(sources: InsightSources) {
+  const { repos } = sources;
+  const contributionCalendar = sources.contributionCalendar ?? null;
+
+  const aggregates = repos.reduce(
+    (acc, repo) => {
+      acc.totalStars += repo.stargazers_count;
+      acc.totalForks += repo.forks_count;
+      acc.totalOpenIssues += repo.open_issues_count;
+      if (repo.homepage) acc.reposWithLiveDemo += 1;
+      return acc;
+    },
+    {
+      totalStars: 0,
+      totalForks: 0,
+      totalOpenIssues: 0,
+      reposWithLiveDemo: 0,
+    },
+  );
+
+  return {
+    ...sources.profile,
+    source: sources.source,
+    provider: sources.provider ?? "github",
+    host: sources.host ?? "github.com",
+    topLanguages: sources.topLanguages,
+    repos: sources.topRepos,
+    aggregates: {
+      ...aggregates,
+      repositoryCount: repos.length,
+      averageStars:
+        repos.length > 0
+          ? parseFloat((aggregates.totalStars / repos.length).toFixed(1))
+          : 0,
+    },
+    spotlight: sources.topRepos[0] ?? null,
+    recentActivity: sources.recentActivity.slice(0, MAX_ACTIVITY_ITEMS),
+    pinnedRepos: sources.pinnedRepos ?? null,
+    contributionCalendar,
+    contributionTrends: contributionCalendar
+      ? analyzeContributions(contributionCalendar)
+      : null,
+    languageBytes: sources.languageBytes ?? null,
+    excludedRepos: sources.excludedRepos ?? [],
+  };
+}
+
+export type GithubInsights = ReturnType<typeof buildGithubInsights>;
+
+/**
+ * Loads the full analytics payload for a profile from the REST API:
+ * repositories with README excerpts, a byte- and recency-weighted language
+ * breakdown, star/fork aggregates and recent public activity. The
+ * contribution calendar comes from GraphQL when credentials allow, and is
+ * otherwise rebuilt from the public events of the last 90 days.
+ */
+export async function fetchGithubInsights(
+  username: string,
+  repoLimit: number,
+  options: GithubInsightOptions = {},
+): Promise<GithubInsights> {
+  const profile = await fetchGithubJson<GithubUser>(
+    `/users/${username}`,
+    options,
+  );
+  const screened = screenRepositories(
+    await fetchRepositories(username, options),
+    options,
+  );
+  const ranked = await selectRankedRepositories(
+    screened.included,
+    repoLimit,
+    options,
+    async (candidates) =>
+      new Map(
+        await Promise.all(
+          candidates.map(
+            async (repo) =>
+              [repo.name, await fetchReadmeExcerpt(username, repo.name, options)] as const,
+          ),
+        ),
+      ),
+  );
+  const rankedOut = new Set(ranked.excluded.map((repo) => repo.name));
+  const repos = screened.included.filter((repo) => !rankedOut.has(repo.name));
+
+  const topRepos = ranked.top.map((repo) => ({
+    ...repo,
+    topics: repo.topics ?? [],
+    readmeExcerpt: ranked.readmes.get(repo.name) ?? null,
+  }));
+
+  const languageBytes = await fetchLanguageBytes(
+    username,
+    selectLanguageRepositories(repos, options),
+    options,
+  );
+
+  const events = await fetchGithubJson<GithubEvent[]>(
+    `/users/${username}/events/public?per_page=100`,
+    options,
+  );
+  const contributionCalendar =
+    (await fetchContributionCalendar(username, options)) ??
+    calendarFromEvents(events);
+
+  const recentActivity = events
+    .map((event) => mapEventToSummary(event))
+    .filter((item) => item.repoName);
+
+  return buildGithubInsights({
+    source: "rest",
+    profile,
+    repos,
+    topLanguages: weightLanguageBytes(languageBytes),
+    topRepos,
+    recentActivity,
+    contributionCalendar,
+    excludedRepos: [...screened.excluded, ...ranked.excluded],
+  });
+}
+
+/**
+ * Loads just the profile and repository list, enough for comparing many
+ * candidates side by side without spending the rate limit on READMEs and
+ * events. Repositories are screened on their metadata only.
+ */
+export async function fetchGithubSummary(
+  username: string,
+  options: GithubRequestOptions = {},
+): Promise<GithubSummary> {
+  const profile = await fetchGithubJson<GithubUser>(
+    `/users/${username}`,
+    options,
+  );
+  const { included: repos } = screenRepositories(
+    await fetchRepositories(username, options),
+  );
+
+  return {
+    login: profile.login,
+    name: profile.name,
+    profileUrl: profile.html_url,
+    followers: profile.followers,
+    repositoryCount: repos.length,
+    totalStars: repos.reduce((sum, repo) => sum + repo.stargazers_count, 0),
+    topLanguages: countLanguages(repos),
+  };
+}
+
+/**
+ * Collects what a candidate's most recently pushed repositories say about
+ * their skills: language bytes, topics, dependencies from root-level
+ * manifests and README text.
+ */
+export async function fetchRepositoryEvidence(
+  username: string,
+  options: GithubInsightOptions = {},
+): Promise<RepositoryEvidence[]> {
+  const repos = await fetchRepositories(username, options);
+  const selected = selectLanguageRepositories(repos, options).slice(
+    0,
+    EVIDENCE_REPO_LIMIT,
+  );
+
+  return mapWithConcurrency(selected, LANGUAGE_CONCURRENCY, async (repo) => {
+    const base = `/repos/${username}/${repo.name}`;
+    const [languages, rootEntries, readme] = await Promise.all([
+      fetchGithubJson<Record<string, number>>(`${base}/languages`, options).catch(
+        unlessRateLimited<Record<string, number>>({}),
+      ),
+      fetchGithubJson<Array<{ name: string; type: string }>>(
+        `${base}/contents`,
+        options,
+      ).catch(unlessRateLimited<Array<{ name: string; type: string }>>([])),
+      fetchRawContent(`${base}/readme`, options),
+    ]);
+
+    const manifests = MANIFEST_FILES.filter((file) =>
+      rootEntries.some((entry) => entry.type === "file" && entry.name === file),
+    );
+    const dependencies = await Promise.all(
+      manifests.map(async (file) => {
+        const content = await fetchRawContent(`${base}/contents/${file}`, options);
+        return content ? parseManifestDependencies(file, content) : [];
+      }),
+    );
+
+    return {
+      name: repo.name,
+      url: repo.html_url,
+      topics: repo.topics ?? [],
+      languages,
+      dependencies: Array.from(new Set(dependencies.flat())),
+      files: rootEntries.map((entry) => entry.name),
+      readme: readme ? readme.slice(0, README_EVIDENCE_LENGTH) : null,
+    };
+  });
+}
+
+type GitTree = {
+  tree: Array<{ path: string; type: string }>;
+  truncated: boolean;
+};
+
+/**
+ * Collects what the candidate's top repositories (by stars) reveal about
+ * engineering practice: the full file tree, contributors with their commit
+ * counts, the license and the README.
+ */
+export async function fetchRepositoryQualitySources(
+  username: string,
+  repoLimit: number,
+  options: GithubRequestOptions = {},
+): Promise<RepositoryQualitySource[]> {
+  const repos = await fetchRepositories(username, options);
+  const selected = selectTopRepositories(repos, repoLimit);
+
+  return mapWithConcurrency(selected, LANGUAGE_CONCURRENCY, async (repo) => {
+    const base = `/repos/${username}/${repo.name}`;
+    const branch = encodeURIComponent(repo.default_branch ?? "HEAD");
+    const [tree, contributors, readme] = await Promise.all([
+      fetchGithubJson<GitTree>(`${base}/git/trees/${branch}?recursive=1`, options).catch(
+        unlessRateLimited<GitTree>({ tree: [], truncated: false }),
+      ),
+      // Empty repositories answer with 204 and no body, which lands here too.
+      fetchGithubJson<Array<{ login?: string; contributions: number }>>(
+        `${base}/contributors?per_page=100&anon=1`,
+        options,
+      ).catch(unlessRateLimited<Array<{ login?: string; contributions: number }>>([])),
+      fetchRawContent(`${base}/readme`, options),
+    ]);
+
+    return {
+      name: repo.name,
+      url: repo.html_url,
+      fork: repo.fork,
+      license: repo.license
+        ? repo.license.spdx_id && repo.license.spdx_id !== "NOASSERTION"
+          ? repo.license.spdx_id
+          : repo.license.name
+        : null,
+      createdAt: repo.created_at ?? null,
+      pushedAt: repo.pushed_at,
+      paths: tree.tree.filter((entry) => entry.type === "blob").map((entry) => entry.path),
+      pathsTruncated: tree.truncated,
+      contributors: contributors.map((contributor) => ({
+        login: contributor.login ?? null,
+        contributions: contributor.contributions,
+      })),
+      readme: readme ? readme.slice(0, README_QUALITY_LENGTH) : null,
+    };
+  });
+}
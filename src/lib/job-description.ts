@@ -0,0 +1,183 @@
+import { findMentionedSkills, type TaxonomySkill } from "@/lib/skills";
+
+export type Seniority =
+  | "intern"
+  | "junior"
+  | "mid"
+  | "senior"
+  | "staff"
+  | "principal";
+
+export const SENIORITY_LEVELS: Seniority[] = [
+  "intern",
+  "junior",
+  "mid",
+  "senior",
+  "staff",
+  "principal",
+];
+
+export type JobRequirements = {
+  title: string | null;
+  seniority: Seniority | null;
+  minYearsExperience: number | null;
+  requiredSkills: TaxonomySkill[];
+  niceToHaveSkills: TaxonomySkill[];
+};
+
+type Bucket = "required" | "preferred" | "ignored";
+
+const SENIORITY_PATTERNS: Array<[RegExp, Seniority]> = [
+  [/\b(?:principal|distinguished)\b/i, "principal"],
+  [/\b(?:staff|lead|architect)\b/i, "staff"],
+  [/\b(?:senior|sr\.?)(?=\s|$)/i, "senior"],
+  [/\b(?:mid[- ]level|mid|intermediate)\b|\b(?:engineer|developer)\s+ii\b/i, "mid"],
+  [/\b(?:junior|jr\.?|entry[- ]level|graduate|new grad)(?=\s|$|,)/i, "junior"],
+  [/\b(?:intern|internship|trainee|apprentice)\b/i, "intern"],
+];
+
+const TITLE_LABEL_REGEX = /^(?:job title|position|role|title)\s*:\s*(.+)$/i;
+const TITLE_KEYWORD_REGEX =
+  /\b(?:engineer|developer|programmer|architect|scientist|analyst|designer|manager|lead|sre|devops)\b/i;
+const PREFERRED_HEADING_REGEX =
+  /\b(?:nice[- ]to[- ]haves?|preferred|bonus(?: points)?|pluses|good to have|desirable|extra credit)\b/i;
+const REQUIRED_HEADING_REGEX =
+  /\b(?:requirements|required|qualifications|must[- ]haves?|what you(?:'ll| will)? bring|what we(?:'re| are) looking for|you have|you bring|skills|tech stack|responsibilities|what you(?:'ll| will) do|the role)\b/i;
+const IGNORED_HEADING_REGEX =
+  /\b(?:about (?:us|the company)|who we are|benefits|perks|compensation|salary|equal opportunity|how to apply)\b/i;
+const INLINE_PREFERRED_REGEX =
+  /\b(?:a plus|nice to have|preferred|bonus|ideally|is an advantage|would be great)\b/i;
+const YEARS_OF_EXPERIENCE_REGEX =
+  /(\d{1,2})\s*\+?\s*(?:(?:-|–|to)\s*\d{1,2}\s*)?\+?\s*(?:years?|yrs?)\b[^.;]{0,40}?\bexperience\b/gi;
+const EXPERIENCE_OF_YEARS_REGEX =
+  /\bexperience\b\s*(?::|of|-|–)?\s*(?:at least|minimum(?: of)?)?\s*(\d{1,2})\s*\+?\s*(?:years?|yrs?)\b/gi;
+const MAX_HEADING_WORDS = 6;
+const BULLET_REGEX = /^\s*(?:[•▪◦●■*·–-]|\d{1,2}[.)])\s+/u;
+
+/** Maps a title or sentence to a seniority level, if it names one. */
+export function detectSeniority(text: string): Seniority | null {
+  for (const [pattern, level] of SENIORITY_PATTERNS) {
+    if (pattern.test(text)) return level;
+  }
+  return null;
+}
+
+export function seniorityFromYears(years: number): Seniority {
+  if (years < 2) return "junior";
+  if (years < 5) return "mid";
+  if (years < 8) return "senior";
+  if (years < 12) return "staff";
+  return "principal";
+}
+
+/**
+ * A heading either ends with a colon or is a short, unpunctuated line that
+ * names no skills, so "Experience with Kubernetes is preferred" stays a
+ * requirement.
+ */
+function isHeading(line: string): boolean {
+  if (BULLET_REGEX.test(line) || line.length > 60) return false;
+  if (line.endsWith(":")) return true;
+  return (
+    !/[.,;]/.test(line) &&
+    line.split(/\s+/).length <= MAX_HEADING_WORDS &&
+    findMentionedSkills(line).length === 0
+  );
+}
+
+function headingBucket(line: string): Bucket | null {
+  if (!isHeading(line)) return null;
+  if (PREFERRED_HEADING_REGEX.test(line)) return "preferred";
+  if (IGNORED_HEADING_REGEX.test(line)) return "ignored";
+  if (REQUIRED_HEADING_REGEX.test(line)) return "required";
+  return null;
+}
+
+function extractTitle(lines: string[]): string | null {
+  for (const line of lines.slice(0, 8)) {
+    const labelled = line.match(TITLE_LABEL_REGEX);
+    if (labelled) return labelled[1].trim();
+  }
+  return (
+    lines
+      .slice(0, 5)
+      .find(
+        (line) =>
+          line.length <= 80 && TITLE_KEYWORD_REGEX.test(line) && !/[.:]$/.test(line),
+      ) ?? null
+  );
+}
+
+/**
+ * Reads the lower bound of every "N+ years of experience" phrase and keeps
+ * the largest. Years that are not tied to experience ("building payments
+ * software for 20 years") are ignored.
+ */
+function extractMinYears(lines: string[]): number | null {
+  const years = lines.flatMap((line) =>
+    [YEARS_OF_EXPERIENCE_REGEX, EXPERIENCE_OF_YEARS_REGEX].flatMap((pattern) =>
+      Array.from(line.matchAll(pattern), (match) => Number(match[1])),
+    ),
+  );
+  return years.length ? Math.max(...years) : null;
+}
+
+/**
+ * Extracts what a job description asks for. Skills under "Nice to have" or
+ * "Preferred" headings, or on lines marked "a plus", count as nice to have;
+ * everything outside about-us and benefits sections counts as required.
+ */
+export function parseJobDescription(text: string): JobRequirements {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const required = new Map<string, TaxonomySkill>();
+  const preferred = new Map<string, TaxonomySkill>();
+  // Company intro text before the first requirements heading is kept
+  // apart, and only read for years of experience if there is no heading.
+  const introLines: string[] = [];
+  const requirementLines: string[] = [];
+  let bucket: Bucket = "required";
+  let sawRequirements = false;
+
+  for (const line of lines) {
+    const heading = headingBucket(line);
+    if (heading) {
+      bucket = heading;
+      if (heading !== "ignored") sawRequirements = true;
+      continue;
+    }
+    if (bucket === "ignored") continue;
+
+    const lineBucket =
+      bucket === "required" && INLINE_PREFERRED_REGEX.test(line)
+        ? "preferred"
+        : bucket;
+    if (lineBucket === "required") {
+      (sawRequirements ? requirementLines : introLines).push(line);
+    }
+
+    for (const skill of findMentionedSkills(line)) {
+      (lineBucket === "required" ? required : preferred).set(skill.name, skill);
+    }
+  }
+
+  for (const name of required.keys()) preferred.delete(name);
+
+  const title = extractTitle(lines);
+  const minYearsExperience = extractMinYears(
+    sawRequirements ? requirementLines : introLines,
+  );
+
+  return {
+    title,
+    seniority:
+      (title ? detectSeniority(title) : null) ??
+      (minYearsExperience !== null ? seniorityFromYears(minYearsExperience) : null),
+    minYearsExperience,
+    requiredSkills: Array.from(required.values()),
+    niceToHaveSkills: Array.from(preferred.values()),
+  };
+}
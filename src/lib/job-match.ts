@@ -0,0 +1,182 @@
+import {
+  detectSeniority,
+  SENIORITY_LEVELS,
+  seniorityFromYears,
+  type JobRequirements,
+  type Seniority,
+} from "@/lib/job-description";
+import type { ParsedResume } from "@/lib/parser";
+import {
+  canonicalizeSkill,
+  relatedSkills,
+  type SkillCategory,
+  type TaxonomySkill,
+} from "@/lib/skills";
+
+export type MatchCandidate = Pick<
+  ParsedResume,
+  "canonicalSkills" | "totalYearsExperience" | "experience"
+>;
+
+export type MatchGithub = {
+  topLanguages: Array<{ language: string }>;
+};
+
+export type MatchSource = "resume" | "github";
+
+export type JobSkillResult = {
+  skill: string;
+  category: SkillCategory;
+  required: boolean;
+};
+
+export type MatchedSkill = JobSkillResult & { sources: MatchSource[] };
+
+export type TransferableSkill = JobSkillResult & { via: string[] };
+
+export type JobMatch = {
+  score: number;
+  breakdown: {
+    skills: number | null;
+    experience: number | null;
+    seniority: number | null;
+  };
+  candidateYears: number | null;
+  candidateSeniority: Seniority | null;
+  requirements: JobRequirements;
+  matched: MatchedSkill[];
+  transferable: TransferableSkill[];
+  missing: JobSkillResult[];
+};
+
+const COMPONENT_WEIGHTS = { skills: 0.7, experience: 0.2, seniority: 0.1 };
+const REQUIRED_SKILL_WEIGHT = 1;
+const NICE_TO_HAVE_SKILL_WEIGHT = 0.5;
+const TRANSFERABLE_CREDIT = 0.5;
+
+function collectCandidateSkills(
+  resume: MatchCandidate,
+  github: MatchGithub | null,
+): Map<string, Set<MatchSource>> {
+  const skills = new Map<string, Set<MatchSource>>();
+  const add = (name: string, source: MatchSource) => {
+    const sources = skills.get(name) ?? new Set<MatchSource>();
+    sources.add(source);
+    skills.set(name, sources);
+  };
+
+  for (const skill of resume.canonicalSkills) add(skill.name, "resume");
+  for (const { language } of github?.topLanguages ?? []) {
+    add(canonicalizeSkill(language)?.name ?? language, "github");
+  }
+  return skills;
+}
+
+function inferCandidateSeniority(resume: MatchCandidate): Seniority | null {
+  const latestTitle = resume.experience.find((role) => role.title)?.title;
+  const fromTitle = latestTitle ? detectSeniority(latestTitle) : null;
+  if (fromTitle) return fromTitle;
+  return resume.totalYearsExperience !== null
+    ? seniorityFromYears(resume.totalYearsExperience)
+    : null;
+}
+
+function scoreSeniority(candidate: Seniority | null, required: Seniority | null) {
+  if (!required) return null;
+  if (!candidate) return 0;
+  const gap = SENIORITY_LEVELS.indexOf(required) - SENIORITY_LEVELS.indexOf(candidate);
+  if (gap <= 0) return 1;
+  return gap === 1 ? 0.5 : 0;
+}
+
+function scoreExperience(years: number | null, required: number | null) {
+  if (required === null || required === 0) return null;
+  if (years === null) return 0;
+  return Math.min(1, years / required);
+}
+
+function toPercent(value: number | null) {
+  return value === null ? null : Math.round(value * 100);
+}
+
+/**
+ * Compares a parsed resume (and optional GitHub languages) with the
+ * requirements of a job description. Skills count for 70% of the score,
+ * years of experience for 20% and seniority for 10%; components the job
+ * description does not specify are left out and the rest reweighted.
+ */
+export function matchJob(
+  requirements: JobRequirements,
+  resume: MatchCandidate,
+  github: MatchGithub | null = null,
+): JobMatch {
+  const candidateSkills = collectCandidateSkills(resume, github);
+  const matched: MatchedSkill[] = [];
+  const transferable: TransferableSkill[] = [];
+  const missing: JobSkillResult[] = [];
+  let earned = 0;
+  let possible = 0;
+
+  const jobSkills: Array<{ skill: TaxonomySkill; required: boolean }> = [
+    ...requirements.requiredSkills.map((skill) => ({ skill, required: true })),
+    ...requirements.niceToHaveSkills.map((skill) => ({ skill, required: false })),
+  ];
+
+  for (const { skill, required } of jobSkills) {
+    const weight = required ? REQUIRED_SKILL_WEIGHT : NICE_TO_HAVE_SKILL_WEIGHT;
+    const result = { skill: skill.name, category: skill.category, required };
+    possible += weight;
+
+    const sources = candidateSkills.get(skill.name);
+    if (sources) {
+      matched.push({ ...result, sources: Array.from(sources) });
+      earned += weight;
+      continue;
+    }
+
+    const via = relatedSkills(skill.name).filter((related) =>
+      candidateSkills.has(related),
+    );
+    if (via.length) {
+      transferable.push({ ...result, via });
+      earned += weight * TRANSFERABLE_CREDIT;
+      continue;
+    }
+
+    missing.push(result);
+  }
+
+  const candidateSeniority = inferCandidateSeniority(resume);
+  const breakdown = {
+    skills: possible ? earned / possible : null,
+    experience: scoreExperience(
+      resume.totalYearsExperience,
+      requirements.minYearsExperience,
+    ),
+    seniority: scoreSeniority(candidateSeniority, requirements.seniority),
+  };
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const key of Object.keys(COMPONENT_WEIGHTS) as Array<keyof typeof breakdown>) {
+    const value = breakdown[key];
+    if (value === null) continue;
+    weighted += value * COMPONENT_WEIGHTS[key];
+    totalWeight += COMPONENT_WEIGHTS[key];
+  }
+
+  return {
+    score: totalWeight ? Math.round((weighted / totalWeight) * 100) : 0,
+    breakdown: {
+      skills: toPercent(breakdown.skills),
+      experience: toPercent(breakdown.experience),
+      seniority: toPercent(breakdown.seniority),
+    },
+    candidateYears: resume.totalYearsExperience,
+    candidateSeniority,
+    requirements,
+    matched,
+    transferable,
+    missing,
+  };
+}
@@ -0,0 +1,72 @@
+export type RepositoryLanguageBytes = {
+  bytes: Record<string, number>;
+  lastActivity: string | null;
+};
+
+export type LanguageShare = {
+  language: string;
+  percentage: number;
+  bytes: number;
+  repoCount: number;
+};
+
+const RECENCY_HALF_LIFE_MONTHS = 12;
+const MIN_RECENCY_WEIGHT = 0.05;
+const AVERAGE_MONTH_MS = 30.44 * 24 * 60 * 60 * 1000;
+
+/**
+ * Halves a repository's influence for every year since it was last pushed,
+ * with a floor so old but substantial work never disappears entirely.
+ */
+export function recencyWeight(
+  lastActivity: string | null,
+  referenceDate: Date = new Date(),
+): number {
+  if (!lastActivity) return MIN_RECENCY_WEIGHT;
+  const time = new Date(lastActivity).getTime();
+  if (Number.isNaN(time)) return MIN_RECENCY_WEIGHT;
+  const months = Math.max(0, (referenceDate.getTime() - time) / AVERAGE_MONTH_MS);
+  return Math.max(MIN_RECENCY_WEIGHT, 0.5 ** (months / RECENCY_HALF_LIFE_MONTHS));
+}
+
+/**
+ * Turns per-repository language byte counts into a percentage breakdown in
+ * which every byte is weighted by how recently its repository was active.
+ */
+export function weightLanguageBytes(
+  repositories: RepositoryLanguageBytes[],
+  referenceDate: Date = new Date(),
+  limit = 10,
+): LanguageShare[] {
+  const totals = new Map<
+    string,
+    { weighted: number; bytes: number; repoCount: number }
+  >();
+
+  for (const repository of repositories) {
+    const weight = recencyWeight(repository.lastActivity, referenceDate);
+    for (const [language, bytes] of Object.entries(repository.bytes)) {
+      if (bytes <= 0) continue;
+      const total = totals.get(language) ?? { weighted: 0, bytes: 0, repoCount: 0 };
+      total.weighted += bytes * weight;
+      total.bytes += bytes;
+      total.repoCount += 1;
+      totals.set(language, total);
+    }
+  }
+
+  const weightedSum = Array.from(totals.values()).reduce(
+    (sum, total) => sum + total.weighted,
+    0,
+  );
+  if (weightedSum === 0) return [];
+
+  return Array.from(totals, ([language, total]) => ({
+    language,
+    percentage: Math.round((total.weighted / weightedSum) * 1000) / 10,
+    bytes: total.bytes,
+    repoCount: total.repoCount,
+  }))
+    .sort((a, b) => b.percentage - a.percentage || b.bytes - a.bytes)
+    .slice(0, limit);
+}
@@ -0,0 +1,60 @@
+export type LineStyle = {
+  text: string;
+  fontSize: number;
+  bold: boolean;
+};
+
+export type StyleIndex = {
+  bodyFontSize: number;
+  get: (line: string) => LineStyle | undefined;
+};
+
+const EMPHASIS_RATIO = 1.15;
+
+function normalizeLine(line: string): string {
+  return line.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Indexes per-line font hints (from layout-aware extractors such as the PDF
+ * reader) by their text, and works out the body font size as the size that
+ * covers the most characters.
+ */
+export function indexLineStyles(styles: LineStyle[]): StyleIndex {
+  const byText = new Map<string, LineStyle>();
+  const weightBySize = new Map<number, number>();
+
+  for (const style of styles) {
+    const text = normalizeLine(style.text);
+    if (!text) continue;
+    if (!byText.has(text)) byText.set(text, style);
+    const size = Math.round(style.fontSize * 2) / 2;
+    weightBySize.set(size, (weightBySize.get(size) ?? 0) + text.length);
+  }
+
+  let bodyFontSize = 0;
+  let bestWeight = -1;
+  for (const [size, weight] of weightBySize) {
+    if (weight > bestWeight) {
+      bodyFontSize = size;
+      bestWeight = weight;
+    }
+  }
+
+  return {
+    bodyFontSize,
+    get: (line) => byText.get(normalizeLine(line)),
+  };
+}
+
+export function isEmphasized(
+  style: LineStyle | undefined,
+  index: StyleIndex,
+): boolean {
+  if (!style) return false;
+  return (
+    style.bold ||
+    (index.bodyFontSize > 0 &&
+      style.fontSize >= index.bodyFontSize * EMPHASIS_RATIO)
+  );
+}
@@ -0,0 +1,262 @@
+export type ResumeLink = {
+  url: string;
+  label: string | null;
+};
+
+export type CodeHostProvider = "github" | "gitlab" | "gitea" | "bitbucket";
+
+export type CodeProfile = {
+  provider: CodeHostProvider;
+  /** The instance's host name, e.g. "gitlab.com" or "codeberg.org". */
+  host: string;
+  username: string;
+  url: string;
+};
+
+export type ProfileLinks = {
+  githubUrl: string | null;
+  githubUsername: string | null;
+  /** Profiles on GitHub and other code hosts, in the order they appear. */
+  codeProfiles: CodeProfile[];
+  linkedinUrl: string | null;
+  portfolioUrl: string | null;
+  emails: string[];
+  phones: string[];
+  urls: string[];
+};
+
+const URL_REGEX =
+  /\b(?:https?:\/\/|www\.)[^\s<>()"']+|\b(?:github\.com|linkedin\.com|gitlab\.com|codeberg\.org|bitbucket\.org)\/[^\s<>()"']+/gi;
+const TRAILING_PUNCTUATION_REGEX = /[\s,.;:!?)\]}'"]+$/;
+
+const GITHUB_RESERVED_PATHS = new Set([
+  "about",
+  "collections",
+  "features",
+  "login",
+  "marketplace",
+  "orgs",
+  "pricing",
+  "settings",
+  "sponsors",
+  "topics",
+]);
+
+const GITLAB_RESERVED_PATHS = new Set([
+  "-",
+  "admin",
+  "dashboard",
+  "explore",
+  "groups",
+  "help",
+  "projects",
+  "search",
+  "users",
+]);
+
+const GITEA_RESERVED_PATHS = new Set([
+  "-",
+  "admin",
+  "api",
+  "explore",
+  "notifications",
+  "org",
+  "repo",
+  "user",
+]);
+
+const BITBUCKET_RESERVED_PATHS = new Set([
+  "account",
+  "blog",
+  "dashboard",
+  "product",
+  "repo",
+  "site",
+]);
+
+const GITEA_HOSTS = ["codeberg.org", "gitea.com"];
+const CODE_HOST_USERNAME_REGEX = /^[a-z\d](?:[a-z\d_.-]{0,62})$/i;
+
+const NON_PORTFOLIO_HOSTS = [
+  "github.com",
+  "gist.github.com",
+  "gitlab.com",
+  "codeberg.org",
+  "gitea.com",
+  "bitbucket.org",
+  "linkedin.com",
+  "twitter.com",
+  "x.com",
+  "facebook.com",
+  "instagram.com",
+  "youtube.com",
+  "credly.com",
+  "google.com",
+  "forms.gle",
+];
+
+export function normalizeUrl(raw: string): string | null {
+  const trimmed = raw.trim().replace(TRAILING_PUNCTUATION_REGEX, "");
+  if (!trimmed) return null;
+  const withScheme = /^[a-z][a-z\d+.-]*:/i.test(trimmed)
+    ? trimmed
+    : `https://${trimmed}`;
+  try {
+    const url = new URL(withScheme);
+    if (!["http:", "https:"].includes(url.protocol)) return null;
+    return url.toString().replace(/\/$/, "");
+  } catch {
+    return null;
+  }
+}
+
+export function findUrls(text: string): string[] {
+  return Array.from(
+    new Set(
+      (text.match(URL_REGEX) ?? [])
+        .map((match) => normalizeUrl(match))
+        .filter((url): url is string => url !== null),
+    ),
+  );
+}
+
+function hostOf(url: string): string {
+  return new URL(url).hostname.replace(/^www\./, "").toLowerCase();
+}
+
+function matchesHost(host: string, candidates: string[]): boolean {
+  return candidates.some(
+    (candidate) => host === candidate || host.endsWith(`.${candidate}`),
+  );
+}
+
+export function parseGithubUsername(url: string): string | null {
+  if (hostOf(url) !== "github.com") return null;
+  const [segment] = new URL(url).pathname.split("/").filter(Boolean);
+  if (!segment || GITHUB_RESERVED_PATHS.has(segment.toLowerCase())) {
+    return null;
+  }
+  return /^[a-z\d](?:[a-z\d-]{0,38})$/i.test(segment) ? segment : null;
+}
+
+function firstPathSegment(url: string, reserved: Set<string>): string | null {
+  const [segment] = new URL(url).pathname.split("/").filter(Boolean);
+  if (!segment || reserved.has(segment.toLowerCase())) return null;
+  return CODE_HOST_USERNAME_REGEX.test(segment) ? segment : null;
+}
+
+/** GitLab profiles live at `/<username>` or `/users/<username>`. */
+function parseGitlabUsername(url: string): string | null {
+  const [first, second] = new URL(url).pathname.split("/").filter(Boolean);
+  if (first?.toLowerCase() === "users" && second) {
+    return CODE_HOST_USERNAME_REGEX.test(second) ? second : null;
+  }
+  return firstPathSegment(url, GITLAB_RESERVED_PATHS);
+}
+
+/**
+ * Recognises a profile (or repository) link on a code host and returns the
+ * account it belongs to. Self-hosted GitLab, Gitea and Forgejo instances
+ * are recognised by a `gitlab.`, `gitea.` or `forgejo.` host name.
+ */
+export function parseCodeProfile(url: string): CodeProfile | null {
+  const host = hostOf(url);
+  const profile = (provider: CodeHostProvider, username: string | null) =>
+    username
+      ? { provider, host, username, url: `https://${host}/${username}` }
+      : null;
+
+  if (host === "github.com") return profile("github", parseGithubUsername(url));
+  if (host === "gitlab.com" || host.startsWith("gitlab.")) {
+    return profile("gitlab", parseGitlabUsername(url));
+  }
+  if (GITEA_HOSTS.includes(host) || /^(?:gitea|forgejo)\./.test(host)) {
+    return profile("gitea", firstPathSegment(url, GITEA_RESERVED_PATHS));
+  }
+  if (host === "bitbucket.org") {
+    return profile("bitbucket", firstPathSegment(url, BITBUCKET_RESERVED_PATHS));
+  }
+  return null;
+}
+
+/** Malformed escapes such as a stray "%" are kept as written. */
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Classifies the URLs found in the resume text and in document link
+ * annotations (where clickable "GitHub" or "Portfolio" labels hide the real
+ * target) into profile links. Text matches win over annotations.
+ */
+export function resolveProfileLinks(
+  text: string,
+  links: ResumeLink[] = [],
+): ProfileLinks {
+  const annotationUrls: string[] = [];
+  const emails: string[] = [];
+  const phones: string[] = [];
+
+  for (const link of links) {
+    const target = link.url.trim();
+    if (/^mailto:/i.test(target)) {
+      const email = safeDecode(target.slice(7).split("?")[0]);
+      if (email) emails.push(email.toLowerCase());
+      continue;
+    }
+    if (/^tel:/i.test(target)) {
+      phones.push(safeDecode(target.slice(4)));
+      continue;
+    }
+    const url = normalizeUrl(target);
+    if (url) annotationUrls.push(url);
+  }
+
+  const urls = Array.from(new Set([...findUrls(text), ...annotationUrls]));
+
+  let githubUsername: string | null = null;
+  for (const url of urls) {
+    githubUsername = parseGithubUsername(url);
+    if (githubUsername) break;
+  }
+
+  const linkedinUrl =
+    urls.find((url) => {
+      const path = new URL(url).pathname;
+      return (
+        matchesHost(hostOf(url), ["linkedin.com"]) &&
+        /^\/(?:in|pub)\//.test(path)
+      );
+    }) ?? null;
+
+  const codeProfiles = new Map<string, CodeProfile>();
+  const codeProfileUrls = new Set<string>();
+  for (const url of urls) {
+    const profile = parseCodeProfile(url);
+    if (!profile) continue;
+    codeProfileUrls.add(url);
+    const key = `${profile.provider} ${profile.host} ${profile.username}`.toLowerCase();
+    if (!codeProfiles.has(key)) codeProfiles.set(key, profile);
+  }
+
+  const portfolioUrl =
+    urls.find(
+      (url) =>
+        !codeProfileUrls.has(url) && !matchesHost(hostOf(url), NON_PORTFOLIO_HOSTS),
+    ) ?? null;
+
+  return {
+    githubUrl: githubUsername ? `https://github.com/${githubUsername}` : null,
+    githubUsername,
+    codeProfiles: Array.from(codeProfiles.values()),
+    linkedinUrl,
+    portfolioUrl,
+    emails: Array.from(new Set(emails)),
+    phones: Array.from(new Set(phones)),
+    urls,
+  };
+}
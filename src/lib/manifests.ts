@@ -0,0 +1,106 @@
+export type ManifestFile =
+  | "package.json"
+  | "requirements.txt"
+  | "go.mod"
+  | "Cargo.toml";
+
+export const MANIFEST_FILES: ManifestFile[] = [
+  "package.json",
+  "requirements.txt",
+  "go.mod",
+  "Cargo.toml",
+];
+
+const CARGO_DEPENDENCY_SECTION_REGEX =
+  /^\[(?:workspace\.)?(?:dev-|build-)?dependencies\]$/;
+const CARGO_INLINE_SECTION_REGEX =
+  /^\[(?:workspace\.)?(?:dev-|build-)?dependencies\.([A-Za-z0-9_-]+)\]$/;
+
+function parsePackageJson(content: string): string[] {
+  try {
+    const manifest = JSON.parse(content) as Record<string, unknown>;
+    return ["dependencies", "devDependencies", "peerDependencies"].flatMap(
+      (field) => {
+        const value = manifest[field];
+        return value && typeof value === "object" ? Object.keys(value) : [];
+      },
+    );
+  } catch {
+    return [];
+  }
+}
+
+function parseRequirements(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter((line) => line && !line.startsWith("-"))
+    .map((line) => line.split(/[\s<>=~!;[@]/)[0])
+    .filter(Boolean);
+}
+
+function parseGoMod(content: string): string[] {
+  const modules: string[] = [];
+  let inRequireBlock = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\/\/.*$/, "").trim();
+    if (inRequireBlock) {
+      if (line === ")") {
+        inRequireBlock = false;
+        continue;
+      }
+      const [module] = line.split(/\s+/);
+      if (module) modules.push(module);
+      continue;
+    }
+    if (/^require\s*\($/.test(line)) {
+      inRequireBlock = true;
+      continue;
+    }
+    const single = line.match(/^require\s+(\S+)\s+\S+/);
+    if (single) modules.push(single[1]);
+  }
+
+  return modules;
+}
+
+function parseCargoToml(content: string): string[] {
+  const crates: string[] = [];
+  let inDependencies = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    if (line.startsWith("[")) {
+      const inline = line.match(CARGO_INLINE_SECTION_REGEX);
+      if (inline) crates.push(inline[1]);
+      inDependencies = CARGO_DEPENDENCY_SECTION_REGEX.test(line);
+      continue;
+    }
+    if (!inDependencies) continue;
+    const key = line.match(/^([A-Za-z0-9_-]+)\s*=/);
+    if (key) crates.push(key[1]);
+  }
+
+  return crates;
+}
+
+/**
+ * Lists the dependency names declared in a manifest. Go modules keep their
+ * full import path; matching against path segments is left to the caller.
+ */
+export function parseManifestDependencies(
+  file: ManifestFile,
+  content: string,
+): string[] {
+  switch (file) {
+    case "package.json":
+      return parsePackageJson(content);
+    case "requirements.txt":
+      return parseRequirements(content);
+    case "go.mod":
+      return parseGoMod(content);
+    case "Cargo.toml":
+      return parseCargoToml(content);
+  }
+}
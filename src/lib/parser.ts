@@ -1,38 +1,53 @@
-﻿const GITHUB_REGEX =
-  /https?:\/\/(?:www\.)?github\.com\/[^\s)]+/gi;
+﻿import {
+  extractCertifications,
+  type Certification,
+} from "@/lib/certifications";
+import { extractEducation, type Education } from "@/lib/education";
+import {
+  extractExperience,
+  totalYearsOfExperience,
+  type WorkExperience,
+} from "@/lib/experience";
+import { indexLineStyles, type LineStyle, type StyleIndex } from "@/lib/layout";
+import { type CodeProfile, resolveProfileLinks, type ResumeLink } from "@/lib/links";
+import {
+  isSectionHeading,
+  sectionLines,
+  segmentSections,
+  type ResumeSections,
+} from "@/lib/sections";
+import { normalizeSkills, type ResumeSkill } from "@/lib/skills";
+import {
+  buildExtractiveSummary,
+  narrativeSections,
+} from "@/lib/summarizer/heuristic";
+import type { SummaryProvider } from "@/lib/summarizer/types";
+
 const EMAIL_REGEX =
   /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
 const PHONE_REGEX =
   /(?:\+?\d{1,3}[\s-]?)?(?:\(?\d{3}\)?[\s-]?)?\d{3}[\s-]?\d{4}/g;
 
-const SUMMARY_KEYWORDS = [
-  "experience",
-  "developed",
-  "engineer",
-  "project",
-  "designed",
-  "built",
-  "led",
-  "collaborated",
-  "improved",
-  "delivered",
-  "managed",
-  "optimized",
-  "implemented",
-  "created",
-  "modernized",
-  "launched",
-];
-
 export type ParsedResume = {
   name: string | null;
   headline: string | null;
   githubUrl: string | null;
   githubUsername: string | null;
+  codeProfiles: CodeProfile[];
+  linkedinUrl: string | null;
+  portfolioUrl: string | null;
+  links: string[];
   emails: string[];
   phones: string[];
   skills: string[];
+  canonicalSkills: ResumeSkill[];
   summary: string[];
+  summaryProvider: SummaryProvider;
+  experience: WorkExperience[];
+  totalYearsExperience: number | null;
+  education: Education[];
+  certifications: Certification[];
+  sections: ResumeSections;
   rawText: string;
 };
 
@@ -40,14 +55,41 @@ function cleanText(text: string): string {
   return text.replace(/\r/g, "\n").replace(/\n{2,}/g, "\n\n").trim();
 }
 
-function extractName(lines: string[]): string | null {
+function isNameCandidate(line: string, styles?: StyleIndex): boolean {
+  if (!line) return false;
+  if (line.length > 60) return false;
+  if (/\d/.test(line)) return false;
+  if (/[@/:]/.test(line)) return false;
+  if (line.toLowerCase().includes("curriculum vitae")) return false;
+  if (isSectionHeading(line, styles)) return false;
+  return line.split(" ").length <= 5;
+}
+
+function extractStyledName(lines: string[], styles: StyleIndex): string | null {
+  let best: { line: string; fontSize: number } | null = null;
+
+  for (const line of lines.slice(0, 12)) {
+    const trimmed = line.trim();
+    const style = styles.get(trimmed);
+    if (!style || !isNameCandidate(trimmed, styles)) continue;
+    if (style.fontSize < styles.bodyFontSize * 1.2) continue;
+    if (!best || style.fontSize > best.fontSize) {
+      best = { line: trimmed, fontSize: style.fontSize };
+    }
+  }
+
+  return best?.line ?? null;
+}
+
+function extractName(lines: string[], styles?: StyleIndex): string | null {
+  if (styles) {
+    const styledName = extractStyledName(lines, styles);
+    if (styledName) return styledName;
+  }
+
   for (const line of lines) {
     const trimmed = line.trim();
-    if (!trimmed) continue;
-    if (trimmed.length > 60) continue;
-    if (/\d/.test(trimmed)) continue;
-    if (trimmed.toLowerCase().includes("curriculum vitae")) continue;
-    if (trimmed.split(" ").length <= 5) {
+    if (isNameCandidate(trimmed, styles)) {
       return trimmed;
     }
   }
@@ -60,7 +102,10 @@ function extractHeadline(lines: string[], name: string | null): string | null {
     (line) => line.trim().toLowerCase() === name.toLowerCase(),
   );
   if (nameIndex >= 0 && nameIndex + 1 < lines.length) {
-    const nextLine = lines[nameIndex + 1]?.trim();
+    const nextLine = lines
+      .slice(nameIndex + 1)
+      .find((line) => line.trim())
+      ?.trim();
     if (nextLine && nextLine.length <= 80) {
       return nextLine;
     }
@@ -68,106 +113,164 @@ function extractHeadline(lines: string[], name: string | null): string | null {
   return null;
 }
 
-function extractSkills(text: string): string[] {
+function splitSkillList(body: string): string[] {
+  return body
+    .split("\n")
+    .map((line) =>
+      line.replace(/^[\s\u2022*-]+/u, "").replace(/^[^:,]{1,30}:\s*/, ""),
+    )
+    .flatMap((line) => line.split(/[,;|\u2022\u00b7]/u))
+    .map((skill) => skill.trim())
+    .filter((skill) => skill.length > 1);
+}
+
+function extractSkills(sections: ResumeSections, text: string): string[] {
+  if (sections.skills?.text) {
+    return splitSkillList(sections.skills.text);
+  }
+
   const skillsSectionMatch = text.match(
     /(skills|technical skills|toolbox|technologies)\s*: ?([\s\S]+?)(?:\n\n|experience|projects|education)/i,
   );
   if (!skillsSectionMatch) return [];
 
   const [, , sectionBody] = skillsSectionMatch;
-  return sectionBody
-    .split(/[,\u2022\n]/u)
-    .map((skill) => skill.trim())
-    .filter((skill) => skill.length > 1)
-    .slice(0, 15);
+  return splitSkillList(sectionBody);
 }
 
-function tokenizeSentences(text: string): string[] {
-  const sentences = text
-    .replace(/\n+/g, " ")
-    .split(/(?<=[.!?])\s+/)
-    .map((sentence) => sentence.trim())
-    .filter((sentence) => sentence.length > 0 && sentence.length <= 300);
-  return [...new Set(sentences)];
+function collectSectionText(
+  sections: ResumeSections,
+  keys: Array<keyof ResumeSections>,
+): string {
+  return keys
+    .map((key) => sections[key]?.text ?? "")
+    .filter(Boolean)
+    .join("\n\n");
 }
 
-function scoreSentence(sentence: string): number {
-  let score = 0;
-  const lower = sentence.toLowerCase();
-  for (const keyword of SUMMARY_KEYWORDS) {
-    if (lower.includes(keyword)) score += 2;
-  }
-  const lengthScore = Math.min(sentence.length / 10, 10);
-  score += lengthScore;
-  if (/[\u2022*-]/u.test(sentence)) score += 1;
-  if (sentence.includes("%") || sentence.match(/\d+/)) score += 1;
-  return score;
+function extractEmails(text: string): string[] {
+  return Array.from(new Set(text.match(EMAIL_REGEX) ?? [])).map((email) =>
+    email.toLowerCase(),
+  );
 }
 
-function buildSummary(sentences: string[]): string[] {
-  if (!sentences.length) return [];
-
-  const scored = sentences
-    .map((sentence) => ({ sentence, score: scoreSentence(sentence) }))
-    .sort((a, b) => b.score - a.score);
-
-  const topSentences = scored.slice(0, 4).map((item) => item.sentence);
-
-  if (!topSentences.length) {
-    return sentences.slice(0, 3);
-  }
+function extractPhones(text: string): string[] {
+  return (
+    text
+      .match(PHONE_REGEX)
+      ?.map((phone) => phone.replace(/\s+/g, " ").trim())
+      .filter((phone) => phone.replace(/\D/g, "").length >= 10) ?? []
+  );
+}
 
-  return topSentences;
+/** Checks that JSON posted back by the client has the shape of a parsed resume. */
+export function isParsedResume(value: unknown): value is ParsedResume {
+  const resume = value as ParsedResume | null;
+  return (
+    !!resume &&
+    typeof resume === "object" &&
+    Array.isArray(resume.emails) &&
+    Array.isArray(resume.phones) &&
+    Array.isArray(resume.summary) &&
+    Array.isArray(resume.canonicalSkills) &&
+    Array.isArray(resume.experience) &&
+    Array.isArray(resume.education) &&
+    Array.isArray(resume.certifications)
+  );
 }
 
-export function parseResumeText(text: string): ParsedResume {
+export type ParseResumeOptions = {
+  referenceDate?: Date;
+  lineStyles?: LineStyle[];
+  links?: ResumeLink[];
+};
+
+export function parseResumeText(
+  text: string,
+  options: ParseResumeOptions = {},
+): ParsedResume {
+  const referenceDate = options.referenceDate ?? new Date();
   const cleaned = cleanText(text);
   const lines = cleaned.split("\n");
+  const styles = options.lineStyles?.length
+    ? indexLineStyles(options.lineStyles)
+    : undefined;
+  const sections = segmentSections(lines, styles);
 
-  const name = extractName(lines);
-  const headline = extractHeadline(lines, name);
+  const headerLines = sectionLines(sections.header);
+  const name = extractName(headerLines, styles) ?? extractName(lines, styles);
+  const headline = extractHeadline(
+    headerLines.length ? headerLines : lines,
+    name,
+  );
+
+  const contactText = collectSectionText(sections, ["header", "contact"]);
 
-  const emails = Array.from(new Set(cleaned.match(EMAIL_REGEX) ?? [])).map(
-    (email) => email.toLowerCase(),
+  const profileLinks = resolveProfileLinks(
+    [contactText, cleaned].join("\n\n"),
+    options.links,
   );
 
-  const phones =
-    cleaned
-      .match(PHONE_REGEX)
-      ?.map((phone) => phone.replace(/\s+/g, " ").trim())
-      .filter((phone) => phone.replace(/\D/g, "").length >= 10) ?? [];
-
-  const githubMatches = cleaned.match(GITHUB_REGEX) ?? [];
-  const firstMatch = githubMatches.length > 0 ? githubMatches[0] : null;
-  const rawGithubUrl = firstMatch ? firstMatch.replace(/[\s,.;)]*$/, "") : null;
-
-  let githubUsername: string | null = null;
-  if (rawGithubUrl) {
-    const match = rawGithubUrl
-      .replace(/https?:\/\//, "")
-      .replace(/www\./, "")
-      .match(/^github\.com\/([^\/\s]+)/i);
-    githubUsername = match?.[1] ?? null;
-  }
+  const contactEmails = extractEmails(contactText);
+  const textEmails = contactEmails.length
+    ? contactEmails
+    : extractEmails(cleaned);
+  const emails = textEmails.length ? textEmails : profileLinks.emails;
 
-  const githubUrl =
-    githubUsername !== null
-      ? `https://github.com/${githubUsername}`
-      : rawGithubUrl;
+  const contactPhones = extractPhones(contactText);
+  const textPhones = contactPhones.length
+    ? contactPhones
+    : extractPhones(cleaned);
+  const phones = textPhones.length ? textPhones : profileLinks.phones;
 
-  const skills = extractSkills(cleaned);
-  const sentences = tokenizeSentences(cleaned);
-  const summary = buildSummary(sentences);
+  const experience = extractExperience(
+    sections.experience?.text ?? "",
+    referenceDate,
+  );
+  const totalYearsExperience = totalYearsOfExperience(
+    experience,
+    referenceDate,
+  );
+  const education = extractEducation(sections.education?.text ?? "");
+  const certifications = extractCertifications(
+    sections.certifications?.text ?? "",
+  );
+
+  const narrativeText = collectSectionText(sections, [
+    "summary",
+    "experience",
+    "projects",
+    "volunteering",
+  ]);
+  const canonicalSkills = normalizeSkills(
+    extractSkills(sections, cleaned),
+    narrativeText,
+  );
+  const summary = buildExtractiveSummary({
+    sections: narrativeSections(sections),
+    text: cleaned,
+  });
 
   return {
     name,
     headline,
-    githubUrl,
-    githubUsername,
+    githubUrl: profileLinks.githubUrl,
+    githubUsername: profileLinks.githubUsername,
+    codeProfiles: profileLinks.codeProfiles,
+    linkedinUrl: profileLinks.linkedinUrl,
+    portfolioUrl: profileLinks.portfolioUrl,
+    links: profileLinks.urls,
     emails,
     phones,
-    skills,
+    skills: canonicalSkills.map((skill) => skill.name),
+    canonicalSkills,
     summary,
+    summaryProvider: { name: "heuristic", model: null },
+    experience,
+    totalYearsExperience,
+    education,
+    certifications,
+    sections,
     rawText: cleaned,
   };
 }
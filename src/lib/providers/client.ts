@@ -0,0 +1,69 @@
+import { createMemoryStore } from "@/lib/cache";
+import type { GithubRequestOptions } from "@/lib/github-client";
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 15000;
+
+export type ForgeClientConfig = {
+  /** Used in error messages, e.g. "GitLab". */
+  label: string;
+  host: string;
+  headers?: Record<string, string>;
+};
+
+export type ForgeClient = {
+  /** Resolves to null when the resource does not exist. */
+  fetchText: (path: string, options?: GithubRequestOptions) => Promise<string | null>;
+  fetchJson: <T>(path: string, options?: GithubRequestOptions) => Promise<T | null>;
+};
+
+type CachedBody = { body: string; fetchedAt: number };
+
+const responseCache = createMemoryStore<CachedBody>();
+
+/**
+ * A small GET client for GitLab and Gitea instances. Successful responses
+ * are cached in memory for ten minutes; these APIs are called far less
+ * often than GitHub's, so there is no revalidation or file store.
+ */
+export function createForgeClient(config: ForgeClientConfig): ForgeClient {
+  const fetchText = async (path: string, options: GithubRequestOptions = {}) => {
+    const url = `https://${config.host}${path}`;
+    const cached = await responseCache.get(url);
+    if (cached && !options.refresh && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      return cached.body;
+    }
+
+    const response = await fetch(url, {
+      headers: { "User-Agent": "ai-resume-helper", ...config.headers },
+      cache: "no-store",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (response.status === 404) return null;
+    if (response.status === 429) {
+      throw new Error(`${config.label} API rate limit reached. Try again later.`);
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      const message = body?.message ?? body?.error;
+      throw new Error(
+        typeof message === "string"
+          ? message
+          : `${config.label} request failed with status ${response.status}`,
+      );
+    }
+
+    const body = await response.text();
+    await responseCache.set(url, { body, fetchedAt: Date.now() });
+    return body;
+  };
+
+  return {
+    fetchText,
+    async fetchJson<T>(path: string, options?: GithubRequestOptions) {
+      const text = await fetchText(path, options);
+      return text === null ? null : (JSON.parse(text) as T);
+    },
+  };
+}
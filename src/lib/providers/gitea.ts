@@ -0,0 +1,269 @@
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { calendarFromCounts } from "@/lib/contributions";
+import {
+  buildGithubInsights,
+  README_EXCERPT_LENGTH,
+  screenRepositories,
+  selectLanguageRepositories,
+  selectRankedRepositories,
+  type GithubActivity,
+  type GithubRepository,
+} from "@/lib/github";
+import { weightLanguageBytes, type RepositoryLanguageBytes } from "@/lib/languages";
+import { createForgeClient } from "@/lib/providers/client";
+import type { ProfileProvider } from "@/lib/providers/types";
+
+const API_PREFIX = "/api/v1";
+// Gitea caps pages at 50 items by default, Codeberg included.
+const REPOSITORY_PAGE_SIZE = 50;
+const LANGUAGE_CONCURRENCY = 4;
+const CALENDAR_DAYS = 365;
+
+const ACTIONS: Record<string, string> = {
+  create_pull_request: "opened",
+  merge_pull_request: "merged",
+  close_pull_request: "closed",
+  create_issue: "opened",
+  close_issue: "closed",
+};
+
+type GiteaUser = {
+  login: string;
+  full_name: string;
+  avatar_url: string;
+  /** Missing before Gitea 1.19. */
+  html_url?: string;
+  description?: string;
+  followers_count: number;
+  following_count: number;
+  created: string;
+};
+
+type GiteaRepository = {
+  name: string;
+  html_url: string;
+  description: string;
+  stars_count: number;
+  forks_count: number;
+  open_issues_count: number;
+  language: string;
+  topics?: string[] | null;
+  website: string;
+  created_at: string;
+  updated_at: string;
+  fork: boolean;
+  archived: boolean;
+  default_branch: string;
+};
+
+type GiteaHeatmapEntry = { timestamp: number; contributions: number };
+
+type GiteaActivity = {
+  id: number;
+  op_type: string;
+  /** JSON for pushes, `index|title` for issues and pull requests. */
+  content: string;
+  ref_name: string;
+  created: string;
+  repo: { name: string; html_url: string } | null;
+};
+
+function toRepository(repo: GiteaRepository): GithubRepository {
+  return {
+    name: repo.name,
+    html_url: repo.html_url,
+    description: repo.description || null,
+    stargazers_count: repo.stars_count,
+    forks_count: repo.forks_count,
+    open_issues_count: repo.open_issues_count,
+    language: repo.language || null,
+    topics: repo.topics ?? [],
+    homepage: repo.website || null,
+    updated_at: repo.updated_at,
+    pushed_at: repo.updated_at,
+    fork: repo.fork,
+    archived: repo.archived,
+    created_at: repo.created_at,
+    default_branch: repo.default_branch,
+    license: null,
+    template_repository: null,
+  };
+}
+
+function toActivity(activity: GiteaActivity): GithubActivity | null {
+  if (!activity.repo) return null;
+  const base = {
+    id: String(activity.id),
+    repoName: activity.repo.name,
+    created_at: activity.created,
+    url: null as string | null,
+  };
+  const [index, ...title] = activity.content.split("|");
+
+  switch (activity.op_type) {
+    case "commit_repo": {
+      let messages: string[] = [];
+      try {
+        const push = JSON.parse(activity.content) as {
+          Commits?: Array<{ Message?: string }> | null;
+        };
+        messages = (push.Commits ?? [])
+          .map((commit) => commit.Message?.split("\n")[0] ?? "")
+          .filter(Boolean)
+          .slice(0, 2);
+      } catch {
+        // Older instances store an empty string for some pushes.
+      }
+      return {
+        ...base,
+        type: "PushEvent",
+        description:
+          messages.length > 0
+            ? `Pushed ${messages.length} commit${messages.length > 1 ? "s" : ""}: ${messages.join(" · ")}`
+            : "Pushed new commits",
+      };
+    }
+    case "create_pull_request":
+    case "merge_pull_request":
+    case "close_pull_request":
+      return {
+        ...base,
+        type: "PullRequestEvent",
+        description: `${ACTIONS[activity.op_type]} pull request ${title.join("|")}`.trim(),
+        url: `${activity.repo.html_url}/pulls/${index}`,
+      };
+    case "create_issue":
+    case "close_issue":
+      return {
+        ...base,
+        type: "IssuesEvent",
+        description: `${ACTIONS[activity.op_type]} issue ${title.join("|")}`.trim(),
+        url: `${activity.repo.html_url}/issues/${index}`,
+      };
+    case "create_repo":
+      return { ...base, type: "CreateEvent", description: "Created repository" };
+    case "publish_release":
+      return {
+        ...base,
+        type: "ReleaseEvent",
+        description: `Published release ${activity.ref_name}`.trim(),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads a Gitea or Forgejo profile, such as one on Codeberg, through API
+ * v1. Only the first page of repositories is analysed. The calendar comes
+ * from the profile heatmap, which instances may disable. A GITEA_TOKEN is
+ * optional and is sent to every configured Gitea host.
+ */
+export function createGiteaProvider(config: {
+  hosts: string[];
+  token?: string;
+}): ProfileProvider {
+  return {
+    name: "gitea",
+    label: "Gitea",
+    hosts: config.hosts,
+    async fetchInsights(username, repoLimit, options) {
+      const client = createForgeClient({
+        label: options.host === "codeberg.org" ? "Codeberg" : "Gitea",
+        host: options.host,
+        headers: config.token ? { Authorization: `token ${config.token}` } : {},
+      });
+      const api = <T>(path: string) => client.fetchJson<T>(`${API_PREFIX}${path}`, options);
+      const login = encodeURIComponent(username);
+
+      const user = await api<GiteaUser>(`/users/${login}`);
+      if (!user) throw new Error(`Gitea user ${username} was not found.`);
+
+      const all = (
+        (await api<GiteaRepository[]>(
+          `/users/${login}/repos?limit=${REPOSITORY_PAGE_SIZE}`,
+        )) ?? []
+      ).map(toRepository);
+      const screened = screenRepositories(all, options);
+      const ranked = await selectRankedRepositories(
+        screened.included,
+        repoLimit,
+        options,
+        async (candidates) =>
+          new Map(
+            await Promise.all(
+              candidates.map(async (repo) => {
+                const text = await client
+                  .fetchText(`${API_PREFIX}/repos/${login}/${repo.name}/raw/README.md`, options)
+                  .catch(() => null);
+                return [repo.name, text ? text.slice(0, README_EXCERPT_LENGTH) : null] as const;
+              }),
+            ),
+          ),
+      );
+      const rankedOut = new Set(ranked.excluded.map((repo) => repo.name));
+      const repos = screened.included.filter((repo) => !rankedOut.has(repo.name));
+
+      const languageBytes = await mapWithConcurrency(
+        selectLanguageRepositories(repos, options),
+        LANGUAGE_CONCURRENCY,
+        async (repo): Promise<RepositoryLanguageBytes | null> => {
+          const bytes = await api<Record<string, number>>(
+            `/repos/${login}/${repo.name}/languages`,
+          ).catch(() => null);
+          return bytes ? { bytes, lastActivity: repo.pushed_at } : null;
+        },
+      );
+
+      const heatmap = await api<GiteaHeatmapEntry[]>(`/users/${login}/heatmap`).catch(
+        () => null,
+      );
+      const counts = new Map<string, number>();
+      for (const entry of heatmap ?? []) {
+        const date = new Date(entry.timestamp * 1000).toISOString().slice(0, 10);
+        counts.set(date, (counts.get(date) ?? 0) + entry.contributions);
+      }
+
+      const activities =
+        (await api<GiteaActivity[]>(`/users/${login}/activities/feeds?limit=50`).catch(
+          () => null,
+        )) ?? [];
+
+      return buildGithubInsights({
+        source: "rest",
+        provider: "gitea",
+        host: options.host,
+        profile: {
+          login: user.login,
+          name: user.full_name || null,
+          avatar_url: user.avatar_url,
+          html_url: user.html_url ?? `https://${options.host}/${user.login}`,
+          bio: user.description || null,
+          followers: user.followers_count,
+          following: user.following_count,
+          public_repos: all.length,
+          public_gists: 0,
+          created_at: user.created,
+        },
+        repos,
+        topLanguages: weightLanguageBytes(
+          languageBytes.filter(
+            (result): result is RepositoryLanguageBytes => result !== null,
+          ),
+        ),
+        topRepos: ranked.top.map((repo) => ({
+          ...repo,
+          topics: repo.topics ?? [],
+          readmeExcerpt: ranked.readmes.get(repo.name) ?? null,
+        })),
+        recentActivity: activities
+          .map(toActivity)
+          .filter((item): item is GithubActivity => item !== null),
+        contributionCalendar: heatmap
+          ? calendarFromCounts(counts, CALENDAR_DAYS, "year")
+          : null,
+        excludedRepos: [...screened.excluded, ...ranked.excluded],
+      });
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import { fetchGithubInsights, type GithubDataSource } from "@/lib/github";
+import { canUseGraphql, fetchGraphqlInsights } from "@/lib/github-graphql";
+import type { ProfileProvider } from "@/lib/providers/types";
+
+/**
+ * Picks the data source from the request or GITHUB_DATA_SOURCE. GraphQL
+ * needs credentials, so anonymous servers always fall back to REST.
+ */
+async function resolveSource(requested: string | undefined): Promise<GithubDataSource> {
+  const source =
+    requested === "rest" || requested === "graphql"
+      ? requested
+      : process.env.GITHUB_DATA_SOURCE;
+  if (source === "graphql" && (await canUseGraphql())) return "graphql";
+  return "rest";
+}
+
+export function createGithubProvider(): ProfileProvider {
+  return {
+    name: "github",
+    label: "GitHub",
+    hosts: ["github.com"],
+    async fetchInsights(username, repoLimit, options) {
+      return (await resolveSource(options.source)) === "graphql"
+        ? fetchGraphqlInsights(username, repoLimit, options)
+        : fetchGithubInsights(username, repoLimit, options);
+    },
+  };
+}
@@ -0,0 +1,294 @@
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { calendarFromCounts } from "@/lib/contributions";
+import {
+  buildGithubInsights,
+  README_EXCERPT_LENGTH,
+  screenRepositories,
+  selectLanguageRepositories,
+  selectRankedRepositories,
+  type GithubActivity,
+  type GithubRepository,
+} from "@/lib/github";
+import type { GithubRequestOptions } from "@/lib/github-client";
+import { weightLanguageBytes, type RepositoryLanguageBytes } from "@/lib/languages";
+import { createForgeClient, type ForgeClient } from "@/lib/providers/client";
+import type { ProfileProvider } from "@/lib/providers/types";
+
+const API_PREFIX = "/api/v4";
+const LANGUAGE_CONCURRENCY = 4;
+const CALENDAR_DAYS = 365;
+
+type GitlabUser = {
+  id: number;
+  username: string;
+  name: string;
+  avatar_url: string;
+  web_url: string;
+  /** The fields below are missing on older instances. */
+  bio?: string | null;
+  followers?: number;
+  following?: number;
+  created_at?: string;
+};
+
+type GitlabProject = {
+  id: number;
+  path: string;
+  web_url: string;
+  description: string | null;
+  star_count: number;
+  forks_count: number;
+  /** Missing when the project's issue tracker is disabled. */
+  open_issues_count?: number;
+  topics?: string[];
+  created_at: string;
+  last_activity_at: string;
+  archived: boolean;
+  default_branch?: string | null;
+  readme_url?: string | null;
+  forked_from_project?: { path_with_namespace: string } | null;
+};
+
+type GitlabEvent = {
+  id: number;
+  action_name: string;
+  target_type: string | null;
+  target_title: string | null;
+  target_iid?: number | null;
+  created_at: string;
+  project_id: number | null;
+  push_data?: {
+    commit_count: number;
+    ref: string | null;
+    commit_title: string | null;
+  } | null;
+};
+
+/** GitLab has no primary language; the largest share is filled in later. */
+function toRepository(project: GitlabProject): GithubRepository {
+  return {
+    name: project.path,
+    html_url: project.web_url,
+    description: project.description,
+    stargazers_count: project.star_count,
+    forks_count: project.forks_count,
+    open_issues_count: project.open_issues_count ?? 0,
+    language: null,
+    topics: project.topics ?? [],
+    homepage: null,
+    updated_at: project.last_activity_at,
+    pushed_at: project.last_activity_at,
+    fork: Boolean(project.forked_from_project),
+    archived: project.archived,
+    created_at: project.created_at,
+    default_branch: project.default_branch ?? undefined,
+    license: null,
+    template_repository: null,
+  };
+}
+
+function toActivity(
+  event: GitlabEvent,
+  projects: Map<number, GithubRepository>,
+): GithubActivity | null {
+  const project = event.project_id === null ? undefined : projects.get(event.project_id);
+  if (!project) return null;
+
+  const base = {
+    id: String(event.id),
+    repoName: project.name,
+    created_at: event.created_at,
+    url: null as string | null,
+  };
+  const title = event.target_title ?? "";
+
+  if (event.push_data) {
+    const { commit_count: count, commit_title: commitTitle } = event.push_data;
+    return {
+      ...base,
+      type: "PushEvent",
+      description: commitTitle
+        ? `Pushed ${count} commit${count === 1 ? "" : "s"}: ${commitTitle}`
+        : "Pushed new commits",
+    };
+  }
+
+  switch (event.target_type) {
+    case "MergeRequest":
+      return {
+        ...base,
+        type: "PullRequestEvent",
+        description: `${event.action_name} merge request ${title}`.trim(),
+        url: event.target_iid ? `${project.html_url}/-/merge_requests/${event.target_iid}` : null,
+      };
+    case "Issue":
+      return {
+        ...base,
+        type: "IssuesEvent",
+        description: `${event.action_name} issue ${title}`.trim(),
+        url: event.target_iid ? `${project.html_url}/-/issues/${event.target_iid}` : null,
+      };
+    case null:
+      return event.action_name === "created"
+        ? { ...base, type: "CreateEvent", description: "Created project" }
+        : null;
+    default:
+      return {
+        ...base,
+        type: "ProjectEvent",
+        description: `${event.action_name} ${title}`.trim(),
+      };
+  }
+}
+
+async function fetchReadmeExcerpt(
+  client: ForgeClient,
+  host: string,
+  readmeUrl: string | null | undefined,
+  options: GithubRequestOptions,
+): Promise<string | null> {
+  if (!readmeUrl) return null;
+  const url = new URL(readmeUrl);
+  // Only follow README links that stay on the configured instance.
+  if (url.host !== host) return null;
+  const text = await client
+    .fetchText(url.pathname.replace("/-/blob/", "/-/raw/"), options)
+    .catch(() => null);
+  return text ? text.slice(0, README_EXCERPT_LENGTH) : null;
+}
+
+function primaryLanguage(shares: Record<string, number>): string | null {
+  return Object.entries(shares).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+/**
+ * Reads a GitLab.com or self-hosted GitLab profile through API v4. The
+ * calendar comes from the profile page's `calendar.json`, which covers the
+ * last year. GitLab reports language shares rather than sizes, so every
+ * project counts equally in the language breakdown. A GITLAB_TOKEN is
+ * optional and only raises the rate limit.
+ */
+export function createGitlabProvider(config: {
+  hosts: string[];
+  token?: string;
+}): ProfileProvider {
+  return {
+    name: "gitlab",
+    label: "GitLab",
+    hosts: config.hosts,
+    async fetchInsights(username, repoLimit, options) {
+      const client = createForgeClient({
+        label: "GitLab",
+        host: options.host,
+        headers: config.token ? { "PRIVATE-TOKEN": config.token } : {},
+      });
+      const api = <T>(path: string) => client.fetchJson<T>(`${API_PREFIX}${path}`, options);
+
+      const [match] =
+        (await api<GitlabUser[]>(`/users?username=${encodeURIComponent(username)}`)) ?? [];
+      if (!match) throw new Error(`GitLab user ${username} was not found.`);
+      const user = (await api<GitlabUser>(`/users/${match.id}`)) ?? match;
+
+      const projects =
+        (await api<GitlabProject[]>(
+          `/users/${user.id}/projects?per_page=100&order_by=last_activity_at`,
+        )) ?? [];
+      const projectsByPath = new Map(projects.map((project) => [project.path, project]));
+      const repositoriesById = new Map(
+        projects.map((project) => [project.id, toRepository(project)]),
+      );
+
+      const screened = screenRepositories(
+        Array.from(repositoriesById.values()),
+        options,
+      );
+      const ranked = await selectRankedRepositories(
+        screened.included,
+        repoLimit,
+        options,
+        async (candidates) =>
+          new Map(
+            await Promise.all(
+              candidates.map(
+                async (repo) =>
+                  [
+                    repo.name,
+                    await fetchReadmeExcerpt(
+                      client,
+                      options.host,
+                      projectsByPath.get(repo.name)?.readme_url,
+                      options,
+                    ),
+                  ] as const,
+              ),
+            ),
+          ),
+      );
+      const rankedOut = new Set(ranked.excluded.map((repo) => repo.name));
+      const repos = screened.included.filter((repo) => !rankedOut.has(repo.name));
+
+      const languageShares = await mapWithConcurrency(
+        selectLanguageRepositories(repos, options),
+        LANGUAGE_CONCURRENCY,
+        async (repo) => {
+          const shares = await api<Record<string, number>>(
+            `/projects/${projectsByPath.get(repo.name)?.id}/languages`,
+          ).catch(() => null);
+          return shares ? { name: repo.name, shares } : null;
+        },
+      );
+      const languages = new Map<string, RepositoryLanguageBytes>();
+      for (const result of languageShares) {
+        if (!result) continue;
+        languages.set(result.name, {
+          bytes: result.shares,
+          lastActivity: projectsByPath.get(result.name)?.last_activity_at ?? null,
+        });
+      }
+
+      const events =
+        (await api<GitlabEvent[]>(`/users/${user.id}/events?per_page=100`).catch(
+          () => null,
+        )) ?? [];
+      const calendar = await client
+        .fetchJson<Record<string, number>>(
+          `/users/${encodeURIComponent(user.username)}/calendar.json`,
+          options,
+        )
+        .catch(() => null);
+
+      return buildGithubInsights({
+        source: "rest",
+        provider: "gitlab",
+        host: options.host,
+        profile: {
+          login: user.username,
+          name: user.name,
+          avatar_url: user.avatar_url,
+          html_url: user.web_url,
+          bio: user.bio || null,
+          followers: user.followers ?? 0,
+          following: user.following ?? 0,
+          public_repos: projects.length,
+          public_gists: 0,
+          created_at: user.created_at ?? "",
+        },
+        repos,
+        topLanguages: weightLanguageBytes(Array.from(languages.values())),
+        topRepos: ranked.top.map((repo) => ({
+          ...repo,
+          language: primaryLanguage(languages.get(repo.name)?.bytes ?? {}),
+          topics: repo.topics ?? [],
+          readmeExcerpt: ranked.readmes.get(repo.name) ?? null,
+        })),
+        recentActivity: events
+          .map((event) => toActivity(event, repositoriesById))
+          .filter((item): item is GithubActivity => item !== null),
+        contributionCalendar: calendar
+          ? calendarFromCounts(new Map(Object.entries(calendar)), CALENDAR_DAYS, "year")
+          : null,
+        excludedRepos: [...screened.excluded, ...ranked.excluded],
+      });
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import { createGiteaProvider } from "@/lib/providers/gitea";
+import { createGithubProvider } from "@/lib/providers/github";
+import { createGitlabProvider } from "@/lib/providers/gitlab";
+import type { ProfileProvider } from "@/lib/providers/types";
+
+export type {
+  ProfileInsightOptions,
+  ProfileProvider,
+  ProfileProviderName,
+} from "@/lib/providers/types";
+
+const DEFAULT_GITLAB_HOSTS = ["gitlab.com"];
+const DEFAULT_GITEA_HOSTS = ["codeberg.org", "gitea.com"];
+
+/** Public hosts plus any self-hosted ones listed, comma separated, in `value`. */
+function readHosts(value: string | undefined, defaults: string[]): string[] {
+  const extra = (value ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set([...defaults, ...extra]));
+}
+
+/**
+ * Looks up a provider by name: "github" (the default), "gitlab" or "gitea".
+ * Self-hosted instances are only queried once listed in GITLAB_HOSTS or
+ * GITEA_HOSTS, so a resume link cannot point the server at arbitrary hosts.
+ */
+export function getProfileProvider(name: unknown = "github"): ProfileProvider | null {
+  switch (name) {
+    case "github":
+      return createGithubProvider();
+    case "gitlab":
+      return createGitlabProvider({
+        hosts: readHosts(process.env.GITLAB_HOSTS, DEFAULT_GITLAB_HOSTS),
+        token: process.env.GITLAB_TOKEN,
+      });
+    case "gitea":
+      return createGiteaProvider({
+        hosts: readHosts(process.env.GITEA_HOSTS, DEFAULT_GITEA_HOSTS),
+        token: process.env.GITEA_TOKEN,
+      });
+    default:
+      return null;
+  }
+}
+
+/** The requested host if the provider may call it, its public host if none was given. */
+export function resolveProviderHost(provider: ProfileProvider, host: unknown): string | null {
+  if (host === undefined || host === null || host === "") return provider.hosts[0];
+  if (typeof host !== "string") return null;
+  const normalized = host.trim().toLowerCase();
+  return provider.hosts.includes(normalized) ? normalized : null;
+}
@@ -0,0 +1,29 @@
+import type { GithubInsightOptions, GithubInsights } from "@/lib/github";
+import type { CodeHostProvider } from "@/lib/links";
+
+/** Bitbucket links are recognised, but its API offers too little to analyse. */
+export type ProfileProviderName = Exclude<CodeHostProvider, "bitbucket">;
+
+export type ProfileInsightOptions = GithubInsightOptions & {
+  /** The instance to query, already checked against the provider's hosts. */
+  host: string;
+  /** GitHub only: "rest" or "graphql", see GITHUB_DATA_SOURCE. */
+  source?: string;
+};
+
+/**
+ * A code host the insights route can analyse. Every provider maps its
+ * profile, repositories, activity and calendar into the GitHub insights
+ * shape, so the UI and saved snapshots need not know where they came from.
+ */
+export type ProfileProvider = {
+  name: ProfileProviderName;
+  label: string;
+  /** Hosts the server may call, the public instance first. */
+  hosts: string[];
+  fetchInsights: (
+    username: string,
+    repoLimit: number,
+    options: ProfileInsightOptions,
+  ) => Promise<GithubInsights>;
+};
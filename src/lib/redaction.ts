@@ -0,0 +1,243 @@
+import { createHash } from "node:crypto";
+
+import type { ParsedResume } from "@/lib/parser";
+import type { SavedAnalysis, SavedAnalysisSummary } from "@/lib/storage";
+
+export type RedactedResume = {
+  resume: ParsedResume;
+  /** The stand-in used for the candidate's name, e.g. "Candidate 3F9A". */
+  alias: string;
+};
+
+type Rule = {
+  pattern: RegExp;
+  replace: string | ((match: string, ...groups: string[]) => string);
+};
+
+const EMAIL_REGEX = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const URL_REGEX =
+  /\b(?:https?:\/\/|www\.)[^\s<>"')\]]+|\b(?:github|gitlab|linkedin|twitter|x|behance|dribbble|medium|instagram|facebook)\.com\/[^\s<>"')\]]+/gi;
+const STREET_ADDRESS_REGEX =
+  /\b\d{1,5}\s+(?:[A-Z][A-Za-z]+\.?\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Crescent|Cres|Parkway|Pkwy)\b\.?(?:,?\s*(?:Apt|Apartment|Suite|Unit|#)\.?\s*[\w-]+)?(?:,\s*[A-Z][A-Za-z.' -]+,\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?)?/g;
+const POSTAL_CODE_REGEX =
+  /\b[A-Z]{2}\s+\d{5}(?:-\d{4})?\b|\b[A-Z]\d[A-Z]\s?\d[A-Z]\d\b|\b[A-Z]{1,2}\d[A-Z\d]?\s\d[A-Z]{2}\b/g;
+const PHONE_LIKE_REGEX = /\+?\(?\d[\d\s().-]{8,}\d/g;
+const YEAR_REGEX = /\b(?:19|20)\d{2}\b/g;
+const MIN_PHONE_DIGITS = 10;
+const MIN_NAME_PART_LENGTH = 3;
+
+const PRONOUNS: Record<string, string> = {
+  he: "they",
+  she: "they",
+  him: "them",
+  his: "their",
+  hers: "theirs",
+  himself: "themselves",
+  herself: "themselves",
+};
+// "her" is "their" before a noun ("her team") and "them" otherwise ("mentored her").
+const HER_AS_OBJECT_REGEX =
+  /^(?:\s*(?:[,.;:!?)]|$)|\s+(?:and|or|but|so|to|with|in|into|on|onto|for|as|at|by|from|about|through|during|after|before|since|until|while|when|over|up|out|back|throughout)\b)/i;
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function matchCase(source: string, replacement: string) {
+  if (source === source.toUpperCase() && source.length > 1) return replacement.toUpperCase();
+  return /^[A-Z]/.test(source)
+    ? replacement.charAt(0).toUpperCase() + replacement.slice(1)
+    : replacement;
+}
+
+/** A stable stand-in name, derived from the file hash or the resume text. */
+export function candidateAlias(seed: string): string {
+  const hash = /^[0-9a-f]{8,}$/i.test(seed)
+    ? seed
+    : createHash("sha256").update(seed).digest("hex");
+  return `Candidate ${hash.slice(0, 4).toUpperCase()}`;
+}
+
+/** Numbers each distinct value so repeated mentions share one placeholder. */
+function numberedPlaceholder(label: string) {
+  const seen = new Map<string, string>();
+  return (value: string) => {
+    const key = value
+      .toLowerCase()
+      .replace(/^(?:https?:\/\/)?(?:www\.)?/, "")
+      .replace(/[/.,;:]+$/, "");
+    if (!seen.has(key)) seen.set(key, `[${label} ${seen.size + 1}]`);
+    return seen.get(key) as string;
+  };
+}
+
+function nameRules(name: string | null, alias: string): Rule[] {
+  if (!name?.trim()) return [];
+  const parts = name
+    .split(/\s+/)
+    .map((part) => part.replace(/[^\p{L}'-]/gu, ""))
+    .filter((part) => part.length >= MIN_NAME_PART_LENGTH);
+
+  return [
+    { pattern: new RegExp(escapeRegex(name.trim()), "gi"), replace: alias },
+    // Name parts are matched capitalized or in capitals, never as lowercase words.
+    ...parts.map((part) => {
+      const variants = new Set([
+        part,
+        part.toUpperCase(),
+        part.charAt(0).toUpperCase() + part.slice(1).toLowerCase(),
+      ]);
+      return {
+        pattern: new RegExp(`\\b(?:${Array.from(variants, escapeRegex).join("|")})\\b`, "g"),
+        replace: alias,
+      };
+    }),
+  ];
+}
+
+/**
+ * Known phone numbers are matched by their digits however they are spaced
+ * or punctuated; any other run of ten or more digits is treated as a phone.
+ */
+function phoneRules(phones: string[]): Rule[] {
+  const placeholder = numberedPlaceholder("PHONE");
+  const digitsOf = (text: string) => text.replace(/\D/g, "");
+
+  return [
+    ...phones.map((phone) => ({
+      pattern: new RegExp(
+        `\\+?\\(?${digitsOf(phone).split("").join("[\\s().-]*")}`,
+        "g",
+      ),
+      replace: () => placeholder(digitsOf(phone)),
+    })),
+    {
+      pattern: PHONE_LIKE_REGEX,
+      replace: (match) =>
+        digitsOf(match).length >= MIN_PHONE_DIGITS ? placeholder(digitsOf(match)) : match,
+    },
+  ];
+}
+
+/**
+ * Education lines are redacted as whole lines so that graduation years are
+ * removed there without touching employment dates elsewhere in the text.
+ */
+function graduationYearRules(resume: ParsedResume): Rule[] {
+  const years = new Set(
+    resume.education
+      .map((entry) => entry.graduationYear)
+      .filter((year): year is number => year !== null)
+      .map(String),
+  );
+  if (!years.size) return [];
+
+  const lines = (resume.sections.education?.text ?? "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => Array.from(line.matchAll(YEAR_REGEX)).some(([year]) => years.has(year)));
+
+  return lines.map((line) => ({
+    pattern: new RegExp(escapeRegex(line), "g"),
+    replace: line.replace(YEAR_REGEX, (year) => (years.has(year) ? "[YEAR]" : year)),
+  }));
+}
+
+function pronounRules(): Rule[] {
+  return [
+    {
+      pattern: /\b(?:he|she|him|his|hers|himself|herself|her)\b(?=([\s\S]{0,20}))/gi,
+      replace: (match, following) => {
+        const lower = match.toLowerCase();
+        const neutral =
+          lower === "her"
+            ? HER_AS_OBJECT_REGEX.test(following)
+              ? "them"
+              : "their"
+            : PRONOUNS[lower];
+        return matchCase(match, neutral);
+      },
+    },
+    { pattern: /\b(?:Mr|Mrs|Ms|Miss)\b(?=\.?\s+[A-Z])/g, replace: "Mx" },
+  ];
+}
+
+function buildRules(resume: ParsedResume, alias: string): Rule[] {
+  const linkPlaceholder = numberedPlaceholder("LINK");
+  const emailPlaceholder = numberedPlaceholder("EMAIL");
+
+  return [
+    ...graduationYearRules(resume),
+    { pattern: EMAIL_REGEX, replace: emailPlaceholder },
+    { pattern: URL_REGEX, replace: linkPlaceholder },
+    ...phoneRules(resume.phones),
+    { pattern: STREET_ADDRESS_REGEX, replace: "[ADDRESS]" },
+    { pattern: POSTAL_CODE_REGEX, replace: "[ADDRESS]" },
+    ...nameRules(resume.name, alias),
+    ...pronounRules(),
+  ];
+}
+
+function redactStrings<T>(value: T, redact: (text: string) => string): T {
+  if (typeof value === "string") return redact(value) as T;
+  if (Array.isArray(value)) return value.map((item) => redactStrings(item, redact)) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, redactStrings(field, redact)]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Produces the blind-review version of a resume: the name, email
+ * addresses, phone numbers, links, street addresses, graduation years and
+ * gendered pronouns are replaced in every field, including `rawText`,
+ * `sections` and `summary`. Placeholders are stable, so the same email is
+ * always "[EMAIL 1]" and the name is always the same alias.
+ */
+export function redactResume(resume: ParsedResume, seed = resume.rawText): RedactedResume {
+  const alias = candidateAlias(seed);
+  const rules = buildRules(resume, alias);
+  const redact = (text: string) =>
+    rules.reduce(
+      (current, rule) =>
+        current.replace(rule.pattern, (...args: string[]) =>
+          typeof rule.replace === "string" ? rule.replace : rule.replace(args[0], ...args.slice(1)),
+        ),
+      text,
+    );
+  const redacted = redactStrings(resume, redact);
+
+  return {
+    alias,
+    resume: {
+      ...redacted,
+      name: resume.name ? alias : null,
+      githubUrl: null,
+      githubUsername: null,
+      codeProfiles: [],
+      linkedinUrl: null,
+      portfolioUrl: null,
+      education: redacted.education.map((entry) => ({ ...entry, graduationYear: null })),
+      // Provider details carry no personal data and stay readable.
+      summaryProvider: resume.summaryProvider,
+    },
+  };
+}
+
+/** Blind-review copy of a saved analysis; the GitHub snapshot is withheld. */
+export function redactAnalysis(analysis: SavedAnalysis): SavedAnalysis {
+  const { resume, alias } = redactResume(analysis.resume, analysis.fileHash);
+  return { ...analysis, fileName: `${alias} resume`, resume, github: null };
+}
+
+export function redactAnalysisSummary(summary: SavedAnalysisSummary): SavedAnalysisSummary {
+  const alias = candidateAlias(summary.fileHash);
+  return { ...summary, fileName: `${alias} resume`, name: alias, githubUsername: null };
+}
+
+/** Blind review is switched on per request with `?blind=true`. */
+export function isBlindReview(request: Request): boolean {
+  return new URL(request.url).searchParams.get("blind") === "true";
+}
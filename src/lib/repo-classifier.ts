@@ -0,0 +1,140 @@
+import type { GithubRepository } from "@/lib/github";
+
+export type ExclusionReason = "fork" | "template" | "tutorial";
+
+export type ExcludedRepository = {
+  name: string;
+  html_url: string;
+  reason: ExclusionReason;
+  /** What gave the repository away, e.g. "Unchanged Create React App README". */
+  detail: string;
+};
+
+export type RepositoryPartition<T extends GithubRepository> = {
+  included: T[];
+  excluded: ExcludedRepository[];
+};
+
+type Fingerprint = { pattern: RegExp; detail: string };
+
+/** Generator READMEs that are left as they were scaffolded. */
+const TEMPLATE_README_FINGERPRINTS: Fingerprint[] = [
+  {
+    pattern: /bootstrapped with \[?Create React App|Getting Started with Create React App/i,
+    detail: "Unchanged Create React App README",
+  },
+  {
+    pattern: /This is a \[Next\.js\]\([^)]*\) project bootstrapped with \[?`?create-next-app/i,
+    detail: "Unchanged create-next-app README",
+  },
+  {
+    pattern: /This template provides a minimal setup to get React working in Vite/i,
+    detail: "Unchanged Vite template README",
+  },
+  {
+    pattern: /This template should help get you started developing with Vue 3 in Vite/i,
+    detail: "Unchanged Vite template README",
+  },
+  {
+    pattern: /This project was generated (?:with|using) \[Angular CLI\]/i,
+    detail: "Unchanged Angular CLI README",
+  },
+  {
+    pattern: /Laravel is a web application framework with expressive, elegant syntax/i,
+    detail: "Unchanged Laravel README",
+  },
+  {
+    pattern: /This is a new \[\*\*React Native\*\*\]\([^)]*\) project, bootstrapped using/i,
+    detail: "Unchanged React Native README",
+  },
+  {
+    pattern: /Welcome to your new SvelteKit project|Everything you need to build a Svelte project, powered by \[`?sv`?\]/i,
+    detail: "Unchanged SvelteKit README",
+  },
+];
+
+/** Course platforms and tutorial phrasing found in READMEs and descriptions. */
+const TUTORIAL_TEXT_FINGERPRINTS: Fingerprint[] = [
+  { pattern: /\bfreeCodeCamp\b/i, detail: "freeCodeCamp project" },
+  { pattern: /\bThe Odin Project\b/i, detail: "The Odin Project exercise" },
+  { pattern: /\b(?:Udemy|Coursera|Codecademy|Scrimba|Frontend Mentor|edX)\b/i, detail: "Online course project" },
+  { pattern: /\b(?:course|bootcamp) (?:project|assignment|exercise)s?\b/i, detail: "Course project" },
+  { pattern: /\b(?:assignment|homework|lab) ?#?\d+\b/i, detail: "Course assignment" },
+  { pattern: /\bfollow(?:ing|ed)? (?:along with )?(?:the|a|this) (?:\w+ )?tutorial\b/i, detail: "Built by following a tutorial" },
+  { pattern: /\bWriting your first Django app\b/i, detail: "Django tutorial polls app" },
+];
+
+const TUTORIAL_NAME_REGEX =
+  /^(?:hello[-_. ]?world.*|my[-_]first[-_].+|.+[-_]tutorials?|tutorials?[-_].+|.+[-_]course|.*(?:assignment|homework|bootcamp|udemy|freecodecamp|odin[-_]project).*|100[-_]?days[-_]?of[-_]?code.*|(?:netflix|twitter|amazon|spotify|airbnb|instagram|youtube|facebook|whatsapp|uber)[-_]clone)$/i;
+
+function findFingerprint(text: string | null, fingerprints: Fingerprint[]) {
+  return text ? fingerprints.find((fingerprint) => fingerprint.pattern.test(text)) : undefined;
+}
+
+/**
+ * GitHub copies the parent's last push time onto a new fork, so a fork whose
+ * latest push is not after its creation has no commits of its own.
+ */
+function isUntouchedFork(repo: GithubRepository) {
+  if (!repo.fork || !repo.created_at) return false;
+  return !repo.pushed_at || repo.pushed_at <= repo.created_at;
+}
+
+/**
+ * Flags repositories that say little about the candidate's own work: forks
+ * without commits of their own, repositories generated from a template or
+ * left with a scaffolded README, and tutorial or course projects recognised
+ * by name, description or README. Returns null for everything else.
+ */
+export function classifyRepository(
+  repo: GithubRepository,
+  readme: string | null = null,
+): ExcludedRepository | null {
+  const exclude = (reason: ExclusionReason, detail: string) => ({
+    name: repo.name,
+    html_url: repo.html_url,
+    reason,
+    detail,
+  });
+
+  if (isUntouchedFork(repo)) {
+    return exclude("fork", "Fork with no commits of its own");
+  }
+  if (repo.template_repository) {
+    return exclude("template", `Generated from ${repo.template_repository.full_name}`);
+  }
+
+  const template = findFingerprint(readme, TEMPLATE_README_FINGERPRINTS);
+  if (template) return exclude("template", template.detail);
+
+  if (TUTORIAL_NAME_REGEX.test(repo.name)) {
+    return exclude("tutorial", "Tutorial project name");
+  }
+  const tutorial =
+    findFingerprint(repo.description, TUTORIAL_TEXT_FINGERPRINTS) ??
+    findFingerprint(readme, TUTORIAL_TEXT_FINGERPRINTS);
+  return tutorial ? exclude("tutorial", tutorial.detail) : null;
+}
+
+/**
+ * Splits repositories into those that count towards the profile and the
+ * excluded ones. READMEs are only checked for the repositories in `readmes`.
+ */
+export function partitionRepositories<T extends GithubRepository>(
+  repos: T[],
+  readmes: Map<string, string | null> = new Map(),
+): RepositoryPartition<T> {
+  const included: T[] = [];
+  const excluded: ExcludedRepository[] = [];
+
+  for (const repo of repos) {
+    const classification = classifyRepository(repo, readmes.get(repo.name) ?? null);
+    if (classification) {
+      excluded.push(classification);
+    } else {
+      included.push(repo);
+    }
+  }
+
+  return { included, excluded };
+}
@@ -0,0 +1,190 @@
+import type { RepositoryQualitySource } from "@/lib/github";
+
+export type ReadmeCheck =
+  | "length"
+  | "structure"
+  | "installation"
+  | "usage"
+  | "code"
+  | "visuals"
+  | "badges"
+  | "project-info";
+
+export type ReadmeQuality = {
+  /** 0–100, the sum of the weights of the checks that pass. */
+  score: number;
+  words: number;
+  passed: ReadmeCheck[];
+  missing: ReadmeCheck[];
+};
+
+export type RepositoryQuality = {
+  name: string;
+  url: string;
+  fork: boolean;
+  hasTests: boolean;
+  testFileCount: number;
+  ciProviders: string[];
+  license: string | null;
+  commitCount: number;
+  candidateCommits: number;
+  /** The candidate's share of commits, from 0 to 1; null when there are none. */
+  candidateShare: number | null;
+  contributorCount: number;
+  createdAt: string | null;
+  pushedAt: string | null;
+  activeDays: number | null;
+  readme: ReadmeQuality | null;
+  /** True when the file tree was truncated, so tests or CI may be missed. */
+  partialTree: boolean;
+};
+
+export type RepositoryQualityReport = {
+  username: string;
+  checkedRepositories: number;
+  repositories: RepositoryQuality[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SUBSTANTIAL_README_WORDS = 300;
+const MIN_README_HEADINGS = 3;
+
+const README_WEIGHTS: Record<ReadmeCheck, number> = {
+  length: 20,
+  structure: 15,
+  installation: 15,
+  usage: 15,
+  code: 10,
+  visuals: 10,
+  badges: 5,
+  "project-info": 10,
+};
+
+const TEST_PATH_REGEX =
+  /(?:^|\/)(?:tests?|__tests__|specs?|e2e|cypress)\/|[._-](?:test|spec)s?\.[a-z0-9]+$|(?:^|\/)test_[^/]+\.py$|Tests?\.(?:java|kt|cs|swift|php)$/i;
+
+const CI_PROVIDERS: Array<{ name: string; pattern: RegExp }> = [
+  { name: "GitHub Actions", pattern: /^\.github\/workflows\/[^/]+\.ya?ml$/ },
+  { name: "GitLab CI", pattern: /^\.gitlab-ci\.ya?ml$/ },
+  { name: "CircleCI", pattern: /^\.circleci\/config\.ya?ml$/ },
+  { name: "Travis CI", pattern: /^\.travis\.ya?ml$/ },
+  { name: "Jenkins", pattern: /^Jenkinsfile$/ },
+  { name: "Azure Pipelines", pattern: /^azure-pipelines\.ya?ml$/ },
+  { name: "Bitbucket Pipelines", pattern: /^bitbucket-pipelines\.ya?ml$/ },
+  { name: "Drone", pattern: /^\.drone\.ya?ml$/ },
+];
+
+function countWords(text: string) {
+  return text.split(/\s+/).filter((word) => /[A-Za-z0-9]/.test(word)).length;
+}
+
+/** Markdown (`#`), underlined and reStructuredText headings. */
+function readHeadings(text: string): string[] {
+  const lines = text.split("\n");
+  return lines.flatMap((line, index) => {
+    const markdown = line.match(/^\s{0,3}#{1,6}\s+(.+)/)?.[1];
+    if (markdown) return [markdown];
+    const html = line.match(/<h[1-6][^>]*>(.*?)<\/h[1-6]>/i)?.[1];
+    if (html) return [html];
+    const next = lines[index + 1] ?? "";
+    return line.trim() && /^\s*(?:={3,}|-{3,}|~{3,})\s*$/.test(next) ? [line] : [];
+  });
+}
+
+/**
+ * Scores a README on what makes it useful to a newcomer: enough prose, a
+ * heading structure, installation and usage sections, code samples,
+ * screenshots, status badges and license or contribution notes.
+ */
+export function scoreReadme(text: string): ReadmeQuality {
+  const words = countWords(text);
+  const headings = readHeadings(text);
+  const hasSection = (pattern: RegExp) => headings.some((heading) => pattern.test(heading));
+
+  const checks: Record<ReadmeCheck, boolean> = {
+    length: words >= SUBSTANTIAL_README_WORDS,
+    structure: headings.length >= MIN_README_HEADINGS,
+    installation: hasSection(/install|setup|getting started|quick ?start|requirements|build/i),
+    usage: hasSection(/usage|example|how to|api|demo|features|configuration/i),
+    code: /```|^(?: {4}|\t)\S/m.test(text),
+    visuals: /!\[[^\]]*\]\((?![^)]*(?:shields\.io|badge))[^)]+\)|<img\b(?![^>]*(?:shields\.io|badge))/i.test(text),
+    badges: /shields\.io|badge\.svg|\/badge\b|badgen\.net/i.test(text),
+    "project-info": hasSection(/licen[cs]e|contribut|roadmap|changelog|authors?|acknowledg/i),
+  };
+
+  const passed = (Object.keys(checks) as ReadmeCheck[]).filter((check) => checks[check]);
+  // Shorter READMEs earn part of the length weight.
+  const lengthCredit = checks.length
+    ? 0
+    : Math.round((README_WEIGHTS.length * words) / SUBSTANTIAL_README_WORDS);
+
+  return {
+    score: passed.reduce((sum, check) => sum + README_WEIGHTS[check], lengthCredit),
+    words,
+    passed,
+    missing: (Object.keys(checks) as ReadmeCheck[]).filter((check) => !checks[check]),
+  };
+}
+
+export function countTestFiles(paths: string[]): number {
+  return paths.filter((path) => TEST_PATH_REGEX.test(path)).length;
+}
+
+export function detectCiProviders(paths: string[]): string[] {
+  return CI_PROVIDERS.filter((provider) =>
+    paths.some((path) => provider.pattern.test(path)),
+  ).map((provider) => provider.name);
+}
+
+function daysBetween(start: string | null, end: string | null): number | null {
+  if (!start || !end) return null;
+  const days = (new Date(end).getTime() - new Date(start).getTime()) / DAY_MS;
+  return Number.isFinite(days) ? Math.max(0, Math.round(days)) : null;
+}
+
+/**
+ * Turns the raw repository data into quality signals. Commit counts come
+ * from the contributors list (commits on the default branch, capped at the
+ * first 100 contributors), and the active period runs from the repository's
+ * creation to its latest push.
+ */
+export function buildRepositoryQualityReport(
+  username: string,
+  sources: RepositoryQualitySource[],
+): RepositoryQualityReport {
+  const login = username.toLowerCase();
+
+  const repositories = sources.map((source): RepositoryQuality => {
+    const commitCount = source.contributors.reduce(
+      (sum, contributor) => sum + contributor.contributions,
+      0,
+    );
+    const candidateCommits = source.contributors
+      .filter((contributor) => contributor.login?.toLowerCase() === login)
+      .reduce((sum, contributor) => sum + contributor.contributions, 0);
+    const testFileCount = countTestFiles(source.paths);
+
+    return {
+      name: source.name,
+      url: source.url,
+      fork: source.fork,
+      hasTests: testFileCount > 0,
+      testFileCount,
+      ciProviders: detectCiProviders(source.paths),
+      license: source.license,
+      commitCount,
+      candidateCommits,
+      candidateShare: commitCount
+        ? parseFloat((candidateCommits / commitCount).toFixed(2))
+        : null,
+      contributorCount: source.contributors.length,
+      createdAt: source.createdAt,
+      pushedAt: source.pushedAt,
+      activeDays: daysBetween(source.createdAt, source.pushedAt),
+      readme: source.readme ? scoreReadme(source.readme) : null,
+      partialTree: source.pathsTruncated,
+    };
+  });
+
+  return { username, checkedRepositories: repositories.length, repositories };
+}
@@ -0,0 +1,442 @@
+import {
+  Document,
+  Link,
+  Page,
+  renderToBuffer,
+  StyleSheet,
+  Text,
+  View,
+} from "@react-pdf/renderer";
+import type { ReactNode } from "react";
+
+import type { GithubInsights } from "@/lib/github";
+import type { ParsedResume } from "@/lib/parser";
+import { SKILL_CATEGORY_LABELS, type SkillCategory } from "@/lib/skills";
+
+export type ReportResume = Pick<
+  ParsedResume,
+  | "name"
+  | "headline"
+  | "emails"
+  | "phones"
+  | "githubUrl"
+  | "linkedinUrl"
+  | "portfolioUrl"
+  | "summary"
+  | "canonicalSkills"
+  | "experience"
+  | "totalYearsExperience"
+  | "education"
+  | "certifications"
+>;
+
+export type ReportGithub = Pick<
+  GithubInsights,
+  | "login"
+  | "name"
+  | "html_url"
+  | "bio"
+  | "followers"
+  | "public_repos"
+  | "topLanguages"
+  | "aggregates"
+  | "spotlight"
+  | "recentActivity"
+>;
+
+export type InsightReportData = {
+  resume: ReportResume;
+  github: ReportGithub | null;
+  /** Stamped on the report; defaults to now. Pass it to get identical output. */
+  generatedAt?: Date;
+};
+
+const BRAND_COLOR = "#4f46e5";
+const MUTED_COLOR = "#64748b";
+const BORDER_COLOR = "#e2e8f0";
+const MAX_EXPERIENCE_ROLES = 4;
+const MAX_BULLETS_PER_ROLE = 3;
+const MAX_LANGUAGES = 8;
+const MAX_ACTIVITY_ITEMS = 10;
+
+const styles = StyleSheet.create({
+  page: {
+    paddingTop: 72,
+    paddingBottom: 56,
+    paddingHorizontal: 40,
+    fontFamily: "Helvetica",
+    fontSize: 10,
+    lineHeight: 1.4,
+    color: "#0f172a",
+  },
+  banner: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    height: 44,
+    paddingHorizontal: 40,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: BRAND_COLOR,
+    color: "#ffffff",
+  },
+  bannerTitle: { fontFamily: "Helvetica-Bold", fontSize: 11 },
+  bannerMeta: { fontSize: 9 },
+  footer: {
+    position: "absolute",
+    bottom: 24,
+    left: 40,
+    right: 40,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    fontSize: 8,
+    color: MUTED_COLOR,
+  },
+  name: { fontFamily: "Helvetica-Bold", fontSize: 22 },
+  headline: { fontSize: 12, color: MUTED_COLOR, marginTop: 2 },
+  contacts: { flexDirection: "row", flexWrap: "wrap", marginTop: 8, gap: 12 },
+  link: { color: BRAND_COLOR, textDecoration: "none" },
+  section: { marginTop: 18 },
+  sectionTitle: {
+    fontFamily: "Helvetica-Bold",
+    fontSize: 12,
+    color: BRAND_COLOR,
+    paddingBottom: 4,
+    marginBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: BORDER_COLOR,
+  },
+  stats: { flexDirection: "row", gap: 10 },
+  stat: {
+    flexGrow: 1,
+    flexBasis: 0,
+    padding: 8,
+    borderWidth: 1,
+    borderColor: BORDER_COLOR,
+    borderRadius: 4,
+  },
+  statValue: { fontFamily: "Helvetica-Bold", fontSize: 16 },
+  statLabel: { fontSize: 8, color: MUTED_COLOR },
+  bullet: { flexDirection: "row", marginBottom: 3 },
+  bulletMark: { width: 10, color: BRAND_COLOR },
+  bulletText: { flex: 1 },
+  row: { flexDirection: "row", marginBottom: 4 },
+  rowLabel: { width: 130, fontFamily: "Helvetica-Bold" },
+  rowValue: { flex: 1 },
+  muted: { color: MUTED_COLOR },
+  bold: { fontFamily: "Helvetica-Bold" },
+  role: { marginBottom: 8 },
+  languageRow: { flexDirection: "row", alignItems: "center", marginBottom: 5 },
+  languageName: { width: 110 },
+  languageTrack: { flex: 1, height: 6, backgroundColor: BORDER_COLOR, borderRadius: 3 },
+  languageBar: { height: 6, backgroundColor: BRAND_COLOR, borderRadius: 3 },
+  languageValue: { width: 44, textAlign: "right" },
+  card: {
+    padding: 10,
+    borderWidth: 1,
+    borderColor: BORDER_COLOR,
+    borderRadius: 4,
+  },
+  activity: {
+    flexDirection: "row",
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: BORDER_COLOR,
+  },
+  activityDate: { width: 70, color: MUTED_COLOR },
+});
+
+function formatDate(value: string | Date) {
+  const date = typeof value === "string" ? new Date(value) : value;
+  return Number.isNaN(date.getTime()) ? String(value) : date.toISOString().slice(0, 10);
+}
+
+function formatDateRange(role: ParsedResume["experience"][number]) {
+  const end = role.isCurrent ? "Present" : role.endDate;
+  return [role.startDate, end].filter(Boolean).join(" – ");
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      {children}
+    </View>
+  );
+}
+
+function Bullet({ children }: { children: ReactNode }) {
+  return (
+    <View style={styles.bullet} wrap={false}>
+      <Text style={styles.bulletMark}>•</Text>
+      <Text style={styles.bulletText}>{children}</Text>
+    </View>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <View style={styles.stat}>
+      <Text style={styles.statValue}>{value}</Text>
+      <Text style={styles.statLabel}>{label}</Text>
+    </View>
+  );
+}
+
+function PageFrame({
+  candidate,
+  generatedAt,
+  children,
+}: {
+  candidate: string;
+  generatedAt: Date;
+  children: ReactNode;
+}) {
+  return (
+    <Page size="A4" style={styles.page}>
+      <View style={styles.banner} fixed>
+        <Text style={styles.bannerTitle}>Candidate Insight Report</Text>
+        <Text style={styles.bannerMeta}>{candidate}</Text>
+      </View>
+      {children}
+      <View style={styles.footer} fixed>
+        <Text>Generated {formatDate(generatedAt)} from resume and public GitHub data</Text>
+        <Text
+          render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`}
+        />
+      </View>
+    </Page>
+  );
+}
+
+function OverviewPage({ resume, github }: InsightReportData) {
+  const contacts = [
+    ...resume.emails.map((email) => ({ label: email, href: `mailto:${email}` })),
+    ...resume.phones.map((phone) => ({ label: phone, href: null })),
+    ...[resume.githubUrl, resume.linkedinUrl, resume.portfolioUrl]
+      .filter((url): url is string => Boolean(url))
+      .map((url) => ({ label: url.replace(/^https?:\/\/(?:www\.)?/, ""), href: url })),
+  ];
+
+  const skillGroups = new Map<SkillCategory, string[]>();
+  for (const skill of resume.canonicalSkills) {
+    skillGroups.set(skill.category, [...(skillGroups.get(skill.category) ?? []), skill.name]);
+  }
+
+  return (
+    <>
+      <Text style={styles.name}>{resume.name ?? "Unnamed candidate"}</Text>
+      {resume.headline && <Text style={styles.headline}>{resume.headline}</Text>}
+      {contacts.length > 0 && (
+        <View style={styles.contacts}>
+          {contacts.map((contact) =>
+            contact.href ? (
+              <Link key={contact.label} src={contact.href} style={styles.link}>
+                {contact.label}
+              </Link>
+            ) : (
+              <Text key={contact.label}>{contact.label}</Text>
+            ),
+          )}
+        </View>
+      )}
+
+      <Section title="Overview">
+        <View style={styles.stats}>
+          <Stat
+            label="Years of experience"
+            value={resume.totalYearsExperience ?? "—"}
+          />
+          <Stat label="Skills identified" value={resume.canonicalSkills.length} />
+          <Stat label="Public repositories" value={github?.public_repos ?? "—"} />
+          <Stat label="GitHub stars" value={github?.aggregates.totalStars ?? "—"} />
+        </View>
+      </Section>
+
+      {resume.summary.length > 0 && (
+        <Section title="Highlights">
+          {resume.summary.map((sentence) => (
+            <Bullet key={sentence}>{sentence}</Bullet>
+          ))}
+        </Section>
+      )}
+
+      {skillGroups.size > 0 && (
+        <Section title="Skills">
+          {(Object.keys(SKILL_CATEGORY_LABELS) as SkillCategory[])
+            .filter((category) => skillGroups.has(category))
+            .map((category) => (
+              <View key={category} style={styles.row} wrap={false}>
+                <Text style={styles.rowLabel}>{SKILL_CATEGORY_LABELS[category]}</Text>
+                <Text style={styles.rowValue}>
+                  {skillGroups.get(category)?.join(", ")}
+                </Text>
+              </View>
+            ))}
+        </Section>
+      )}
+
+      {resume.experience.length > 0 && (
+        <Section title="Experience">
+          {resume.experience.slice(0, MAX_EXPERIENCE_ROLES).map((role, index) => (
+            <View key={index} style={styles.role} wrap={false}>
+              <Text style={styles.bold}>
+                {[role.title, role.company].filter(Boolean).join(" · ")}
+              </Text>
+              <Text style={styles.muted}>
+                {[formatDateRange(role), role.location].filter(Boolean).join(" · ")}
+              </Text>
+              {role.bullets.slice(0, MAX_BULLETS_PER_ROLE).map((bullet) => (
+                <Bullet key={bullet}>{bullet}</Bullet>
+              ))}
+            </View>
+          ))}
+        </Section>
+      )}
+
+      {(resume.education.length > 0 || resume.certifications.length > 0) && (
+        <Section title="Education & certifications">
+          {resume.education.map((entry, index) => (
+            <Bullet key={`education-${index}`}>
+              {[
+                entry.degree,
+                entry.field,
+                entry.institution,
+                entry.graduationYear,
+              ]
+                .filter(Boolean)
+                .join(", ")}
+            </Bullet>
+          ))}
+          {resume.certifications.map((certification) => (
+            <Bullet key={certification.name}>
+              {[certification.name, certification.issuer, certification.date]
+                .filter(Boolean)
+                .join(", ")}
+            </Bullet>
+          ))}
+        </Section>
+      )}
+    </>
+  );
+}
+
+function GithubPage({ github }: { github: ReportGithub }) {
+  const spotlight = github.spotlight;
+
+  return (
+    <>
+      <Text style={styles.name}>GitHub analytics</Text>
+      <Link src={github.html_url} style={[styles.headline, styles.link]}>
+        github.com/{github.login}
+      </Link>
+      {github.bio && <Text style={{ marginTop: 6 }}>{github.bio}</Text>}
+
+      <Section title="Repository overview">
+        <View style={styles.stats}>
+          <Stat label="Repositories analysed" value={github.aggregates.repositoryCount} />
+          <Stat label="Stars" value={github.aggregates.totalStars} />
+          <Stat label="Forks" value={github.aggregates.totalForks} />
+          <Stat label="Followers" value={github.followers} />
+        </View>
+      </Section>
+
+      {github.topLanguages.length > 0 && (
+        <Section title="Languages">
+          {github.topLanguages.slice(0, MAX_LANGUAGES).map((language) => (
+            <View key={language.language} style={styles.languageRow}>
+              <Text style={styles.languageName}>{language.language}</Text>
+              <View style={styles.languageTrack}>
+                <View
+                  style={[
+                    styles.languageBar,
+                    { width: `${Math.max(1, Math.min(100, language.percentage))}%` },
+                  ]}
+                />
+              </View>
+              <Text style={styles.languageValue}>{language.percentage}%</Text>
+            </View>
+          ))}
+        </Section>
+      )}
+
+      {spotlight && (
+        <Section title="Spotlight repository">
+          <View style={styles.card} wrap={false}>
+            <Link src={spotlight.html_url} style={[styles.bold, styles.link]}>
+              {spotlight.name}
+            </Link>
+            {spotlight.description && (
+              <Text style={{ marginTop: 4 }}>{spotlight.description}</Text>
+            )}
+            <Text style={[styles.muted, { marginTop: 4 }]}>
+              {[
+                spotlight.language,
+                `${spotlight.stargazers_count} stars`,
+                `${spotlight.forks_count} forks`,
+                `updated ${formatDate(spotlight.pushed_at ?? spotlight.updated_at)}`,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </Text>
+            {spotlight.topics.length > 0 && (
+              <Text style={[styles.muted, { marginTop: 2 }]}>
+                Topics: {spotlight.topics.join(", ")}
+              </Text>
+            )}
+            {spotlight.readmeExcerpt && (
+              <Text style={{ marginTop: 6 }}>{spotlight.readmeExcerpt}</Text>
+            )}
+          </View>
+        </Section>
+      )}
+
+      {github.recentActivity.length > 0 && (
+        <Section title="Recent activity">
+          {github.recentActivity.slice(0, MAX_ACTIVITY_ITEMS).map((event) => (
+            <View key={event.id} style={styles.activity} wrap={false}>
+              <Text style={styles.activityDate}>{formatDate(event.created_at)}</Text>
+              <Text style={styles.rowValue}>
+                {event.description} <Text style={styles.muted}>({event.repoName})</Text>
+              </Text>
+            </View>
+          ))}
+        </Section>
+      )}
+    </>
+  );
+}
+
+export function InsightReport({ resume, github, generatedAt = new Date() }: InsightReportData) {
+  const candidate = resume.name ?? github?.name ?? github?.login ?? "Candidate";
+
+  return (
+    <Document
+      title={`${candidate} – Candidate Insight Report`}
+      author="Resume GitHub Insight"
+      creator="Resume GitHub Insight"
+      producer="Resume GitHub Insight"
+      creationDate={generatedAt}
+      modificationDate={generatedAt}
+    >
+      <PageFrame candidate={candidate} generatedAt={generatedAt}>
+        <OverviewPage resume={resume} github={github} />
+      </PageFrame>
+      {github && (
+        <PageFrame candidate={candidate} generatedAt={generatedAt}>
+          <GithubPage github={github} />
+        </PageFrame>
+      )}
+    </Document>
+  );
+}
+
+/**
+ * Renders the candidate report as a PDF: an overview page from the resume
+ * and, when GitHub analytics are available, a page of repository insights.
+ */
+export function renderInsightReport(data: InsightReportData): Promise<Buffer> {
+  return renderToBuffer(<InsightReport {...data} generatedAt={data.generatedAt ?? new Date()} />);
+}
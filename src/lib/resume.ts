@@ -0,0 +1,78 @@
+import type { Buffer } from "node:buffer";
+
+import { detectResumeFormat, extractDocumentText } from "@/lib/extractors";
+import { extractPdfLayout } from "@/lib/extractors/pdf";
+import type { LineStyle } from "@/lib/layout";
+import type { ResumeLink } from "@/lib/links";
+import { parseResumeText, type ParsedResume } from "@/lib/parser";
+import { withSummary } from "@/lib/summarizer";
+
+export type ExtractedResume = {
+  text: string;
+  lineStyles: LineStyle[];
+  links: ResumeLink[];
+};
+
+export const MAX_RESUME_SIZE = 5 * 1024 * 1024;
+
+/** Thrown when an upload could be opened but held no text. */
+export class EmptyResumeError extends Error {
+  constructor() {
+    super("We could not read any text from the provided resume.");
+    this.name = "EmptyResumeError";
+  }
+}
+
+async function extractPdfText(buffer: Buffer): Promise<ExtractedResume> {
+  try {
+    const layout = await extractPdfLayout(buffer);
+    if (layout.text.trim()) {
+      return {
+        text: layout.text,
+        lineStyles: layout.lines,
+        links: layout.links,
+      };
+    }
+  } catch (error) {
+    console.error("Layout-aware PDF extraction failed", error);
+  }
+
+  const pdfParse = (await import("pdf-parse/lib/pdf-parse.js")).default;
+  const parsed = await pdfParse(buffer);
+  return { text: parsed.text, lineStyles: [], links: [] };
+}
+
+export async function extractResume(buffer: Buffer): Promise<ExtractedResume> {
+  const format = detectResumeFormat(buffer);
+
+  switch (format) {
+    case "pdf":
+      return extractPdfText(buffer);
+    case "doc":
+      throw new Error(
+        "Legacy .doc files are not supported. Please save your resume as DOCX, PDF or plain text and try again.",
+      );
+    case null:
+      throw new Error(
+        "Unsupported file type. Please upload a PDF, DOCX, ODT, RTF, Markdown, HTML or plain text resume.",
+      );
+    default:
+      return {
+        text: extractDocumentText(buffer, format),
+        lineStyles: [],
+        links: [],
+      };
+  }
+}
+
+/**
+ * Extracts, parses and summarizes a resume upload in one step, throwing a
+ * user-facing error when no text can be read from it.
+ */
+export async function parseResumeBuffer(buffer: Buffer): Promise<ParsedResume> {
+  const { text, lineStyles, links } = await extractResume(buffer);
+
+  if (!text.trim()) throw new EmptyResumeError();
+
+  return withSummary(parseResumeText(text, { lineStyles, links }));
+}
@@ -0,0 +1,338 @@
+import { isEmphasized, type StyleIndex } from "@/lib/layout";
+
+export type SectionKey =
+  | "header"
+  | "contact"
+  | "summary"
+  | "experience"
+  | "education"
+  | "projects"
+  | "skills"
+  | "certifications"
+  | "publications"
+  | "volunteering"
+  | "awards"
+  | "languages"
+  | "interests"
+  | "references";
+
+export type LineRange = {
+  start: number;
+  end: number;
+};
+
+export type ResumeSection = {
+  key: SectionKey;
+  heading: string | null;
+  text: string;
+  ranges: LineRange[];
+};
+
+export type ResumeSections = Partial<Record<SectionKey, ResumeSection>>;
+
+const SECTION_ALIASES: Record<Exclude<SectionKey, "header">, string[]> = {
+  contact: [
+    "contact",
+    "contact info",
+    "contact information",
+    "contact details",
+    "personal details",
+    "personal information",
+  ],
+  summary: [
+    "summary",
+    "professional summary",
+    "career summary",
+    "executive summary",
+    "profile",
+    "professional profile",
+    "about",
+    "about me",
+    "objective",
+    "career objective",
+    "overview",
+  ],
+  experience: [
+    "experience",
+    "work experience",
+    "professional experience",
+    "relevant experience",
+    "industry experience",
+    "employment",
+    "employment history",
+    "work history",
+    "career history",
+    "professional background",
+    "experience and internships",
+    "internships",
+  ],
+  education: [
+    "education",
+    "academic background",
+    "academics",
+    "academic history",
+    "education and training",
+    "educational background",
+    "qualifications",
+  ],
+  projects: [
+    "projects",
+    "personal projects",
+    "selected projects",
+    "side projects",
+    "key projects",
+    "academic projects",
+    "notable projects",
+    "open source",
+    "open source projects",
+  ],
+  skills: [
+    "skills",
+    "technical skills",
+    "key skills",
+    "core skills",
+    "core competencies",
+    "competencies",
+    "toolbox",
+    "technologies",
+    "tech stack",
+    "skills and tools",
+    "tools and technologies",
+    "skills and technologies",
+  ],
+  certifications: [
+    "certifications",
+    "certificates",
+    "certification",
+    "licenses and certifications",
+    "certifications and licenses",
+    "certifications and training",
+    "courses and certifications",
+  ],
+  publications: [
+    "publications",
+    "papers",
+    "research",
+    "research and publications",
+    "selected publications",
+  ],
+  volunteering: [
+    "volunteering",
+    "volunteer experience",
+    "volunteer work",
+    "community involvement",
+    "leadership and volunteering",
+  ],
+  awards: [
+    "awards",
+    "honors",
+    "honors and awards",
+    "awards and honors",
+    "achievements",
+    "accomplishments",
+  ],
+  languages: ["languages", "spoken languages", "language proficiency"],
+  interests: ["interests", "hobbies", "hobbies and interests"],
+  references: ["references"],
+};
+
+const HEADING_LOOKUP = new Map<string, SectionKey>(
+  Object.entries(SECTION_ALIASES).flatMap(([key, aliases]) =>
+    aliases.map((alias) => [alias, key as SectionKey] as const),
+  ),
+);
+
+const UNDERLINE_REGEX = /^\s*[-=_~*–—─-╿]{3,}\s*$/u;
+const INLINE_HEADING_REGEX = /^([^:]{2,40}):\s*(.*)$/;
+const INLINE_LINK_REGEX = /^\s*(?:https?:\/\/|www\.|\S+@\S+\.\w+)/i;
+const MAX_HEADING_WORDS = 5;
+
+// "Languages: Go, Rust" or "Tech stack: React" inside these sections describe
+// the entry itself rather than opening a new section.
+const INLINE_DETAIL_SECTIONS = new Set<SectionKey>([
+  "experience",
+  "projects",
+  "skills",
+  "volunteering",
+]);
+
+function normalizeHeading(line: string): string {
+  let value = line
+    .trim()
+    .replace(/^#{1,6}\s+/, "")
+    .replace(/^(?:\d{1,2}|[ivx]{1,4})[.)]\s+/i, "")
+    .replace(/^[\s•▪●■|>*_-]+/u, "")
+    .replace(/[\s:|*_–—─-╿-]+$/u, "");
+
+  if (/^(?:\S\s){2,}\S$/.test(value)) {
+    value = value.replace(/\s/g, "");
+  } else if (/^(?:\S\s)+\S(?:\s{2,}(?:\S\s)+\S)+$/.test(value)) {
+    value = value
+      .split(/\s{2,}/)
+      .map((word) => word.replace(/\s/g, ""))
+      .join(" ");
+  }
+
+  return value
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function lookupHeading(label: string): SectionKey | null {
+  const normalized = normalizeHeading(label);
+  if (!normalized) return null;
+  if (normalized.split(" ").length > MAX_HEADING_WORDS) return null;
+  return HEADING_LOOKUP.get(normalized) ?? null;
+}
+
+type HeadingMatch = {
+  key: SectionKey;
+  heading: string;
+  inlineText: string;
+};
+
+const HEADING_ALIASES_BY_LENGTH = [...HEADING_LOOKUP.keys()].sort(
+  (a, b) => b.length - a.length,
+);
+const MAX_STYLED_HEADING_WORDS = 7;
+
+// A bold or enlarged line is a heading when it contains a known alias, so
+// styled variants such as "Professional Experience & Internships" still map.
+function lookupStyledHeading(line: string): SectionKey | null {
+  const normalized = normalizeHeading(line);
+  if (!normalized) return null;
+  if (normalized.split(" ").length > MAX_STYLED_HEADING_WORDS) return null;
+
+  const padded = ` ${normalized} `;
+  const alias = HEADING_ALIASES_BY_LENGTH.find((candidate) =>
+    padded.includes(` ${candidate} `),
+  );
+  return alias ? (HEADING_LOOKUP.get(alias) ?? null) : null;
+}
+
+function matchHeading(line: string, styles?: StyleIndex): HeadingMatch | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > 200) return null;
+
+  if (styles && isEmphasized(styles.get(trimmed), styles)) {
+    const key = lookupStyledHeading(trimmed);
+    if (key) {
+      return { key, heading: trimmed.replace(/[\s:]+$/, ""), inlineText: "" };
+    }
+  }
+
+  if (trimmed.length <= 60 && !/[.!?]$/.test(trimmed)) {
+    const key = lookupHeading(trimmed);
+    if (key) {
+      return { key, heading: trimmed.replace(/[\s:]+$/, ""), inlineText: "" };
+    }
+  }
+
+  const inline = trimmed.match(INLINE_HEADING_REGEX);
+  if (inline) {
+    const [, label, rest] = inline;
+    const key = lookupHeading(label);
+    if (key && !INLINE_LINK_REGEX.test(rest)) {
+      return { key, heading: label.trim(), inlineText: rest.trim() };
+    }
+  }
+
+  return null;
+}
+
+export function isSectionHeading(line: string, styles?: StyleIndex): boolean {
+  const match = matchHeading(line, styles);
+  return Boolean(match && !match.inlineText);
+}
+
+export function isUnderline(line: string): boolean {
+  return UNDERLINE_REGEX.test(line);
+}
+
+/**
+ * Splits resume lines into sections keyed by their canonical heading. Lines
+ * before the first heading become the `header` section. Ranges are 0-based
+ * line indexes into `lines`, with `end` exclusive. When layout hints are
+ * available, bold or enlarged lines are also checked for heading aliases.
+ */
+export function segmentSections(
+  lines: string[],
+  styles?: StyleIndex,
+): ResumeSections {
+  const sections: ResumeSections = {};
+
+  let current: {
+    key: SectionKey;
+    heading: string | null;
+    start: number;
+    body: string[];
+  } = { key: "header", heading: null, start: 0, body: [] };
+
+  const closeCurrent = (end: number) => {
+    const text = current.body.join("\n").trim();
+    if (current.key === "header" && !text) return;
+
+    const range = { start: current.start, end };
+    const existing = sections[current.key];
+    if (existing) {
+      existing.text = [existing.text, text].filter(Boolean).join("\n\n");
+      existing.ranges.push(range);
+      return;
+    }
+
+    sections[current.key] = {
+      key: current.key,
+      heading: current.heading,
+      text,
+      ranges: [range],
+    };
+  };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+
+    if (isUnderline(line)) {
+      if (
+        current.heading !== null &&
+        current.body.every((item) => !item.trim())
+      ) {
+        continue;
+      }
+      current.body.push(line);
+      continue;
+    }
+
+    const match = matchHeading(line, styles);
+    const isInlineDetail =
+      match !== null &&
+      Boolean(match.inlineText) &&
+      INLINE_DETAIL_SECTIONS.has(current.key);
+
+    if (!match || isInlineDetail) {
+      current.body.push(line);
+      continue;
+    }
+
+    closeCurrent(index);
+    current = {
+      key: match.key,
+      heading: match.heading,
+      start: index,
+      body: match.inlineText ? [match.inlineText] : [],
+    };
+  }
+
+  closeCurrent(lines.length);
+
+  return sections;
+}
+
+export function sectionLines(
+  section: ResumeSection | undefined,
+): string[] {
+  if (!section) return [];
+  return section.text.split("\n");
+}
@@ -0,0 +1,213 @@
+import type { RepositoryEvidence } from "@/lib/github";
+import { skillAliases } from "@/lib/skills";
+
+export type SkillEvidenceStatus = "verified" | "weak" | "none";
+
+export type EvidenceKind = "language" | "dependency" | "file" | "topic" | "readme";
+
+export type SkillEvidenceSource = {
+  repo: string;
+  url: string;
+  kinds: EvidenceKind[];
+  details: string[];
+};
+
+export type SkillEvidence = {
+  skill: string;
+  status: SkillEvidenceStatus;
+  score: number;
+  repositories: SkillEvidenceSource[];
+};
+
+export type SkillEvidenceReport = {
+  checkedRepositories: number;
+  skills: SkillEvidence[];
+  counts: Record<SkillEvidenceStatus, number>;
+};
+
+const VERIFIED_SCORE = 2;
+const MIN_LANGUAGE_SHARE = 0.05;
+
+const EVIDENCE_WEIGHTS: Record<EvidenceKind, number> = {
+  language: 2,
+  dependency: 2,
+  file: 1.5,
+  topic: 1,
+  readme: 0.5,
+};
+
+/**
+ * Packages that show a skill in use without being named after it, keyed by
+ * the canonical skill name from the taxonomy in skills.ts.
+ */
+const PACKAGE_ALIASES: Record<string, string[]> = {
+  PostgreSQL: ["pg", "psycopg2", "psycopg", "pgx"],
+  MongoDB: ["mongoose", "pymongo"],
+  Kubernetes: ["helm"],
+  AWS: ["aws-sdk", "boto3", "aws-cdk-lib"],
+};
+
+/** Root-level files that show a tool or ecosystem is in use. */
+const FILE_TERMS: Record<string, string[]> = {
+  dockerfile: ["docker"],
+  "docker-compose.yml": ["docker", "docker-compose"],
+  "docker-compose.yaml": ["docker", "docker-compose"],
+  ".github": ["github-actions", "ci"],
+  "package.json": ["node", "npm"],
+  "tsconfig.json": ["typescript"],
+  "requirements.txt": ["python", "pip"],
+  "pyproject.toml": ["python"],
+  "go.mod": ["go"],
+  "cargo.toml": ["rust", "cargo"],
+  "pom.xml": ["java", "maven"],
+  "build.gradle": ["java", "gradle"],
+  "build.gradle.kts": ["kotlin", "gradle"],
+  gemfile: ["ruby"],
+  "composer.json": ["php"],
+  "main.tf": ["terraform"],
+  makefile: ["make"],
+};
+
+function normalizeTerm(value: string): string {
+  return value.toLowerCase().trim().replace(/\s+/g, "-");
+}
+
+/**
+ * Builds the lookup terms for a skill: the normalized forms of its
+ * canonical name and taxonomy aliases, their spacing and ".js" variants
+ * ("Next.js" → next.js, nextjs, next) and packages that imply the skill.
+ */
+function skillTerms(skill: string): Set<string> {
+  const [name, ...aliases] = skillAliases(skill);
+  const terms = new Set<string>();
+
+  for (const alias of [skill, name, ...aliases]) {
+    const base = normalizeTerm(alias);
+    terms.add(base);
+    terms.add(base.replace(/[-_.]/g, ""));
+    const withoutJs = base.replace(/[.-]?js$/, "");
+    if (withoutJs && withoutJs !== base) terms.add(withoutJs);
+  }
+  for (const alias of PACKAGE_ALIASES[name] ?? []) terms.add(alias);
+
+  return terms;
+}
+
+function matchesDependency(dependency: string, terms: Set<string>): boolean {
+  const name = dependency.toLowerCase();
+  if (terms.has(name)) return true;
+  const segments = name.replace(/^@/, "").split("/");
+  return Array.from(terms).some(
+    (term) =>
+      segments.includes(term) ||
+      (term.length >= 3 && segments.some((segment) => segment.startsWith(`${term}-`))),
+  );
+}
+
+function mentionRegex(skill: string): RegExp {
+  const escaped = skill.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  // Short names such as "Go" or "R" are only trusted with their exact casing.
+  const flags = skill.trim().length <= 2 ? "" : "i";
+  return new RegExp(`(?<![A-Za-z0-9])${escaped}(?![A-Za-z0-9+#])`, flags);
+}
+
+function findRepositoryEvidence(
+  skill: string,
+  terms: Set<string>,
+  repository: RepositoryEvidence,
+): SkillEvidenceSource | null {
+  const kinds = new Set<EvidenceKind>();
+  const details: string[] = [];
+
+  const totalBytes = Object.values(repository.languages).reduce(
+    (sum, bytes) => sum + bytes,
+    0,
+  );
+  for (const [language, bytes] of Object.entries(repository.languages)) {
+    const share = totalBytes ? bytes / totalBytes : 0;
+    if (terms.has(normalizeTerm(language)) && share >= MIN_LANGUAGE_SHARE) {
+      kinds.add("language");
+      details.push(`${language} ${Math.round(share * 100)}% of code`);
+    }
+  }
+
+  const dependencies = repository.dependencies.filter((dependency) =>
+    matchesDependency(dependency, terms),
+  );
+  if (dependencies.length) {
+    kinds.add("dependency");
+    details.push(`depends on ${dependencies.slice(0, 3).join(", ")}`);
+  }
+
+  const files = repository.files.filter((file) =>
+    (FILE_TERMS[file.toLowerCase()] ?? []).some((term) => terms.has(term)),
+  );
+  if (files.length) {
+    kinds.add("file");
+    details.push(`has ${files.join(", ")}`);
+  }
+
+  const topics = repository.topics.filter((topic) => terms.has(normalizeTerm(topic)));
+  if (topics.length) {
+    kinds.add("topic");
+    details.push(`topic ${topics.join(", ")}`);
+  }
+
+  if (!kinds.size && repository.readme && mentionRegex(skill).test(repository.readme)) {
+    kinds.add("readme");
+    details.push("mentioned in README");
+  }
+
+  if (!kinds.size) return null;
+  return {
+    repo: repository.name,
+    url: repository.url,
+    kinds: Array.from(kinds),
+    details,
+  };
+}
+
+/**
+ * Matches each resume skill to evidence in the candidate's repositories.
+ * Languages and dependencies are strong evidence, telltale files and topics
+ * moderate, and README mentions weak; a skill is "verified" once the
+ * combined score reaches VERIFIED_SCORE.
+ */
+export function buildSkillEvidenceReport(
+  skills: string[],
+  repositories: RepositoryEvidence[],
+): SkillEvidenceReport {
+  const results = skills.map((skill): SkillEvidence => {
+    const terms = skillTerms(skill);
+    const sources = repositories
+      .map((repository) => findRepositoryEvidence(skill, terms, repository))
+      .filter((source): source is SkillEvidenceSource => source !== null);
+
+    const score = sources.reduce(
+      (sum, source) =>
+        sum + Math.max(...source.kinds.map((kind) => EVIDENCE_WEIGHTS[kind])),
+      0,
+    );
+
+    return {
+      skill,
+      status: score >= VERIFIED_SCORE ? "verified" : score > 0 ? "weak" : "none",
+      score,
+      repositories: sources.sort(
+        (a, b) =>
+          Math.max(...b.kinds.map((kind) => EVIDENCE_WEIGHTS[kind])) -
+          Math.max(...a.kinds.map((kind) => EVIDENCE_WEIGHTS[kind])),
+      ),
+    };
+  });
+
+  return {
+    checkedRepositories: repositories.length,
+    skills: results,
+    counts: {
+      verified: results.filter((result) => result.status === "verified").length,
+      weak: results.filter((result) => result.status === "weak").length,
+      none: results.filter((result) => result.status === "none").length,
+    },
+  };
+}
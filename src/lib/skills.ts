@@ -0,0 +1,385 @@
+export type SkillCategory =
+  | "language"
+  | "framework"
+  | "database"
+  | "cloud"
+  | "tool"
+  | "soft"
+  | "other";
+
+export type ResumeSkill = {
+  name: string;
+  category: SkillCategory;
+  /** "skills" when listed in a skills section, "mentioned" when found in prose. */
+  source: "skills" | "mentioned";
+};
+
+export type TaxonomySkill = Pick<ResumeSkill, "name" | "category">;
+
+export const SKILL_CATEGORY_LABELS: Record<SkillCategory, string> = {
+  language: "Languages",
+  framework: "Frameworks & Libraries",
+  database: "Databases",
+  cloud: "Cloud",
+  tool: "Tools & Practices",
+  soft: "Soft Skills",
+  other: "Other",
+};
+
+type SkillDefinition = TaxonomySkill & { aliases: string[] };
+
+const MAX_SKILLS = 40;
+const MAX_UNKNOWN_SKILL_LENGTH = 40;
+
+/** Canonical name first, followed by its aliases. */
+const TAXONOMY: Record<Exclude<SkillCategory, "other">, string[][]> = {
+  language: [
+    ["JavaScript", "js", "es6", "es2015", "ecmascript", "vanilla js"],
+    ["TypeScript", "ts"],
+    ["Python", "python3", "py"],
+    ["Java"],
+    ["Kotlin"],
+    ["Scala"],
+    ["Go", "golang"],
+    ["Rust"],
+    ["C"],
+    ["C++", "cpp"],
+    ["C#", "csharp", "c sharp"],
+    ["Ruby"],
+    ["PHP"],
+    ["Swift"],
+    ["Objective-C", "objc", "objective c"],
+    ["Dart"],
+    ["R"],
+    ["SQL"],
+    ["Bash", "shell", "shell scripting", "sh", "zsh"],
+    ["HTML", "html5"],
+    ["CSS", "css3"],
+    ["Sass", "scss"],
+    ["Elixir"],
+    ["Haskell"],
+    ["Lua"],
+    ["Perl"],
+    ["Solidity"],
+  ],
+  framework: [
+    ["React", "react.js", "reactjs"],
+    ["React Native", "react-native"],
+    ["Next.js", "nextjs", "next"],
+    ["Vue.js", "vue", "vuejs", "vue 3"],
+    ["Nuxt", "nuxt.js", "nuxtjs"],
+    ["Angular", "angularjs", "angular.js"],
+    ["Svelte", "sveltekit"],
+    ["Node.js", "node", "nodejs"],
+    ["Express", "express.js", "expressjs"],
+    ["NestJS", "nest.js", "nest"],
+    ["Django", "django rest framework", "drf"],
+    ["Flask"],
+    ["FastAPI"],
+    ["Spring Boot", "spring", "springboot", "spring framework"],
+    ["Ruby on Rails", "rails", "ror"],
+    ["Laravel"],
+    [".NET", "dotnet", "asp.net", ".net core", "asp.net core"],
+    ["Flutter"],
+    ["jQuery"],
+    ["Redux", "redux toolkit"],
+    ["GraphQL", "apollo"],
+    ["Tailwind CSS", "tailwind", "tailwindcss"],
+    ["Bootstrap"],
+    ["TensorFlow", "tf"],
+    ["PyTorch", "torch"],
+    ["scikit-learn", "sklearn", "scikit learn"],
+    ["Pandas"],
+    ["NumPy"],
+    ["Spark", "apache spark", "pyspark"],
+    ["Jest"],
+    ["Cypress"],
+    ["Playwright"],
+    ["JUnit"],
+    ["pytest"],
+  ],
+  database: [
+    ["PostgreSQL", "postgres", "psql"],
+    ["MySQL"],
+    ["MariaDB"],
+    ["SQLite"],
+    ["SQL Server", "mssql", "microsoft sql server"],
+    ["Oracle Database", "oracle db", "oracle"],
+    ["MongoDB", "mongo"],
+    ["Redis"],
+    ["Elasticsearch", "elastic search", "opensearch"],
+    ["DynamoDB", "dynamo"],
+    ["Cassandra"],
+    ["Firebase", "firestore"],
+    ["Supabase"],
+    ["Snowflake"],
+    ["BigQuery"],
+    ["Neo4j"],
+  ],
+  cloud: [
+    ["AWS", "amazon web services", "ec2", "s3", "lambda", "aws lambda"],
+    ["Google Cloud", "gcp", "google cloud platform"],
+    ["Azure", "microsoft azure"],
+    ["Heroku"],
+    ["Vercel"],
+    ["Netlify"],
+    ["DigitalOcean", "digital ocean"],
+    ["Cloudflare"],
+  ],
+  tool: [
+    ["Git"],
+    ["GitHub"],
+    ["GitLab"],
+    ["Docker", "docker compose", "docker-compose"],
+    ["Kubernetes", "k8s"],
+    ["Terraform"],
+    ["Ansible"],
+    ["Jenkins"],
+    ["GitHub Actions"],
+    ["CI/CD", "ci", "cd", "continuous integration", "continuous delivery"],
+    ["Kafka", "apache kafka"],
+    ["RabbitMQ"],
+    ["Nginx"],
+    ["Linux", "ubuntu", "unix"],
+    ["Webpack"],
+    ["Vite"],
+    ["Figma"],
+    ["Jira"],
+    ["Postman"],
+    ["REST APIs", "rest", "rest api", "restful", "restful apis"],
+    ["Microservices", "microservice"],
+    ["Agile", "scrum", "kanban"],
+    ["Airflow", "apache airflow"],
+    ["Prometheus"],
+    ["Grafana"],
+  ],
+  soft: [
+    ["Leadership", "team leadership", "technical leadership"],
+    ["Communication", "communication skills"],
+    ["Mentoring", "mentorship", "mentored", "coaching"],
+    ["Teamwork", "collaboration", "cross-functional collaboration"],
+    ["Problem Solving", "problem-solving"],
+    ["Project Management"],
+    ["Stakeholder Management"],
+    ["Public Speaking"],
+  ],
+};
+
+/**
+ * Skills close enough that experience with one transfers to another, used
+ * when a job asks for a skill the candidate lacks.
+ */
+const SKILL_FAMILIES: string[][] = [
+  ["JavaScript", "TypeScript"],
+  ["Java", "Kotlin", "Scala", "C#"],
+  ["C", "C++", "Rust", "Go"],
+  ["Python", "Ruby", "PHP"],
+  ["Swift", "Objective-C", "Kotlin", "Dart"],
+  ["React", "Vue.js", "Angular", "Svelte"],
+  ["Next.js", "Nuxt"],
+  ["React Native", "Flutter"],
+  ["Express", "NestJS", "Node.js"],
+  ["Django", "Flask", "FastAPI", "Ruby on Rails", "Laravel"],
+  ["Spring Boot", ".NET"],
+  ["TensorFlow", "PyTorch", "scikit-learn"],
+  ["Pandas", "NumPy", "Spark"],
+  ["Jest", "Cypress", "Playwright", "pytest", "JUnit"],
+  ["Tailwind CSS", "Bootstrap", "Sass", "CSS"],
+  ["PostgreSQL", "MySQL", "MariaDB", "SQL Server", "Oracle Database", "SQLite"],
+  ["MongoDB", "DynamoDB", "Cassandra", "Firebase"],
+  ["Snowflake", "BigQuery"],
+  ["AWS", "Google Cloud", "Azure"],
+  ["Heroku", "Vercel", "Netlify", "DigitalOcean"],
+  ["Docker", "Kubernetes"],
+  ["Terraform", "Ansible"],
+  ["Jenkins", "GitHub Actions", "CI/CD"],
+  ["Kafka", "RabbitMQ"],
+  ["GitHub", "GitLab"],
+  ["Prometheus", "Grafana"],
+];
+
+/**
+ * Aliases that are ordinary words or single letters in prose ("Spring 2021",
+ * "Series C"). They are only trusted in a skills section.
+ */
+const SECTION_ONLY_ALIASES = new Set([
+  "c",
+  "r",
+  "cd",
+  "ci",
+  "ts",
+  "tf",
+  "sh",
+  "py",
+  "rest",
+  "next",
+  "nest",
+  "spring",
+  "oracle",
+  "lambda",
+  "s3",
+  "dynamo",
+  "apollo",
+  "shell",
+  "collaboration",
+  "coaching",
+]);
+
+/** Aliases that must keep their casing when scanned in prose. */
+const CASE_SENSITIVE_ALIASES = new Set([
+  "go",
+  "node",
+  "express",
+  "swift",
+  "dart",
+  "rust",
+  "git",
+  "agile",
+  "unix",
+  "flask",
+  "spark",
+  "redux",
+]);
+
+const DEFINITIONS: SkillDefinition[] = Object.entries(TAXONOMY).flatMap(
+  ([category, entries]) =>
+    entries.map(([name, ...aliases]) => ({
+      name,
+      category: category as SkillCategory,
+      aliases,
+    })),
+);
+
+function normalizeSkillKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/\s+v?\d+(?:\.\d+)*\+?$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const LOOKUP = new Map<string, SkillDefinition>();
+for (const definition of DEFINITIONS) {
+  for (const term of [definition.name, ...definition.aliases]) {
+    LOOKUP.set(normalizeSkillKey(term), definition);
+  }
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function buildMatcher(terms: string[], flags: string): RegExp | null {
+  if (!terms.length) return null;
+  const pattern = terms
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegex)
+    .join("|");
+  return new RegExp(
+    `(?<![A-Za-z0-9.#+-])(?:${pattern})(?![A-Za-z0-9#+]|\\.[A-Za-z])`,
+    flags,
+  );
+}
+
+const MATCHERS = DEFINITIONS.map((definition) => {
+  const terms = [definition.name, ...definition.aliases].filter(
+    (term) => !SECTION_ONLY_ALIASES.has(term.toLowerCase()),
+  );
+  const caseSensitive = terms.filter((term) =>
+    CASE_SENSITIVE_ALIASES.has(term.toLowerCase()),
+  );
+  return {
+    definition,
+    matchers: [
+      buildMatcher(
+        terms.filter((term) => !caseSensitive.includes(term)),
+        "i",
+      ),
+      buildMatcher(
+        caseSensitive.map((term) => `${term[0].toUpperCase()}${term.slice(1)}`),
+        "",
+      ),
+    ].filter((matcher): matcher is RegExp => matcher !== null),
+  };
+});
+
+/** Finds every taxonomy skill mentioned anywhere in the given text. */
+export function findMentionedSkills(text: string): TaxonomySkill[] {
+  if (!text.trim()) return [];
+  return MATCHERS.filter(({ matchers }) =>
+    matchers.some((matcher) => matcher.test(text)),
+  ).map(({ definition }) => ({
+    name: definition.name,
+    category: definition.category,
+  }));
+}
+
+/** Maps a raw skill entry such as "ReactJS" or "Python 3" to its canonical skill. */
+export function canonicalizeSkill(raw: string): TaxonomySkill | null {
+  const definition = LOOKUP.get(normalizeSkillKey(raw));
+  return definition
+    ? { name: definition.name, category: definition.category }
+    : null;
+}
+
+/**
+ * The canonical name and aliases of the taxonomy skill `raw` maps to, so
+ * other modules match skills the way resumes are normalized. Unknown skills
+ * come back as they are.
+ */
+export function skillAliases(raw: string): string[] {
+  const definition = LOOKUP.get(normalizeSkillKey(raw));
+  return definition ? [definition.name, ...definition.aliases] : [raw];
+}
+
+/** Lists the skills in the same family as `name`, excluding `name` itself. */
+export function relatedSkills(name: string): string[] {
+  return Array.from(
+    new Set(
+      SKILL_FAMILIES.filter((family) => family.includes(name)).flat(),
+    ),
+  ).filter((related) => related !== name);
+}
+
+/**
+ * Builds the candidate's skill list. Entries from a skills section are mapped
+ * to canonical names (unknown entries are kept as "other"), then skills
+ * mentioned in experience or project prose are added.
+ */
+export function normalizeSkills(
+  listed: string[],
+  narrativeText: string,
+): ResumeSkill[] {
+  const skills = new Map<string, ResumeSkill>();
+  const add = (skill: ResumeSkill) => {
+    const key = skill.name.toLowerCase();
+    if (!skills.has(key)) skills.set(key, skill);
+  };
+
+  for (const entry of listed) {
+    const definition = canonicalizeSkill(entry);
+    if (definition) {
+      add({ name: definition.name, category: definition.category, source: "skills" });
+      continue;
+    }
+
+    const mentioned = findMentionedSkills(entry);
+    if (mentioned.length) {
+      for (const match of mentioned) {
+        add({ name: match.name, category: match.category, source: "skills" });
+      }
+      continue;
+    }
+
+    if (entry.length <= MAX_UNKNOWN_SKILL_LENGTH) {
+      add({ name: entry, category: "other", source: "skills" });
+    }
+  }
+
+  for (const match of findMentionedSkills(narrativeText)) {
+    add({ name: match.name, category: match.category, source: "mentioned" });
+  }
+
+  return Array.from(skills.values()).slice(0, MAX_SKILLS);
+}
@@ -0,0 +1,36 @@
+import { createHash } from "node:crypto";
+import path from "node:path";
+
+import { createMemoryAnalysisRepository } from "@/lib/storage/memory";
+import { createSqliteAnalysisRepository } from "@/lib/storage/sqlite";
+import type { AnalysisRepository } from "@/lib/storage/types";
+
+export type {
+  AnalysisRepository,
+  AnalysisStoreKind,
+  NewAnalysis,
+  SavedAnalysis,
+  SavedAnalysisSummary,
+} from "@/lib/storage/types";
+
+let repository: AnalysisRepository | null = null;
+
+/**
+ * The analysis store from ANALYSIS_STORE: "sqlite" (default) writes to
+ * ANALYSIS_DB_PATH (default `.data/analyses.db`), "memory" keeps analyses
+ * until the server restarts.
+ */
+export function getAnalysisRepository(): AnalysisRepository {
+  repository ??=
+    process.env.ANALYSIS_STORE === "memory"
+      ? createMemoryAnalysisRepository()
+      : createSqliteAnalysisRepository(
+          process.env.ANALYSIS_DB_PATH ??
+            path.join(process.cwd(), ".data", "analyses.db"),
+        );
+  return repository;
+}
+
+export function hashResumeFile(buffer: Uint8Array): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
@@ -0,0 +1,89 @@
+import { randomUUID } from "node:crypto";
+
+import type {
+  AnalysisRepository,
+  SavedAnalysis,
+  SavedAnalysisSummary,
+} from "@/lib/storage/types";
+
+function summarizeAnalysis(analysis: SavedAnalysis): SavedAnalysisSummary {
+  return {
+    id: analysis.id,
+    fileName: analysis.fileName,
+    fileHash: analysis.fileHash,
+    githubFetchedAt: analysis.githubFetchedAt,
+    blind: analysis.blind,
+    createdAt: analysis.createdAt,
+    updatedAt: analysis.updatedAt,
+    name: analysis.resume.name,
+    headline: analysis.resume.headline,
+    githubUsername: analysis.resume.githubUsername,
+  };
+}
+
+/** Keeps analyses in process memory. Contents are lost on restart. */
+export function createMemoryAnalysisRepository(): AnalysisRepository {
+  const analyses = new Map<string, SavedAnalysis>();
+
+  const findByHash = (fileHash: string) =>
+    Array.from(analyses.values()).find((analysis) => analysis.fileHash === fileHash) ??
+    null;
+
+  return {
+    async list() {
+      return Array.from(analyses.values())
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(summarizeAnalysis);
+    },
+    async get(id) {
+      return analyses.get(id) ?? null;
+    },
+    async findByHash(fileHash) {
+      return findByHash(fileHash);
+    },
+    async save({ fileName, fileHash, resume, blind }) {
+      const now = new Date().toISOString();
+      const existing = findByHash(fileHash);
+      const analysis: SavedAnalysis = existing
+        ? {
+            ...existing,
+            fileName,
+            resume,
+            blind: existing.blind || blind,
+            updatedAt: now,
+          }
+        : {
+            id: randomUUID(),
+            fileName,
+            fileHash,
+            resume,
+            github: null,
+            githubFetchedAt: null,
+            blind,
+            unmaskedAt: null,
+            createdAt: now,
+            updatedAt: now,
+          };
+      analyses.set(analysis.id, analysis);
+      return analysis;
+    },
+    async saveGithub(id, github) {
+      const existing = analyses.get(id);
+      if (!existing) return null;
+      const now = new Date().toISOString();
+      const analysis = { ...existing, github, githubFetchedAt: now, updatedAt: now };
+      analyses.set(id, analysis);
+      return analysis;
+    },
+    async markUnmasked(id) {
+      const existing = analyses.get(id);
+      if (!existing) return null;
+      const analysis = { ...existing, unmaskedAt: new Date().toISOString() };
+      analyses.set(id, analysis);
+      return analysis;
+    },
+    async delete(id) {
+      return analyses.delete(id);
+    },
+  };
+}
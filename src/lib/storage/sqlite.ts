@@ -0,0 +1,187 @@
+import { randomUUID } from "node:crypto";
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+
+import Database from "better-sqlite3";
+
+import type {
+  AnalysisRepository,
+  SavedAnalysis,
+  SavedAnalysisSummary,
+} from "@/lib/storage/types";
+
+type AnalysisRow = {
+  id: string;
+  file_name: string;
+  file_hash: string;
+  candidate_name: string | null;
+  headline: string | null;
+  github_username: string | null;
+  resume: string;
+  github: string | null;
+  github_fetched_at: string | null;
+  /** SQLite has no booleans: 1 when saved under blind review. */
+  blind: number;
+  unmasked_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type SummaryRow = Omit<AnalysisRow, "resume" | "github" | "unmasked_at">;
+
+// Columns added after the first release, with their definitions.
+const ADDED_COLUMNS: Record<string, string> = {
+  blind: "INTEGER NOT NULL DEFAULT 0",
+  unmasked_at: "TEXT",
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS analyses (
+    id TEXT PRIMARY KEY,
+    file_name TEXT NOT NULL,
+    file_hash TEXT NOT NULL UNIQUE,
+    candidate_name TEXT,
+    headline TEXT,
+    github_username TEXT,
+    resume TEXT NOT NULL,
+    github TEXT,
+    github_fetched_at TEXT,
+    blind INTEGER NOT NULL DEFAULT 0,
+    unmasked_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS analyses_updated_at ON analyses (updated_at DESC);
+`;
+
+const SUMMARY_COLUMNS =
+  "id, file_name, file_hash, candidate_name, headline, github_username, github_fetched_at, blind, created_at, updated_at";
+
+function toSummary(row: SummaryRow): SavedAnalysisSummary {
+  return {
+    id: row.id,
+    fileName: row.file_name,
+    fileHash: row.file_hash,
+    name: row.candidate_name,
+    headline: row.headline,
+    githubUsername: row.github_username,
+    githubFetchedAt: row.github_fetched_at,
+    blind: row.blind === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toAnalysis(row: AnalysisRow | undefined): SavedAnalysis | null {
+  if (!row) return null;
+  return {
+    id: row.id,
+    fileName: row.file_name,
+    fileHash: row.file_hash,
+    resume: JSON.parse(row.resume),
+    github: row.github ? JSON.parse(row.github) : null,
+    githubFetchedAt: row.github_fetched_at,
+    blind: row.blind === 1,
+    unmaskedAt: row.unmasked_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function openDatabase(filePath: string) {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const db = new Database(filePath);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+  // Databases created by earlier versions lack the newer columns.
+  const columns = db.prepare<[], { name: string }>("PRAGMA table_info(analyses)").all();
+  for (const [name, definition] of Object.entries(ADDED_COLUMNS)) {
+    if (!columns.some((column) => column.name === name)) {
+      db.exec(`ALTER TABLE analyses ADD COLUMN ${name} ${definition}`);
+    }
+  }
+
+  return {
+    list: db.prepare<[], SummaryRow>(
+      `SELECT ${SUMMARY_COLUMNS} FROM analyses ORDER BY updated_at DESC`,
+    ),
+    get: db.prepare<[string], AnalysisRow>("SELECT * FROM analyses WHERE id = ?"),
+    findByHash: db.prepare<[string], AnalysisRow>(
+      "SELECT * FROM analyses WHERE file_hash = ?",
+    ),
+    upsert: db.prepare(`
+      INSERT INTO analyses (
+        id, file_name, file_hash, candidate_name, headline, github_username,
+        resume, blind, created_at, updated_at
+      )
+      VALUES (
+        @id, @fileName, @fileHash, @name, @headline, @githubUsername,
+        @resume, @blind, @now, @now
+      )
+      ON CONFLICT (file_hash) DO UPDATE SET
+        file_name = excluded.file_name,
+        candidate_name = excluded.candidate_name,
+        headline = excluded.headline,
+        github_username = excluded.github_username,
+        resume = excluded.resume,
+        blind = MAX(blind, excluded.blind),
+        updated_at = excluded.updated_at
+    `),
+    saveGithub: db.prepare(
+      "UPDATE analyses SET github = ?, github_fetched_at = ?, updated_at = ? WHERE id = ?",
+    ),
+    markUnmasked: db.prepare("UPDATE analyses SET unmasked_at = ? WHERE id = ?"),
+    delete: db.prepare("DELETE FROM analyses WHERE id = ?"),
+  };
+}
+
+/**
+ * Stores analyses in a SQLite database file. The file is created on first
+ * use, so a database that cannot be opened only fails the calls that need
+ * it. Resumes and GitHub snapshots are kept as JSON next to the columns the
+ * history list needs.
+ */
+export function createSqliteAnalysisRepository(filePath: string): AnalysisRepository {
+  let statements: ReturnType<typeof openDatabase> | null = null;
+  const db = () => (statements ??= openDatabase(filePath));
+
+  return {
+    async list() {
+      return db().list.all().map(toSummary);
+    },
+    async get(id) {
+      return toAnalysis(db().get.get(id));
+    },
+    async findByHash(fileHash) {
+      return toAnalysis(db().findByHash.get(fileHash));
+    },
+    async save({ fileName, fileHash, resume, blind }) {
+      db().upsert.run({
+        id: randomUUID(),
+        fileName,
+        fileHash,
+        name: resume.name,
+        headline: resume.headline,
+        githubUsername: resume.githubUsername,
+        resume: JSON.stringify(resume),
+        blind: blind ? 1 : 0,
+        now: new Date().toISOString(),
+      });
+      const saved = toAnalysis(db().findByHash.get(fileHash));
+      if (!saved) throw new Error("The analysis could not be saved.");
+      return saved;
+    },
+    async saveGithub(id, github) {
+      const now = new Date().toISOString();
+      const { changes } = db().saveGithub.run(JSON.stringify(github), now, now, id);
+      return changes ? toAnalysis(db().get.get(id)) : null;
+    },
+    async markUnmasked(id) {
+      const { changes } = db().markUnmasked.run(new Date().toISOString(), id);
+      return changes ? toAnalysis(db().get.get(id)) : null;
+    },
+    async delete(id) {
+      return db().delete.run(id).changes > 0;
+    },
+  };
+}
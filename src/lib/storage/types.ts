@@ -0,0 +1,59 @@
+import type { GithubInsights } from "@/lib/github";
+import type { ParsedResume } from "@/lib/parser";
+
+/** A parsed resume as stored, with the GitHub analytics captured for it. */
+export type SavedAnalysis = {
+  id: string;
+  fileName: string;
+  /** SHA-256 of the uploaded file, used to recognize re-uploads. */
+  fileHash: string;
+  resume: ParsedResume;
+  github: GithubInsights | null;
+  githubFetchedAt: string | null;
+  /** Saved under blind review: reads stay redacted until unmasked. */
+  blind: boolean;
+  /** When the original was last revealed through the unmask route. */
+  unmaskedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** The columns the history list shows, without the full payloads. */
+export type SavedAnalysisSummary = Pick<
+  SavedAnalysis,
+  | "id"
+  | "fileName"
+  | "fileHash"
+  | "githubFetchedAt"
+  | "blind"
+  | "createdAt"
+  | "updatedAt"
+> & {
+  name: string | null;
+  headline: string | null;
+  githubUsername: string | null;
+};
+
+export type NewAnalysis = Pick<
+  SavedAnalysis,
+  "fileName" | "fileHash" | "resume" | "blind"
+>;
+
+export type AnalysisStoreKind = "sqlite" | "memory";
+
+export type AnalysisRepository = {
+  list: () => Promise<SavedAnalysisSummary[]>;
+  get: (id: string) => Promise<SavedAnalysis | null>;
+  findByHash: (fileHash: string) => Promise<SavedAnalysis | null>;
+  /**
+   * Stores a parsed resume. Saving a file hash that already exists replaces
+   * the resume and keeps the record's id and GitHub snapshot. A record saved
+   * under blind review stays blind.
+   */
+  save: (analysis: NewAnalysis) => Promise<SavedAnalysis>;
+  saveGithub: (id: string, github: GithubInsights) => Promise<SavedAnalysis | null>;
+  /** Records that the original was revealed; null when the id is unknown. */
+  markUnmasked: (id: string) => Promise<SavedAnalysis | null>;
+  /** Returns false when there was nothing to delete. */
+  delete: (id: string) => Promise<boolean>;
+};
@@ -0,0 +1,64 @@
+export type SummaryEvaluation = {
+  /** Mean best ROUGE-1 F1 of each expected sentence against the summary. */
+  rouge1: number;
+  /** Share of expected sentences that appear in the summary verbatim. */
+  exactRecall: number;
+  /** Highest ROUGE-1 F1 between two sentences of the summary. */
+  redundancy: number;
+};
+
+function tokens(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9$%.]+/g) ?? [];
+}
+
+function normalize(text: string): string {
+  return tokens(text).join(" ");
+}
+
+export function rougeOne(candidate: string, reference: string): number {
+  const candidateTokens = tokens(candidate);
+  const referenceTokens = tokens(reference);
+  if (!candidateTokens.length || !referenceTokens.length) return 0;
+
+  const counts = new Map<string, number>();
+  for (const token of referenceTokens)
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  let overlap = 0;
+  for (const token of candidateTokens) {
+    const remaining = counts.get(token) ?? 0;
+    if (remaining > 0) {
+      overlap += 1;
+      counts.set(token, remaining - 1);
+    }
+  }
+  if (!overlap) return 0;
+
+  const precision = overlap / candidateTokens.length;
+  const recall = overlap / referenceTokens.length;
+  return (2 * precision * recall) / (precision + recall);
+}
+
+/** Scores a summary against hand-picked highlights for the same resume. */
+export function evaluateSummary(
+  summary: string[],
+  expected: string[],
+): SummaryEvaluation {
+  const chosen = new Set(summary.map(normalize));
+  const bestMatches = expected.map((reference) =>
+    Math.max(0, ...summary.map((sentence) => rougeOne(sentence, reference))),
+  );
+  const pairs = summary.flatMap((a, i) =>
+    summary.slice(i + 1).map((b) => rougeOne(a, b)),
+  );
+
+  return {
+    rouge1: bestMatches.length
+      ? bestMatches.reduce((sum, score) => sum + score, 0) / bestMatches.length
+      : 0,
+    exactRecall: expected.length
+      ? expected.filter((reference) => chosen.has(normalize(reference)))
+          .length / expected.length
+      : 0,
+    redundancy: Math.max(0, ...pairs),
+  };
+}
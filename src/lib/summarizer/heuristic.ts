@@ -0,0 +1,298 @@
+import type { ResumeSections, SectionKey } from "@/lib/sections";
+import type { Summarizer, SummaryInput } from "@/lib/summarizer/types";
+
+export const DEFAULT_SUMMARY_LENGTH = 4;
+
+/** Sections whose prose a summary is drawn from. */
+export const NARRATIVE_SECTIONS: SectionKey[] = [
+  "summary",
+  "experience",
+  "projects",
+  "volunteering",
+];
+
+export type ExtractiveSummaryOptions = {
+  /** Number of sentences to return. */
+  length?: number;
+};
+
+type Sentence = {
+  text: string;
+  section: SectionKey | null;
+  terms: Map<string, number>;
+};
+
+const DAMPING = 0.85;
+const ITERATIONS = 30;
+/** Trade-off between relevance and novelty when picking each sentence. */
+const MMR_LAMBDA = 0.7;
+/** Sentences at least this similar to one already chosen are skipped. */
+const DUPLICATE_SIMILARITY = 0.6;
+const MIN_SENTENCE_LENGTH = 20;
+/** Unpunctuated lines shorter than this are titles, not sentences. */
+const MIN_UNPUNCTUATED_WORDS = 6;
+const MAX_SENTENCE_LENGTH = 300;
+
+const FEATURE_WEIGHTS = {
+  centrality: 0.5,
+  actionVerb: 0.2,
+  impact: 0.25,
+  summarySection: 0.05,
+};
+
+const ACTION_VERBS = new Set([
+  "architected",
+  "automated",
+  "built",
+  "championed",
+  "created",
+  "cut",
+  "delivered",
+  "designed",
+  "developed",
+  "drove",
+  "enabled",
+  "engineered",
+  "established",
+  "grew",
+  "implemented",
+  "improved",
+  "increased",
+  "introduced",
+  "launched",
+  "led",
+  "managed",
+  "mentored",
+  "migrated",
+  "modernized",
+  "optimized",
+  "owned",
+  "reduced",
+  "redesigned",
+  "refactored",
+  "scaled",
+  "shipped",
+  "spearheaded",
+  "streamlined",
+  "wrote",
+]);
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be by for from has have in into is it its of on or " +
+    "our that the their this to was were will with within across over using " +
+    "used via"
+  ).split(" "),
+);
+
+const BULLET_REGEX = /^\s*(?:[•▪◦●■◆▶►✓✔*·–-]|\d{1,2}[.)])\s+/u;
+const DETAIL_LINE_REGEX = /^[A-Za-z][A-Za-z /&]{1,30}:\s+\S/;
+/** Pipes, inline bullets and tabs separate header fields, not clauses. */
+const FIELD_SEPARATOR_REGEX = /[|•\t]/;
+/** "Senior Engineer at Acme Corp", "Acme Corp — Senior Engineer". */
+const ROLE_HEADER_REGEX =
+  /^[A-Z][^.!?]{0,80}?(?:\s(?:at|@)\s|\s[–—-]\s)[A-Z][^.!?]{0,80}$/;
+const DATE_HEADER_REGEX =
+  /\b(?:19|20)\d{2}\b.*\b(?:present|current|now|(?:19|20)\d{2})\b/i;
+const IMPACT_REGEX =
+  /\d+(?:\.\d+)?\s*(?:%|x\b|k\b|m\b|\+)|[$€£]\s?\d|\b\d{2,}(?:,\d{3})*\b(?!\s*[-–]\s*\d)|\b(?:doubled|tripled|halved)\b/i;
+const COUNTED_IMPACT_REGEX =
+  /\b\d+\s+(?:[a-z-]+\s+)?(?:users|customers|clients|teams|engineers|developers|people|services|hosts|servers|merchants|students|countries|markets|products|apps|repositories)\b/i;
+
+export function narrativeSections(
+  sections: ResumeSections,
+): SummaryInput["sections"] {
+  return NARRATIVE_SECTIONS.flatMap((key) => {
+    const section = sections[key];
+    return section?.text
+      ? [{ key, heading: section.heading, text: section.text }]
+      : [];
+  });
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z0-9+#]*/g) ?? [])
+    .filter((word) => word.length > 2 && !STOPWORDS.has(word))
+    .map((word) =>
+      word.length > 4 ? word.replace(/(?:ing|ed|es|s)$/, "") : word,
+    );
+}
+
+function termFrequencies(text: string): Map<string, number> {
+  const terms = new Map<string, number>();
+  for (const term of tokenize(text))
+    terms.set(term, (terms.get(term) ?? 0) + 1);
+  return terms;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [term, count] of a) dot += count * (b.get(term) ?? 0);
+  if (!dot) return 0;
+  const norm = (terms: Map<string, number>) =>
+    Math.sqrt(
+      Array.from(terms.values()).reduce((sum, count) => sum + count ** 2, 0),
+    );
+  return dot / (norm(a) * norm(b));
+}
+
+/**
+ * Splits a section into candidate sentences: bullets (with wrapped lines
+ * re-joined) and prose sentences. Role headers (including pipe-separated
+ * ones), date lines and "Technologies: ..." lists are not summary material
+ * and are dropped.
+ */
+function splitSentences(text: string): string[] {
+  const units: string[] = [];
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const previous = units.length - 1;
+    if (
+      !BULLET_REGEX.test(line) &&
+      previous >= 0 &&
+      BULLET_REGEX.test(units[previous]) &&
+      !/[.!?]$/.test(units[previous]) &&
+      /^[a-z(]/.test(line)
+    ) {
+      units[previous] = `${units[previous]} ${line}`;
+      continue;
+    }
+    units.push(line);
+  }
+
+  return units
+    .map((unit) => unit.replace(BULLET_REGEX, "").trim())
+    .filter((unit) => !FIELD_SEPARATOR_REGEX.test(unit))
+    .filter((unit) => !ROLE_HEADER_REGEX.test(unit))
+    .filter((unit) => !DETAIL_LINE_REGEX.test(unit))
+    .filter((unit) => !(DATE_HEADER_REGEX.test(unit) && unit.length < 100))
+    .flatMap((unit) => unit.split(/(?<=[.!?])\s+(?=[A-Z])/))
+    .map((sentence) => sentence.trim())
+    .filter(
+      (sentence) =>
+        sentence.length >= MIN_SENTENCE_LENGTH &&
+        sentence.length <= MAX_SENTENCE_LENGTH &&
+        tokenize(sentence).length >= 3 &&
+        (/[.!?]$/.test(sentence) ||
+          sentence.split(/\s+/).length >= MIN_UNPUNCTUATED_WORDS),
+    );
+}
+
+function collectSentences(
+  input: Pick<SummaryInput, "sections" | "text">,
+): Sentence[] {
+  const sources = input.sections.length
+    ? input.sections
+    : [{ key: null, text: input.text }];
+  const seen = new Set<string>();
+  const sentences: Sentence[] = [];
+
+  for (const source of sources) {
+    for (const text of splitSentences(source.text)) {
+      const key = text.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      sentences.push({
+        text,
+        section: source.key,
+        terms: termFrequencies(text),
+      });
+    }
+  }
+  return sentences;
+}
+
+/** Weighted PageRank over the sentence similarity graph. */
+function textRank(similarity: number[][]): number[] {
+  const count = similarity.length;
+  const outWeights = similarity.map((row) =>
+    row.reduce((sum, value) => sum + value, 0),
+  );
+  let scores = new Array<number>(count).fill(1 / count);
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration += 1) {
+    scores = scores.map((_, target) => {
+      let incoming = 0;
+      for (let source = 0; source < count; source += 1) {
+        if (source !== target && outWeights[source]) {
+          incoming +=
+            (similarity[source][target] / outWeights[source]) * scores[source];
+        }
+      }
+      return (1 - DAMPING) / count + DAMPING * incoming;
+    });
+  }
+  return scores;
+}
+
+function hasQuantifiedImpact(sentence: string): boolean {
+  return IMPACT_REGEX.test(sentence) || COUNTED_IMPACT_REGEX.test(sentence);
+}
+
+function startsWithActionVerb(sentence: string): boolean {
+  const first = sentence.match(/^[A-Za-z]+/)?.[0]?.toLowerCase();
+  return Boolean(first && ACTION_VERBS.has(first));
+}
+
+/**
+ * Extractive summary: sentences are ranked by TextRank centrality plus
+ * action-verb and quantified-impact features, then picked with maximal
+ * marginal relevance so each new sentence adds something the others lack.
+ */
+export function buildExtractiveSummary(
+  input: Pick<SummaryInput, "sections" | "text">,
+  options: ExtractiveSummaryOptions = {},
+): string[] {
+  const length = options.length ?? DEFAULT_SUMMARY_LENGTH;
+  const sentences = collectSentences(input);
+  if (!sentences.length || length <= 0) return [];
+
+  const similarity = sentences.map((a, i) =>
+    sentences.map((b, j) => (i === j ? 0 : cosine(a.terms, b.terms))),
+  );
+  const ranks = textRank(similarity);
+  const maxRank = Math.max(...ranks);
+
+  const relevance = sentences.map(
+    (sentence, index) =>
+      FEATURE_WEIGHTS.centrality * (maxRank ? ranks[index] / maxRank : 0) +
+      FEATURE_WEIGHTS.actionVerb * Number(startsWithActionVerb(sentence.text)) +
+      FEATURE_WEIGHTS.impact * Number(hasQuantifiedImpact(sentence.text)) +
+      FEATURE_WEIGHTS.summarySection * Number(sentence.section === "summary"),
+  );
+
+  const chosen: number[] = [];
+  const remaining = new Set(sentences.map((_, index) => index));
+
+  while (chosen.length < length && remaining.size) {
+    let best: { index: number; score: number } | null = null;
+    for (const index of remaining) {
+      const redundancy = Math.max(
+        0,
+        ...chosen.map((picked) => similarity[index][picked]),
+      );
+      if (redundancy >= DUPLICATE_SIMILARITY) continue;
+      const score =
+        MMR_LAMBDA * relevance[index] - (1 - MMR_LAMBDA) * redundancy;
+      if (!best || score > best.score) best = { index, score };
+    }
+    if (!best) break;
+    chosen.push(best.index);
+    remaining.delete(best.index);
+  }
+
+  return chosen.map((index) => sentences[index].text);
+}
+
+export function createHeuristicSummarizer(
+  options: ExtractiveSummaryOptions = {},
+): Summarizer {
+  return {
+    name: "heuristic",
+    model: null,
+    async summarize(input) {
+      return buildExtractiveSummary(input, options);
+    },
+  };
+}
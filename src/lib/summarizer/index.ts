@@ -0,0 +1,151 @@
+import type { ParsedResume } from "@/lib/parser";
+import {
+  buildExtractiveSummary,
+  createHeuristicSummarizer,
+  DEFAULT_SUMMARY_LENGTH,
+  narrativeSections,
+} from "@/lib/summarizer/heuristic";
+import { createMockSummarizer } from "@/lib/summarizer/mock";
+import { createOpenAiCompatibleSummarizer } from "@/lib/summarizer/openai";
+import type {
+  Summarizer,
+  SummaryInput,
+  SummaryProvider,
+} from "@/lib/summarizer/types";
+
+export type {
+  Summarizer,
+  SummarizerName,
+  SummaryInput,
+  SummaryProvider,
+} from "@/lib/summarizer/types";
+
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+const DEFAULT_MODEL = "llama3.1";
+const DEFAULT_TIMEOUT_MS = 20000;
+const MIN_GROUNDED_OVERLAP = 0.5;
+
+/** Number of summary sentences, from SUMMARY_LENGTH (default 4). */
+export function getSummaryLength(): number {
+  const length = Number(process.env.SUMMARY_LENGTH);
+  return Number.isInteger(length) && length > 0
+    ? length
+    : DEFAULT_SUMMARY_LENGTH;
+}
+
+/**
+ * Picks the summarizer from SUMMARIZER_PROVIDER: "heuristic" (default),
+ * "openai" for any OpenAI-compatible server, or "mock".
+ */
+export function getSummarizer(): Summarizer {
+  const length = getSummaryLength();
+  switch (process.env.SUMMARIZER_PROVIDER) {
+    case "openai":
+    case "openai-compatible":
+      return createOpenAiCompatibleSummarizer({
+        baseUrl: process.env.SUMMARIZER_BASE_URL ?? DEFAULT_BASE_URL,
+        model: process.env.SUMMARIZER_MODEL ?? DEFAULT_MODEL,
+        apiKey: process.env.SUMMARIZER_API_KEY,
+        length,
+        timeoutMs:
+          Number(process.env.SUMMARIZER_TIMEOUT_MS) > 0
+            ? Number(process.env.SUMMARIZER_TIMEOUT_MS)
+            : DEFAULT_TIMEOUT_MS,
+      });
+    case "mock":
+      return createMockSummarizer({ length });
+    default:
+      return createHeuristicSummarizer({ length });
+  }
+}
+
+export function buildSummaryInput(resume: ParsedResume): SummaryInput {
+  return {
+    name: resume.name,
+    headline: resume.headline,
+    totalYearsExperience: resume.totalYearsExperience,
+    skills: resume.skills,
+    sections: narrativeSections(resume.sections),
+    text: resume.rawText,
+  };
+}
+
+function contentWords(text: string): string[] {
+  return text.toLowerCase().match(/[a-z][a-z0-9+#.]{3,}/g) ?? [];
+}
+
+/**
+ * Drops sentences that are not supported by the resume: every number must
+ * appear in the source, and at least half of the longer words must too.
+ */
+export function groundSummary(
+  sentences: string[],
+  input: SummaryInput,
+): string[] {
+  const source = [
+    input.name,
+    input.headline,
+    input.totalYearsExperience,
+    input.skills.join(" "),
+    input.text,
+  ].join("\n");
+  const sourceWords = new Set(contentWords(source));
+  const sourceNumbers = new Set(source.match(/\d+(?:\.\d+)?/g) ?? []);
+
+  return sentences
+    .filter((sentence) => {
+      const numbers = sentence.match(/\d+(?:\.\d+)?/g) ?? [];
+      if (numbers.some((number) => !sourceNumbers.has(number))) return false;
+      const words = contentWords(sentence);
+      if (!words.length) return false;
+      const supported = words.filter((word) => sourceWords.has(word)).length;
+      return supported / words.length >= MIN_GROUNDED_OVERLAP;
+    })
+    .slice(0, getSummaryLength());
+}
+
+/**
+ * Summarizes a parsed resume with the configured provider. Model output is
+ * grounded against the resume; if the provider is unreachable, errors or
+ * returns nothing usable, the heuristic summary is used and the reason noted.
+ */
+export async function summarizeResume(
+  resume: ParsedResume,
+  summarizer: Summarizer = getSummarizer(),
+): Promise<{ summary: string[]; summaryProvider: SummaryProvider }> {
+  const input = buildSummaryInput(resume);
+  if (summarizer.name === "heuristic") {
+    return {
+      summary: await summarizer.summarize(input),
+      summaryProvider: { name: "heuristic", model: null },
+    };
+  }
+
+  let fallbackReason: string;
+  try {
+    const sentences = await summarizer.summarize(input);
+    const grounded =
+      summarizer.name === "mock" ? sentences : groundSummary(sentences, input);
+    if (grounded.length) {
+      return {
+        summary: grounded,
+        summaryProvider: { name: summarizer.name, model: summarizer.model },
+      };
+    }
+    fallbackReason = "The model summary was not supported by the resume text.";
+  } catch (error) {
+    console.error("Summarizer failed, using the heuristic summary", error);
+    fallbackReason =
+      error instanceof Error ? error.message : "The summarizer is unavailable.";
+  }
+
+  return {
+    summary: buildExtractiveSummary(input, { length: getSummaryLength() }),
+    summaryProvider: { name: "heuristic", model: null, fallbackReason },
+  };
+}
+
+/** Replaces the parser's heuristic summary with the configured provider's. */
+export async function withSummary(resume: ParsedResume): Promise<ParsedResume> {
+  return { ...resume, ...(await summarizeResume(resume)) };
+}
@@ -0,0 +1,33 @@
+import { DEFAULT_SUMMARY_LENGTH } from "@/lib/summarizer/heuristic";
+import type { Summarizer } from "@/lib/summarizer/types";
+
+/**
+ * Returns a fixed-shape summary built only from parsed fields, so tests and
+ * demos get the same output for the same resume without a model. At most
+ * `length` lines are returned.
+ */
+export function createMockSummarizer(
+  options: { length?: number } = {},
+): Summarizer {
+  const length = options.length ?? DEFAULT_SUMMARY_LENGTH;
+  return {
+    name: "mock",
+    model: null,
+    async summarize(input) {
+      const lines = [
+        [input.name, input.headline].filter(Boolean).join(" — "),
+        input.totalYearsExperience !== null
+          ? `${input.totalYearsExperience} years of experience.`
+          : "",
+        input.skills.length
+          ? `Skills: ${input.skills.slice(0, 5).join(", ")}.`
+          : "",
+        ...input.sections.map(
+          (section) =>
+            `${section.heading ?? section.key}: ${section.text.split("\n")[0]}`,
+        ),
+      ];
+      return lines.filter(Boolean).slice(0, length);
+    },
+  };
+}
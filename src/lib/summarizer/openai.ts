@@ -0,0 +1,118 @@
+import type { Summarizer, SummaryInput } from "@/lib/summarizer/types";
+
+export type OpenAiCompatibleConfig = {
+  /** Base URL including the version prefix, e.g. http://localhost:11434/v1. */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+  /** Number of sentences to ask for. */
+  length: number;
+};
+
+const MAX_PROMPT_LENGTH = 12000;
+
+function buildSystemPrompt(length: number): string {
+  return [
+    "You summarize resumes for recruiters.",
+    `Write at most ${length} short sentences using only facts stated in the resume sections you are given.`,
+    "Do not invent employers, numbers, dates or skills.",
+    'Answer with a JSON array of strings and nothing else, e.g. ["First sentence.", "Second sentence."].',
+  ].join(" ");
+}
+
+function buildPrompt(input: SummaryInput): string {
+  const header = [
+    input.name && `Name: ${input.name}`,
+    input.headline && `Headline: ${input.headline}`,
+    input.totalYearsExperience !== null &&
+      `Total experience: ${input.totalYearsExperience} years`,
+    input.skills.length && `Skills: ${input.skills.join(", ")}`,
+  ].filter(Boolean);
+
+  const sections = input.sections.length
+    ? input.sections.map(
+        (section) => `## ${section.heading ?? section.key}\n${section.text}`,
+      )
+    : [input.text];
+
+  return [...header, ...sections].join("\n\n").slice(0, MAX_PROMPT_LENGTH);
+}
+
+/** Reads a JSON array of sentences, tolerating code fences and bullet lists. */
+function parseSentences(content: string): string[] {
+  const trimmed = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/```$/, "")
+    .trim();
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    if (Array.isArray(parsed)) {
+      return parsed
+        .filter((item): item is string => typeof item === "string")
+        .map((item) => item.trim())
+        .filter(Boolean);
+    }
+  } catch {
+    // Fall through: many local models ignore the format instruction.
+  }
+
+  return trimmed
+    .split(/\n+/)
+    .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/u, "").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Summarizes through any server speaking the OpenAI chat completions API:
+ * OpenAI itself, or a local Ollama, llama.cpp or vLLM server.
+ */
+export function createOpenAiCompatibleSummarizer(
+  config: OpenAiCompatibleConfig,
+): Summarizer {
+  return {
+    name: "openai-compatible",
+    model: config.model,
+    async summarize(input) {
+      const response = await fetch(
+        `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(config.apiKey
+              ? { Authorization: `Bearer ${config.apiKey}` }
+              : {}),
+          },
+          body: JSON.stringify({
+            model: config.model,
+            temperature: 0,
+            messages: [
+              { role: "system", content: buildSystemPrompt(config.length) },
+              { role: "user", content: buildPrompt(input) },
+            ],
+          }),
+          signal: AbortSignal.timeout(config.timeoutMs),
+          cache: "no-store",
+        },
+      );
+
+      if (!response.ok) {
+        throw new Error(
+          `Summarizer request failed with status ${response.status}`,
+        );
+      }
+
+      const body = (await response.json()) as {
+        choices?: Array<{ message?: { content?: string } }>;
+      };
+      const content = body.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new Error("Summarizer returned an empty response");
+      }
+      return parseSentences(content);
+    },
+  };
+}
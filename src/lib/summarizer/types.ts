@@ -0,0 +1,27 @@
+import type { SectionKey } from "@/lib/sections";
+
+export type SummarizerName = "heuristic" | "openai-compatible" | "mock";
+
+export type SummaryProvider = {
+  name: SummarizerName;
+  model: string | null;
+  /** Set when the configured provider failed and the heuristic stood in. */
+  fallbackReason?: string;
+};
+
+/** The parsed parts of a resume a summary may draw on. */
+export type SummaryInput = {
+  name: string | null;
+  headline: string | null;
+  totalYearsExperience: number | null;
+  skills: string[];
+  sections: Array<{ key: SectionKey; heading: string | null; text: string }>;
+  /** Full resume text, used when no narrative sections were detected. */
+  text: string;
+};
+
+export type Summarizer = {
+  name: SummarizerName;
+  model: string | null;
+  summarize: (input: SummaryInput) => Promise<string[]>;
+};